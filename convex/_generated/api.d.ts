@@ -9,16 +9,35 @@
  */
 
 import type * as comments from "../comments.js";
+import type * as commentThreads from "../commentThreads.js";
+import type * as communityRatings from "../communityRatings.js";
+import type * as crons from "../crons.js";
 import type * as entries from "../entries.js";
+import type * as entryCards from "../entryCards.js";
+import type * as entryCounters from "../entryCounters.js";
+import type * as entryDeletion from "../entryDeletion.js";
+import type * as entryRefs from "../entryRefs.js";
 import type * as features from "../features.js";
+import type * as imageProcessing from "../imageProcessing.js";
+import type * as filters from "../filters.js";
 import type * as games from "../games.js";
 import type * as hardware from "../hardware.js";
+import type * as migrations from "../migrations.js";
+import type * as permissions from "../permissions.js";
+import type * as photos from "../photos.js";
 import type * as places from "../places.js";
 import type * as reviews from "../reviews.js";
+import type * as revisions from "../revisions.js";
+import type * as searchText from "../searchText.js";
 import type * as services from "../services.js";
 import type * as software from "../software.js";
+import type * as stats from "../stats.js";
 import type * as storage from "../storage.js";
 import type * as tags from "../tags.js";
+import type * as trash from "../trash.js";
+import type * as uploadCleanup from "../uploadCleanup.js";
+import type * as users from "../users.js";
+import type * as votes from "../votes.js";
 
 import type {
   ApiFromModules,
@@ -28,16 +47,35 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   comments: typeof comments;
+  commentThreads: typeof commentThreads;
+  communityRatings: typeof communityRatings;
+  crons: typeof crons;
   entries: typeof entries;
+  entryCards: typeof entryCards;
+  entryCounters: typeof entryCounters;
+  entryDeletion: typeof entryDeletion;
+  entryRefs: typeof entryRefs;
   features: typeof features;
+  imageProcessing: typeof imageProcessing;
+  filters: typeof filters;
   games: typeof games;
   hardware: typeof hardware;
+  migrations: typeof migrations;
+  permissions: typeof permissions;
+  photos: typeof photos;
   places: typeof places;
   reviews: typeof reviews;
+  revisions: typeof revisions;
+  searchText: typeof searchText;
   services: typeof services;
   software: typeof software;
+  stats: typeof stats;
   storage: typeof storage;
   tags: typeof tags;
+  trash: typeof trash;
+  uploadCleanup: typeof uploadCleanup;
+  users: typeof users;
+  votes: typeof votes;
 }>;
 
 /**
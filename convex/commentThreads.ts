@@ -0,0 +1,57 @@
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+
+// Deepest level a reply can sit at; top-level comments are at depth 0
+export const MAX_REPLY_DEPTH = 4;
+
+// How many replies up the thread a comment is
+export async function commentDepth(
+    ctx: QueryCtx,
+    comment: Doc<'comments'>
+): Promise<number> {
+    let depth = 0;
+    let parentId = comment.parentId;
+    while (parentId && depth <= MAX_REPLY_DEPTH) {
+        const parent = await ctx.db.get(parentId);
+        if (!parent) break;
+        depth++;
+        parentId = parent.parentId;
+    }
+    return depth;
+}
+
+// Whether a comment still has replies
+export async function hasReplies(
+    ctx: QueryCtx,
+    commentId: Id<'comments'>
+): Promise<boolean> {
+    const reply = await ctx.db
+        .query('comments')
+        .withIndex('by_parent', (q) => q.eq('parentId', commentId))
+        .first();
+    return reply !== null;
+}
+
+// Update a parent after one of its replies was deleted. Placeholders of
+// deleted comments are removed once their last reply is gone, which can
+// cascade up the thread.
+export async function detachReply(
+    ctx: MutationCtx,
+    parentId: Id<'comments'> | undefined
+): Promise<void> {
+    const parent = parentId ? await ctx.db.get(parentId) : null;
+    if (!parent) return;
+
+    if (
+        parent.deletedAt !== undefined &&
+        !(await hasReplies(ctx, parent._id))
+    ) {
+        await ctx.db.delete(parent._id);
+        await detachReply(ctx, parent.parentId);
+        return;
+    }
+
+    await ctx.db.patch(parent._id, {
+        replyCount: Math.max(0, (parent.replyCount ?? 0) - 1)
+    });
+}
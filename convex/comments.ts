@@ -1,6 +1,31 @@
 import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
 import { query, mutation } from './_generated/server';
-import type { Id } from './_generated/dataModel';
+import type { QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import {
+    entryRefFields,
+    getEntryDoc,
+    normalizeEntryRef,
+    requireEntry,
+    requireEntryByKey,
+    toEntryKey
+} from './entryRefs';
+import { adjustEntryCounter, countEntryRows } from './entryCounters';
+import { MAX_ALT_TEXT_LENGTH } from './photos';
+import {
+    claimCommentPhoto,
+    deleteCommentPhoto,
+    getImageSource
+} from './storage';
+import { deleteVotes, helpfulnessSort } from './votes';
+import type { HelpfulnessSort } from './votes';
+import {
+    MAX_REPLY_DEPTH,
+    commentDepth,
+    detachReply,
+    hasReplies
+} from './commentThreads';
 
 // Entry type validator
 const entryType = v.union(
@@ -11,140 +36,116 @@ const entryType = v.union(
     v.literal('service')
 );
 
-// Get comments for an entry
+// A comment with an image source for its photo
+async function withPhotoSource(ctx: QueryCtx, comment: Doc<'comments'>) {
+    return {
+        ...comment,
+        photoSource: comment.photo
+            ? await getImageSource(ctx, comment.photo)
+            : null
+    };
+}
+
+// Every reply below a comment, depth first. Siblings are oldest first, or
+// most helpful first when sorting by helpfulness.
+async function loadReplies(
+    ctx: QueryCtx,
+    commentId: Id<'comments'>,
+    sort: HelpfulnessSort | undefined
+): Promise<Array<Awaited<ReturnType<typeof withPhotoSource>>>> {
+    const replies = await ctx.db
+        .query('comments')
+        .withIndex('by_parent', (q) => q.eq('parentId', commentId))
+        .collect();
+    if (sort === 'helpful') {
+        replies.sort((a, b) => (b.helpfulScore ?? 0) - (a.helpfulScore ?? 0));
+    }
+
+    const thread = [];
+    for (const reply of replies) {
+        thread.push(
+            await withPhotoSource(ctx, reply),
+            ...(await loadReplies(ctx, reply._id, sort))
+        );
+    }
+    return thread;
+}
+
+// One page of an entry's top-level comments, newest, oldest or most helpful
+// first, each with its replies. Clients nest replies under their parentId.
 export const getCommentsForEntry = query({
     args: {
         entryType: entryType,
-        gameId: v.optional(v.string()), // Use string to avoid table validation
-        hardwareId: v.optional(v.string()),
-        placeId: v.optional(v.string()),
-        softwareId: v.optional(v.string()),
-        serviceId: v.optional(v.string())
+        entryId: v.string(),
+        sort: v.optional(helpfulnessSort),
+        paginationOpts: paginationOptsValidator
     },
     handler: async (ctx, args) => {
-        switch (args.entryType) {
-            case 'game':
-                if (!args.gameId) return [];
-                return await ctx.db
-                    .query('comments')
-                    .withIndex('by_game', (q) =>
-                        q.eq('gameId', args.gameId as Id<'games'>)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'hardware':
-                if (!args.hardwareId) return [];
-                return await ctx.db
-                    .query('comments')
-                    .withIndex('by_hardware', (q) =>
-                        q.eq('hardwareId', args.hardwareId as Id<'hardware'>)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'place':
-                if (!args.placeId) return [];
-                return await ctx.db
-                    .query('comments')
-                    .withIndex('by_place', (q) =>
-                        q.eq('placeId', args.placeId as Id<'places'>)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'software':
-                if (!args.softwareId) return [];
-                return await ctx.db
-                    .query('comments')
-                    .withIndex('by_software', (q) =>
-                        q.eq('softwareId', args.softwareId as Id<'software'>)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'service':
-                if (!args.serviceId) return [];
-                return await ctx.db
-                    .query('comments')
-                    .withIndex('by_service', (q) =>
-                        q.eq('serviceId', args.serviceId as Id<'services'>)
-                    )
-                    .order('desc')
-                    .collect();
-        }
+        const entryKey = toEntryKey(args.entryType, args.entryId);
+        const result = await (
+            args.sort === 'helpful'
+                ? ctx.db
+                      .query('comments')
+                      .withIndex('by_entry_parent_helpful', (q) =>
+                          q.eq('entryKey', entryKey).eq('parentId', undefined)
+                      )
+                      .order('desc')
+                : ctx.db
+                      .query('comments')
+                      .withIndex('by_entry_parent', (q) =>
+                          q.eq('entryKey', entryKey).eq('parentId', undefined)
+                      )
+                      .order(args.sort === 'oldest' ? 'asc' : 'desc')
+        ).paginate(args.paginationOpts);
+
+        return {
+            ...result,
+            page: await Promise.all(
+                result.page.map(async (comment) => ({
+                    ...(await withPhotoSource(ctx, comment)),
+                    replies: await loadReplies(ctx, comment._id, args.sort)
+                }))
+            )
+        };
     }
 });
 
-// Get comment count for an entry
+// Get comment count for an entry, from the count maintained on the entry
 export const getCommentCount = query({
     args: {
         entryType: entryType,
-        gameId: v.optional(v.string()),
-        hardwareId: v.optional(v.string()),
-        placeId: v.optional(v.string()),
-        softwareId: v.optional(v.string()),
-        serviceId: v.optional(v.string())
+        entryId: v.string()
     },
     handler: async (ctx, args) => {
-        let comments: unknown[] = [];
-        switch (args.entryType) {
-            case 'game':
-                if (!args.gameId) return 0;
-                comments = await ctx.db
-                    .query('comments')
-                    .withIndex('by_game', (q) =>
-                        q.eq('gameId', args.gameId as Id<'games'>)
-                    )
-                    .collect();
-                break;
-            case 'hardware':
-                if (!args.hardwareId) return 0;
-                comments = await ctx.db
-                    .query('comments')
-                    .withIndex('by_hardware', (q) =>
-                        q.eq('hardwareId', args.hardwareId as Id<'hardware'>)
-                    )
-                    .collect();
-                break;
-            case 'place':
-                if (!args.placeId) return 0;
-                comments = await ctx.db
-                    .query('comments')
-                    .withIndex('by_place', (q) =>
-                        q.eq('placeId', args.placeId as Id<'places'>)
-                    )
-                    .collect();
-                break;
-            case 'software':
-                if (!args.softwareId) return 0;
-                comments = await ctx.db
-                    .query('comments')
-                    .withIndex('by_software', (q) =>
-                        q.eq('softwareId', args.softwareId as Id<'software'>)
-                    )
-                    .collect();
-                break;
-            case 'service':
-                if (!args.serviceId) return 0;
-                comments = await ctx.db
-                    .query('comments')
-                    .withIndex('by_service', (q) =>
-                        q.eq('serviceId', args.serviceId as Id<'services'>)
-                    )
-                    .collect();
-                break;
+        const ref = normalizeEntryRef(ctx, args.entryType, args.entryId);
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (!entry) {
+            return 0;
         }
-        return comments.length;
+
+        // Entries that predate the counter are counted on the fly
+        return (
+            entry.commentCount ??
+            (await countEntryRows(
+                ctx,
+                toEntryKey(args.entryType, entry._id),
+                'commentCount'
+            ))
+        );
     }
 });
 
-// Add a comment (requires authentication)
+// Add a comment, or a reply to parentId (requires authentication). A photo
+// must be uploaded by the commenter (see storage.finalizeUpload) and needs
+// alt text.
 export const addComment = mutation({
     args: {
         entryType: entryType,
-        gameId: v.optional(v.string()),
-        hardwareId: v.optional(v.string()),
-        placeId: v.optional(v.string()),
-        softwareId: v.optional(v.string()),
-        serviceId: v.optional(v.string()),
-        content: v.string()
+        entryId: v.string(),
+        content: v.string(),
+        parentId: v.optional(v.id('comments')),
+        photo: v.optional(v.id('_storage')),
+        photoAltText: v.optional(v.string())
     },
     handler: async (ctx, args) => {
         const identity = await ctx.auth.getUserIdentity();
@@ -157,19 +158,60 @@ export const addComment = mutation({
             throw new Error('Comment cannot be empty');
         }
 
-        return await ctx.db.insert('comments', {
-            entryType: args.entryType,
-            gameId: args.gameId as Id<'games'> | undefined,
-            hardwareId: args.hardwareId as Id<'hardware'> | undefined,
-            placeId: args.placeId as Id<'places'> | undefined,
-            softwareId: args.softwareId as Id<'software'> | undefined,
-            serviceId: args.serviceId as Id<'services'> | undefined,
+        await requireEntry(ctx, args.entryType, args.entryId);
+
+        const parent = args.parentId ? await ctx.db.get(args.parentId) : null;
+        if (args.parentId) {
+            if (
+                !parent ||
+                parent.entryKey !== toEntryKey(args.entryType, args.entryId) ||
+                parent.deletedAt !== undefined
+            ) {
+                throw new Error('The comment you replied to no longer exists');
+            }
+            if ((await commentDepth(ctx, parent)) >= MAX_REPLY_DEPTH) {
+                throw new Error('This thread is nested too deeply to reply to');
+            }
+        }
+
+        const photoAltText = args.photoAltText?.trim();
+        if (args.photo) {
+            if (!photoAltText) {
+                throw new Error(
+                    'Describe your photo for people who cannot see it'
+                );
+            }
+            if (photoAltText.length > MAX_ALT_TEXT_LENGTH) {
+                throw new Error(
+                    `Alt text must be at most ${MAX_ALT_TEXT_LENGTH} characters`
+                );
+            }
+            await claimCommentPhoto(ctx, identity.subject, args.photo);
+        }
+
+        const id = await ctx.db.insert('comments', {
+            ...entryRefFields(args.entryType, args.entryId),
             userId: identity.subject,
             userName: identity.name ?? undefined,
             userImage: identity.pictureUrl ?? undefined,
             content: args.content.trim(),
+            photo: args.photo,
+            photoAltText: args.photo ? photoAltText : undefined,
+            parentId: args.parentId,
             createdAt: Date.now()
         });
+        if (parent) {
+            await ctx.db.patch(parent._id, {
+                replyCount: (parent.replyCount ?? 0) + 1
+            });
+        }
+        await adjustEntryCounter(
+            ctx,
+            toEntryKey(args.entryType, args.entryId),
+            'commentCount',
+            1
+        );
+        return id;
     }
 });
 
@@ -186,13 +228,14 @@ export const updateComment = mutation({
         }
 
         const comment = await ctx.db.get(args.id);
-        if (!comment) {
+        if (!comment || comment.deletedAt !== undefined) {
             throw new Error('Comment not found');
         }
 
         if (comment.userId !== identity.subject) {
             throw new Error('You can only edit your own comments');
         }
+        await requireEntryByKey(ctx, comment.entryKey);
 
         if (!args.content.trim()) {
             throw new Error('Comment cannot be empty');
@@ -205,7 +248,8 @@ export const updateComment = mutation({
     }
 });
 
-// Delete a comment (requires authentication - only owner can delete)
+// Delete a comment (requires authentication - only owner can delete).
+// Comments with replies are replaced by a "[deleted]" placeholder.
 export const deleteComment = mutation({
     args: { id: v.id('comments') },
     handler: async (ctx, args) => {
@@ -215,14 +259,35 @@ export const deleteComment = mutation({
         }
 
         const comment = await ctx.db.get(args.id);
-        if (!comment) {
+        if (!comment || comment.deletedAt !== undefined) {
             throw new Error('Comment not found');
         }
 
         if (comment.userId !== identity.subject) {
             throw new Error('You can only delete your own comments');
         }
+        await requireEntryByKey(ctx, comment.entryKey);
 
-        await ctx.db.delete(args.id);
+        if (comment.photo) {
+            await deleteCommentPhoto(ctx, comment.photo);
+        }
+        if (await hasReplies(ctx, args.id)) {
+            await ctx.db.patch(args.id, {
+                content: '',
+                userName: undefined,
+                userImage: undefined,
+                photo: undefined,
+                photoAltText: undefined,
+                helpfulCount: undefined,
+                unhelpfulCount: undefined,
+                helpfulScore: undefined,
+                deletedAt: Date.now()
+            });
+        } else {
+            await ctx.db.delete(args.id);
+            await detachReply(ctx, comment.parentId);
+        }
+        await deleteVotes(ctx, args.id);
+        await adjustEntryCounter(ctx, comment.entryKey, 'commentCount', -1);
     }
 });
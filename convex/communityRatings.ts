@@ -0,0 +1,204 @@
+import type { Infer } from 'convex/values';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { getEntryDoc, normalizeEntryRef, parseEntryKey } from './entryRefs';
+import type { communityRating } from './schema';
+
+export type CommunityRating = Infer<typeof communityRating>;
+export type RatingSummary = CommunityRating['overall'];
+
+type ReviewRating = Pick<
+    Doc<'reviews'>,
+    'rating' | 'accessibilityType' | 'dimensionRatings'
+>;
+
+export type Dimension = keyof NonNullable<CommunityRating['byDimension']>;
+
+export const dimensions: Dimension[] = [
+    'visual',
+    'auditory',
+    'motor',
+    'cognitive'
+];
+
+// Bayesian smoothing: every entry starts with this many imaginary reviews at
+// the middle of the scale, so a single 5-star review doesn't outrank many
+// 4-star ones. The prior is fixed rather than the site-wide mean so that one
+// review never changes the score of every other entry.
+const PRIOR_REVIEWS = 5;
+const PRIOR_MEAN = 3;
+
+export function emptyCommunityRating(): CommunityRating {
+    return {
+        overall: emptySummary(),
+        byAccessibilityType: {}
+    };
+}
+
+function emptySummary(): RatingSummary {
+    return { count: 0, sum: 0, distribution: [0, 0, 0, 0, 0] };
+}
+
+// Add (sign 1) or remove (sign -1) one rating
+function applyRating(
+    summary: RatingSummary,
+    rating: number,
+    sign: 1 | -1
+): RatingSummary {
+    const bucket = Math.min(4, Math.max(0, Math.round(rating) - 1));
+    return {
+        count: summary.count + sign,
+        sum: summary.sum + sign * rating,
+        distribution: summary.distribution.map((count, i) =>
+            i === bucket ? Math.max(0, count + sign) : count
+        )
+    };
+}
+
+export function applyReview(
+    aggregate: CommunityRating,
+    review: ReviewRating,
+    sign: 1 | -1
+): CommunityRating {
+    const type = review.accessibilityType;
+
+    const byDimension = { ...aggregate.byDimension };
+    for (const dimension of dimensions) {
+        const rating = review.dimensionRatings?.[dimension];
+        if (rating === undefined) continue;
+        byDimension[dimension] = applyRating(
+            byDimension[dimension] ?? emptySummary(),
+            rating,
+            sign
+        );
+    }
+
+    return {
+        overall: applyRating(aggregate.overall, review.rating, sign),
+        byAccessibilityType: type
+            ? {
+                  ...aggregate.byAccessibilityType,
+                  [type]: applyRating(
+                      aggregate.byAccessibilityType[type] ?? emptySummary(),
+                      review.rating,
+                      sign
+                  )
+              }
+            : aggregate.byAccessibilityType,
+        byDimension
+    };
+}
+
+// Mean rating, or null without reviews
+export function meanRating(summary: RatingSummary | undefined): number | null {
+    return summary && summary.count > 0 ? summary.sum / summary.count : null;
+}
+
+// Mean pulled towards the prior, for ranking. Undefined without reviews, so
+// unreviewed entries sort last.
+export function bayesianScore(summary: RatingSummary): number | undefined {
+    if (summary.count === 0) return undefined;
+    return (
+        (PRIOR_REVIEWS * PRIOR_MEAN + summary.sum) /
+        (PRIOR_REVIEWS + summary.count)
+    );
+}
+
+// Aggregate all of an entry's reviews from scratch
+export async function computeCommunityRating(
+    ctx: QueryCtx,
+    entryKey: string
+): Promise<CommunityRating> {
+    const reviews = await ctx.db
+        .query('reviews')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .collect();
+    return reviews.reduce(
+        (aggregate, review) => applyReview(aggregate, review, 1),
+        emptyCommunityRating()
+    );
+}
+
+// Entry fields for an aggregate
+export function communityRatingFields(aggregate: CommunityRating) {
+    return {
+        communityRating: aggregate,
+        communityScore: bayesianScore(aggregate.overall)
+    };
+}
+
+// Apply reviews being added (sign 1) or deleted (sign -1) to their entry's
+// aggregate in one write. Call after the rows have been written. Entries that
+// predate the aggregate are recomputed once instead, which already reflects
+// every change.
+async function updateCommunityRating(
+    ctx: MutationCtx,
+    entryKey: string | undefined,
+    changes: Array<{ review: ReviewRating; sign: 1 | -1 }>
+): Promise<void> {
+    const parsed = entryKey ? parseEntryKey(entryKey) : null;
+    const ref = parsed
+        ? normalizeEntryRef(ctx, parsed.entryType, parsed.entryId)
+        : null;
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entryKey || !entry) return;
+
+    const aggregate = entry.communityRating
+        ? changes.reduce(
+              (current, { review, sign }) => applyReview(current, review, sign),
+              entry.communityRating
+          )
+        : await computeCommunityRating(ctx, entryKey);
+
+    await ctx.db.patch(entry._id, communityRatingFields(aggregate));
+}
+
+// Apply a review being added (sign 1) or deleted (sign -1) to its entry's
+// aggregate. Call after the row has been inserted or deleted.
+export async function adjustCommunityRating(
+    ctx: MutationCtx,
+    review: ReviewRating & { entryKey?: string },
+    sign: 1 | -1
+): Promise<void> {
+    await updateCommunityRating(ctx, review.entryKey, [{ review, sign }]);
+}
+
+// Swap an edited review's old ratings for its new ones in its entry's
+// aggregate. Call after the row has been patched.
+export async function replaceCommunityRating(
+    ctx: MutationCtx,
+    before: ReviewRating & { entryKey?: string },
+    after: ReviewRating
+): Promise<void> {
+    await updateCommunityRating(ctx, before.entryKey, [
+        { review: before, sign: -1 },
+        { review: after, sign: 1 }
+    ]);
+}
+
+// Apply a review's feature reports being added (sign 1) or deleted (sign -1)
+// to the entry's feature associations. Reports on features the entry no
+// longer has are ignored.
+export async function adjustFeatureConfirmations(
+    ctx: MutationCtx,
+    review: Pick<Doc<'reviews'>, 'entryKey' | 'featureConfirmations'>,
+    sign: 1 | -1
+): Promise<void> {
+    const { entryKey } = review;
+    if (!entryKey) return;
+
+    for (const { featureId, status } of review.featureConfirmations ?? []) {
+        const assoc = await ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry_feature', (q) =>
+                q.eq('entryKey', entryKey).eq('featureId', featureId)
+            )
+            .unique();
+        if (!assoc) continue;
+
+        const counter = status === 'works' ? 'worksCount' : 'brokenCount';
+        await ctx.db.patch(assoc._id, {
+            [counter]: Math.max(0, (assoc[counter] ?? 0) + sign)
+        });
+    }
+}
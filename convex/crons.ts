@@ -0,0 +1,20 @@
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+// Permanently delete entries that have been in the trash for 30 days
+crons.daily(
+    'purge expired trash',
+    { hourUTC: 4, minuteUTC: 0 },
+    internal.trash.purgeExpiredEntries
+);
+
+// Delete uploads that were never attached to an entry or comment
+crons.daily(
+    'collect orphaned uploads',
+    { hourUTC: 4, minuteUTC: 30 },
+    internal.uploadCleanup.collectOrphanedUploads
+);
+
+export default crons;
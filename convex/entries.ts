@@ -1,6 +1,21 @@
 import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import type {
+    IndexRange,
+    IndexRangeBuilder,
+    PaginationOptions,
+    PaginationResult
+} from 'convex/server';
 import { query } from './_generated/server';
+import type { QueryCtx } from './_generated/server';
 import type { Doc, Id } from './_generated/dataModel';
+import {
+    categories,
+    entryTables,
+    getEntryDoc,
+    resolveEntryId
+} from './entryRefs';
+import { loadStats } from './stats';
 
 // Entry type definition
 export type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
@@ -27,7 +42,101 @@ export type EntryRef =
     | { type: 'software'; id: Id<'software'> }
     | { type: 'service'; id: Id<'services'> };
 
-// Get all entries with optional filtering by category
+// ============================================
+// SORTING
+// ============================================
+
+// Sort orders for entry lists. Each maps onto an index present on every
+// entry table; ties are broken by creation time, like the index itself.
+const entrySorts = {
+    newest: { index: 'by_created', field: 'createdAt', order: 'desc' },
+    rating: { index: 'by_rating', field: 'overallRating', order: 'desc' },
+    visual: { index: 'by_visual', field: 'visualAccessibility', order: 'desc' },
+    auditory: {
+        index: 'by_auditory',
+        field: 'auditoryAccessibility',
+        order: 'desc'
+    },
+    motor: { index: 'by_motor', field: 'motorAccessibility', order: 'desc' },
+    cognitive: {
+        index: 'by_cognitive',
+        field: 'cognitiveAccessibility',
+        order: 'desc'
+    },
+    community: {
+        index: 'by_community_score',
+        field: 'communityScore',
+        order: 'desc'
+    },
+    most_reviewed: {
+        index: 'by_review_count',
+        field: 'reviewCount',
+        order: 'desc'
+    },
+    most_commented: {
+        index: 'by_comment_count',
+        field: 'commentCount',
+        order: 'desc'
+    },
+    updated: { index: 'by_updated', field: 'updatedAt', order: 'desc' },
+    name: { index: 'by_name', field: 'name', order: 'asc' }
+} as const;
+
+export type EntrySort = keyof typeof entrySorts;
+
+export const entrySortValidator = v.union(
+    v.literal('newest'),
+    v.literal('rating'),
+    v.literal('visual'),
+    v.literal('auditory'),
+    v.literal('motor'),
+    v.literal('cognitive'),
+    v.literal('community'),
+    v.literal('most_reviewed'),
+    v.literal('most_commented'),
+    v.literal('updated'),
+    v.literal('name')
+);
+
+type SortValue = number | string | undefined;
+
+function sortValue(entry: AnyEntry, sort: EntrySort): SortValue {
+    return entry[entrySorts[sort].field];
+}
+
+// Same ordering as Convex indexes: missing values first, then numbers, then
+// strings
+function compareSortValues(a: SortValue, b: SortValue): number {
+    if (a === b) return 0;
+    if (a === undefined) return -1;
+    if (b === undefined) return 1;
+    if (typeof a !== typeof b) return typeof a === 'number' ? -1 : 1;
+    return a < b ? -1 : 1;
+}
+
+// Comparator for a sort order, matching the order its index returns entries
+export function compareEntries(sort: EntrySort) {
+    const direction = entrySorts[sort].order === 'desc' ? -1 : 1;
+    return (a: AnyEntry, b: AnyEntry): number =>
+        direction *
+        (compareSortValues(sortValue(a, sort), sortValue(b, sort)) ||
+            a._creationTime - b._creationTime);
+}
+
+// Entries from one table in the given sort order, excluding the trash
+function queryEntriesSorted(
+    ctx: QueryCtx,
+    category: Category,
+    sort: EntrySort
+) {
+    const { index, order } = entrySorts[sort];
+    return queryEntryTable(ctx, category)
+        .withIndex(index as 'by_created')
+        .order(order)
+        .filter((q) => q.eq(q.field('deletedAt'), undefined));
+}
+
+// Get entries with optional filtering by category
 export const getEntries = query({
     args: {
         category: v.optional(
@@ -39,123 +148,310 @@ export const getEntries = query({
                 v.literal('service')
             )
         ),
+        sort: v.optional(entrySortValidator),
         limit: v.optional(v.number())
     },
-    handler: async (ctx, args) => {
+    handler: async (ctx, args): Promise<AnyEntry[]> => {
         const limit = args.limit ?? 50;
+        const sort = args.sort ?? 'newest';
+        const searched = args.category ? [args.category] : categories;
+
+        // Each table contributes its first `limit` entries, then the
+        // combined list is re-sorted and trimmed
+        const perCategory = await Promise.all(
+            searched.map(async (category) => {
+                const docs = await queryEntriesSorted(ctx, category, sort).take(
+                    limit
+                );
+                return docs.map((doc) => withCategory(doc, category));
+            })
+        );
+
+        return perCategory.flat().sort(compareEntries(sort)).slice(0, limit);
+    }
+});
+
+// All entry tables share the same base fields and indexes, so queries over
+// any of them are typed through the games table
+export function queryEntryTable(ctx: QueryCtx, category: Category) {
+    return ctx.db.query(entryTables[category] as 'games');
+}
+
+export function withCategory(doc: Doc<'games'>, category: Category): AnyEntry {
+    return { ...doc, category } as AnyEntry;
+}
+
+// Newest first, tie-broken by creation time so the order is total
+export const compareNewestFirst = compareEntries('newest');
+
+// Position of an entry in a sort order: its sort value, tie-broken by
+// creation time like the indexes
+interface FeedPosition {
+    value: SortValue;
+    creationTime: number;
+}
+
+// Feed cursor: the sort order and the position the page it ends stopped at.
+// Tables are resumed from the same position, so a page that re-runs keeps
+// ending where the next page starts.
+interface FeedCursor {
+    sort: EntrySort;
+    position?: FeedPosition;
+}
+
+function decodeFeedCursor(
+    cursor: string | null | undefined,
+    sort: EntrySort
+): FeedCursor {
+    if (!cursor) return { sort };
+
+    let decoded: FeedCursor;
+    try {
+        decoded = JSON.parse(cursor) as FeedCursor;
+    } catch {
+        throw new Error('InvalidCursor: malformed entries feed cursor');
+    }
+    if (decoded.sort !== sort) {
+        throw new Error(
+            'InvalidCursor: entries feed cursor is for a different sort'
+        );
+    }
+    return decoded;
+}
 
-        // If a specific category is requested, only query that table
-        if (args.category) {
-            switch (args.category) {
-                case 'game': {
-                    const games = await ctx.db
-                        .query('games')
-                        .withIndex('by_created')
-                        .order('desc')
-                        .take(limit);
-                    return games.map((g) => ({
-                        ...g,
-                        category: 'game' as const
-                    }));
-                }
-                case 'hardware': {
-                    const hardware = await ctx.db
-                        .query('hardware')
-                        .withIndex('by_created')
-                        .order('desc')
-                        .take(limit);
-                    return hardware.map((h) => ({
-                        ...h,
-                        category: 'hardware' as const
-                    }));
-                }
-                case 'place': {
-                    const places = await ctx.db
-                        .query('places')
-                        .withIndex('by_created')
-                        .order('desc')
-                        .take(limit);
-                    return places.map((p) => ({
-                        ...p,
-                        category: 'place' as const
-                    }));
-                }
-                case 'software': {
-                    const software = await ctx.db
-                        .query('software')
-                        .withIndex('by_created')
-                        .order('desc')
-                        .take(limit);
-                    return software.map((s) => ({
-                        ...s,
-                        category: 'software' as const
-                    }));
-                }
-                case 'service': {
-                    const services = await ctx.db
-                        .query('services')
-                        .withIndex('by_created')
-                        .order('desc')
-                        .take(limit);
-                    return services.map((s) => ({
-                        ...s,
-                        category: 'service' as const
-                    }));
-                }
+function encodeFeedCursor(sort: EntrySort, position?: FeedPosition): string {
+    return JSON.stringify({ sort, position });
+}
+
+function feedPosition(entry: AnyEntry, sort: EntrySort): FeedPosition {
+    return { value: sortValue(entry, sort), creationTime: entry._creationTime };
+}
+
+// Order of two positions in a sort order
+function comparePositions(
+    a: FeedPosition,
+    b: FeedPosition,
+    sort: EntrySort
+): number {
+    const direction = entrySorts[sort].order === 'desc' ? -1 : 1;
+    return (
+        direction *
+        (compareSortValues(a.value, b.value) || a.creationTime - b.creationTime)
+    );
+}
+
+// Whether an entry comes after a position in the sort order
+function isPast(entry: AnyEntry, position: FeedPosition, sort: EntrySort) {
+    return comparePositions(feedPosition(entry, sort), position, sort) > 0;
+}
+
+// What one table contributed to a page
+interface TableBatch {
+    entries: AnyEntry[];
+    // Position of the last row read, when the table has more rows that
+    // weren't read (numItems matches or maxScan rows reached)
+    stoppedAt?: FeedPosition;
+}
+
+// Take up to numItems entries that satisfy `matches` from one table in sort
+// order, strictly after the given position and up to the end position if
+// there is one, reading at most maxScan rows. Entries tied with the
+// position's sort value are resumed within the tie by creation time, then the
+// rest strictly past the value, so no page re-reads rows earlier pages read.
+async function takeAfter(
+    ctx: QueryCtx,
+    category: Category,
+    sort: EntrySort,
+    position: FeedPosition | undefined,
+    numItems: number,
+    end?: FeedPosition,
+    matches?: (entry: AnyEntry) => boolean,
+    maxScan = Infinity
+): Promise<TableBatch> {
+    const batch: TableBatch = { entries: [] };
+    if (numItems <= 0) return batch;
+
+    const { index, field, order } = entrySorts[sort];
+    const sortField = field as 'createdAt';
+    const query = (
+        range?: (
+            q: IndexRangeBuilder<Doc<'games'>, ['createdAt', '_creationTime']>
+        ) => IndexRange
+    ) =>
+        queryEntryTable(ctx, category)
+            .withIndex(index as 'by_created', range)
+            .order(order)
+            .filter((q) => q.eq(q.field('deletedAt'), undefined));
+
+    // Set once the end position has been passed or a limit reached
+    let done = false;
+    let scanned = 0;
+    const take = async (docs: ReturnType<typeof query>) => {
+        if (done) return;
+        for await (const doc of docs) {
+            const entry = withCategory(doc, category);
+            if (end && isPast(entry, end, sort)) {
+                done = true;
+                return;
+            }
+            scanned++;
+            if (!matches || matches(entry)) batch.entries.push(entry);
+            if (batch.entries.length >= numItems || scanned >= maxScan) {
+                batch.stoppedAt = feedPosition(entry, sort);
+                done = true;
+                return;
             }
         }
+    };
 
-        // Query all tables and combine results
-        const [games, hardware, places, software, services] = await Promise.all(
-            [
-                ctx.db
-                    .query('games')
-                    .withIndex('by_created')
-                    .order('desc')
-                    .take(limit),
-                ctx.db
-                    .query('hardware')
-                    .withIndex('by_created')
-                    .order('desc')
-                    .take(limit),
-                ctx.db
-                    .query('places')
-                    .withIndex('by_created')
-                    .order('desc')
-                    .take(limit),
-                ctx.db
-                    .query('software')
-                    .withIndex('by_created')
-                    .order('desc')
-                    .take(limit),
-                ctx.db
-                    .query('services')
-                    .withIndex('by_created')
-                    .order('desc')
-                    .take(limit)
-            ]
-        );
+    if (!position) {
+        await take(query());
+        return batch;
+    }
 
-        // Combine and sort by createdAt
-        const allEntries: AnyEntry[] = [
-            ...games.map((g) => ({ ...g, category: 'game' as const })),
-            ...hardware.map((h) => ({ ...h, category: 'hardware' as const })),
-            ...places.map((p) => ({ ...p, category: 'place' as const })),
-            ...software.map((s) => ({ ...s, category: 'software' as const })),
-            ...services.map((s) => ({ ...s, category: 'service' as const }))
-        ];
-
-        // Sort by createdAt descending and take the limit
-        return allEntries
-            .sort((a, b) => b.createdAt - a.createdAt)
-            .slice(0, limit);
+    const value = position.value as number;
+    await take(
+        query((q) =>
+            order === 'desc'
+                ? q
+                      .eq(sortField, value)
+                      .lt('_creationTime', position.creationTime)
+                : q
+                      .eq(sortField, value)
+                      .gt('_creationTime', position.creationTime)
+        )
+    );
+
+    // Missing values sort first, and only descending sorts have optional
+    // fields, so nothing follows them
+    if (position.value === undefined) return batch;
+    await take(
+        query((q) =>
+            order === 'desc' ? q.lt(sortField, value) : q.gt(sortField, value)
+        )
+    );
+
+    return batch;
+}
+
+export interface MergedFeedOptions {
+    // Tables to read, all categories by default
+    categories?: Category[];
+    // Filter applied to every entry read
+    matches?: (entry: AnyEntry) => boolean;
+    // Rows read per table and page when filtering. A page may then come back
+    // short, but its cursor still moves past every row read.
+    maxScan?: number;
+}
+
+/**
+ * k-way merge of the entry tables' sort indexes. Each table contributes at
+ * most numItems entries per page, resumed after the position the previous
+ * page stopped at. A page only includes entries up to the earliest position
+ * a table stopped reading at, since that table may have more entries before
+ * the others'. With an endCursor (a re-run of a loaded page), the page runs
+ * exactly up to that position instead.
+ */
+export async function paginateMergedFeed(
+    ctx: QueryCtx,
+    sort: EntrySort,
+    paginationOpts: PaginationOptions & { endCursor?: string | null },
+    options: MergedFeedOptions = {}
+): Promise<PaginationResult<AnyEntry>> {
+    const { position } = decodeFeedCursor(paginationOpts.cursor, sort);
+    const end = paginationOpts.endCursor
+        ? decodeFeedCursor(paginationOpts.endCursor, sort).position
+        : undefined;
+    const numItems = end ? Infinity : paginationOpts.numItems;
+    const maxScan = end ? Infinity : options.maxScan;
+
+    const batches = await Promise.all(
+        (options.categories ?? categories).map((category) =>
+            takeAfter(
+                ctx,
+                category,
+                sort,
+                position,
+                numItems,
+                end,
+                options.matches,
+                maxScan
+            )
+        )
+    );
+
+    // The earliest position a table stopped at bounds what is known
+    let bound: FeedPosition | undefined;
+    for (const { stoppedAt } of batches) {
+        if (
+            stoppedAt &&
+            (!bound || comparePositions(stoppedAt, bound, sort) < 0)
+        ) {
+            bound = stoppedAt;
+        }
     }
-});
 
-// Search entries by name across all tables
-export const searchEntries = query({
+    const known = batches
+        .flatMap((batch) => batch.entries)
+        .filter((entry) => !bound || !isPast(entry, bound, sort))
+        .sort(compareEntries(sort));
+    const page = known.slice(0, numItems);
+    const last = page[page.length - 1];
+
+    if (paginationOpts.endCursor) {
+        return {
+            page,
+            isDone: false,
+            continueCursor: paginationOpts.endCursor
+        };
+    }
+    // A short page holds every entry up to the bound, so the next page can
+    // skip the rows read past the last entry that matched
+    const full = page.length === numItems;
+    let next = last ? feedPosition(last, sort) : position;
+    if (!full && bound) next = bound;
+    return {
+        page,
+        isDone: !bound && !full,
+        continueCursor: encodeFeedCursor(sort, next)
+    };
+}
+
+// Paginate an already loaded list of entries in sort order with the same
+// cursors as the merged feed
+export function paginateEntryList(
+    entries: AnyEntry[],
+    sort: EntrySort,
+    paginationOpts: PaginationOptions & { endCursor?: string | null }
+): PaginationResult<AnyEntry> {
+    const { position } = decodeFeedCursor(paginationOpts.cursor, sort);
+    const end = paginationOpts.endCursor
+        ? decodeFeedCursor(paginationOpts.endCursor, sort).position
+        : undefined;
+
+    const remaining = entries
+        .filter(
+            (entry) =>
+                (!position || isPast(entry, position, sort)) &&
+                (!end || !isPast(entry, end, sort))
+        )
+        .sort(compareEntries(sort));
+    const page = end ? remaining : remaining.slice(0, paginationOpts.numItems);
+    const last = page[page.length - 1];
+
+    return {
+        page,
+        isDone: !end && page.length === remaining.length,
+        continueCursor:
+            paginationOpts.endCursor ??
+            encodeFeedCursor(sort, last ? feedPosition(last, sort) : position)
+    };
+}
+
+// Paginated entries feed, newest first unless another sort is requested
+// (compatible with usePaginatedQuery)
+export const getPaginatedEntries = query({
     args: {
-        searchQuery: v.string(),
         category: v.optional(
             v.union(
                 v.literal('game'),
@@ -164,152 +460,293 @@ export const searchEntries = query({
                 v.literal('software'),
                 v.literal('service')
             )
+        ),
+        sort: v.optional(entrySortValidator),
+        paginationOpts: paginationOptsValidator
+    },
+    handler: async (ctx, args): Promise<PaginationResult<AnyEntry>> => {
+        const category = args.category;
+        const sort = args.sort ?? 'newest';
+
+        // A single category maps directly onto its sort index
+        if (category) {
+            const result = await queryEntriesSorted(
+                ctx,
+                category,
+                sort
+            ).paginate(args.paginationOpts);
+            return {
+                ...result,
+                page: result.page.map((doc) => withCategory(doc, category))
+            };
+        }
+
+        return await paginateMergedFeed(ctx, sort, args.paginationOpts);
+    }
+});
+
+// Search indexes per category: one over the name, one over the full
+// search text (name, description, category fields, tags and features)
+const searchIndexes = {
+    game: { name: 'search_games', text: 'search_games_text' },
+    hardware: { name: 'search_hardware', text: 'search_hardware_text' },
+    place: { name: 'search_places', text: 'search_places_text' },
+    software: { name: 'search_software', text: 'search_software_text' },
+    service: { name: 'search_services', text: 'search_services_text' }
+} as const;
+
+const SEARCH_LIMIT = 20;
+
+// Matches considered per table when ranking and counting search results.
+// Counts at this cap are reported as `hasMore`.
+const SEARCH_CANDIDATES = 100;
+
+// Added to the score of name matches so they always outrank entries that
+// only match elsewhere in their search text
+const NAME_MATCH_BONUS = 2;
+
+interface ScoredEntry {
+    entry: AnyEntry;
+    score: number;
+}
+
+// Search indexes return results in relevance order without exposing a
+// score, so rank is mapped onto (0, 1]
+function rankScores(docs: Array<Doc<'games'>>): Map<string, number> {
+    return new Map(
+        docs.map((doc, rank) => [doc._id, (docs.length - rank) / docs.length])
+    );
+}
+
+// Search one category, weighting name matches above text matches
+async function searchCategory(
+    ctx: QueryCtx,
+    category: Category,
+    searchTerm: string,
+    limit: number
+): Promise<ScoredEntry[]> {
+    const indexes = searchIndexes[category];
+    const [nameMatches, textMatches] = await Promise.all([
+        queryEntryTable(ctx, category)
+            .withSearchIndex(indexes.name as 'search_games', (q) =>
+                q.search('name', searchTerm)
+            )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
+            .take(limit),
+        queryEntryTable(ctx, category)
+            .withSearchIndex(indexes.text as 'search_games_text', (q) =>
+                q.search('searchText', searchTerm)
+            )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
+            .take(limit)
+    ]);
+
+    const nameScores = rankScores(nameMatches);
+    const textScores = rankScores(textMatches);
+
+    const docs = new Map<string, Doc<'games'>>();
+    for (const doc of [...nameMatches, ...textMatches]) {
+        docs.set(doc._id, doc);
+    }
+
+    return [...docs.values()]
+        .map((doc) => {
+            const nameScore = nameScores.get(doc._id);
+            return {
+                entry: withCategory(doc, category),
+                score:
+                    (nameScore !== undefined
+                        ? NAME_MATCH_BONUS + nameScore
+                        : 0) + (textScores.get(doc._id) ?? 0)
+            };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+// Where a result sits in the ranking, for search cursors
+interface SearchPosition {
+    score: number;
+    overallRating: number;
+    createdAt: number;
+    id: string;
+}
+
+function searchPosition({ entry, score }: ScoredEntry): SearchPosition {
+    return {
+        score,
+        overallRating: entry.overallRating,
+        createdAt: entry.createdAt,
+        id: entry._id
+    };
+}
+
+// Most relevant first; equally relevant results prefer higher rated, then
+// more recent entries
+function compareSearchPositions(a: SearchPosition, b: SearchPosition): number {
+    return (
+        b.score - a.score ||
+        b.overallRating - a.overallRating ||
+        b.createdAt - a.createdAt ||
+        a.id.localeCompare(b.id)
+    );
+}
+
+function compareSearchResults(a: ScoredEntry, b: ScoredEntry): number {
+    return compareSearchPositions(searchPosition(a), searchPosition(b));
+}
+
+function decodeSearchCursor(cursor: string | null | undefined) {
+    if (!cursor) return null;
+    try {
+        return JSON.parse(cursor) as SearchPosition;
+    } catch {
+        throw new Error('InvalidCursor: malformed search cursor');
+    }
+}
+
+// Search the requested categories and interleave their results by relevance.
+// Scores are normalized per table, so the best match of each category ranks
+// alongside the best matches of the others.
+async function rankedSearch(
+    ctx: QueryCtx,
+    searchTerm: string,
+    category: Category | undefined
+): Promise<{ results: ScoredEntry[]; perCategory: ScoredEntry[][] }> {
+    const searched = category ? [category] : categories;
+    const perCategory = await Promise.all(
+        searched.map((c) =>
+            searchCategory(ctx, c, searchTerm, SEARCH_CANDIDATES)
         )
+    );
+
+    return {
+        results: perCategory.flat().sort(compareSearchResults),
+        perCategory
+    };
+}
+
+const categoryArg = v.optional(
+    v.union(
+        v.literal('game'),
+        v.literal('hardware'),
+        v.literal('place'),
+        v.literal('software'),
+        v.literal('service')
+    )
+);
+
+// Search entries by name, description, makers, structured fields, tags and
+// features across all tables, ranked by relevance
+export const searchEntries = query({
+    args: {
+        searchQuery: v.string(),
+        category: categoryArg
     },
-    handler: async (ctx, args) => {
+    handler: async (ctx, args): Promise<AnyEntry[]> => {
         if (!args.searchQuery.trim()) {
             return [];
         }
 
-        const searchTerm = args.searchQuery;
-
-        // If a specific category is requested, only search that table
-        if (args.category) {
-            switch (args.category) {
-                case 'game': {
-                    const games = await ctx.db
-                        .query('games')
-                        .withSearchIndex('search_games', (q) =>
-                            q.search('name', searchTerm)
-                        )
-                        .take(20);
-                    return games.map((g) => ({
-                        ...g,
-                        category: 'game' as const
-                    }));
-                }
-                case 'hardware': {
-                    const hardware = await ctx.db
-                        .query('hardware')
-                        .withSearchIndex('search_hardware', (q) =>
-                            q.search('name', searchTerm)
-                        )
-                        .take(20);
-                    return hardware.map((h) => ({
-                        ...h,
-                        category: 'hardware' as const
-                    }));
-                }
-                case 'place': {
-                    const places = await ctx.db
-                        .query('places')
-                        .withSearchIndex('search_places', (q) =>
-                            q.search('name', searchTerm)
-                        )
-                        .take(20);
-                    return places.map((p) => ({
-                        ...p,
-                        category: 'place' as const
-                    }));
-                }
-                case 'software': {
-                    const software = await ctx.db
-                        .query('software')
-                        .withSearchIndex('search_software', (q) =>
-                            q.search('name', searchTerm)
-                        )
-                        .take(20);
-                    return software.map((s) => ({
-                        ...s,
-                        category: 'software' as const
-                    }));
-                }
-                case 'service': {
-                    const services = await ctx.db
-                        .query('services')
-                        .withSearchIndex('search_services', (q) =>
-                            q.search('name', searchTerm)
-                        )
-                        .take(20);
-                    return services.map((s) => ({
-                        ...s,
-                        category: 'service' as const
-                    }));
-                }
-            }
+        const { results } = await rankedSearch(
+            ctx,
+            args.searchQuery,
+            args.category
+        );
+        return results.slice(0, SEARCH_LIMIT).map((r) => r.entry);
+    }
+});
+
+// Paginated, relevance-ranked search results (compatible with
+// usePaginatedQuery). The cursor is the ranking position of the last result
+// of the page it ends, and a re-run page with an endCursor ends exactly there.
+export const getPaginatedSearchResults = query({
+    args: {
+        searchQuery: v.string(),
+        category: categoryArg,
+        paginationOpts: paginationOptsValidator
+    },
+    handler: async (ctx, args): Promise<PaginationResult<AnyEntry>> => {
+        const { paginationOpts } = args;
+        if (!args.searchQuery.trim()) {
+            return {
+                page: [],
+                isDone: true,
+                continueCursor: paginationOpts.cursor ?? ''
+            };
         }
 
-        // Search all tables in parallel
-        const [games, hardware, places, software, services] = await Promise.all(
-            [
-                ctx.db
-                    .query('games')
-                    .withSearchIndex('search_games', (q) =>
-                        q.search('name', searchTerm)
-                    )
-                    .take(20),
-                ctx.db
-                    .query('hardware')
-                    .withSearchIndex('search_hardware', (q) =>
-                        q.search('name', searchTerm)
-                    )
-                    .take(20),
-                ctx.db
-                    .query('places')
-                    .withSearchIndex('search_places', (q) =>
-                        q.search('name', searchTerm)
-                    )
-                    .take(20),
-                ctx.db
-                    .query('software')
-                    .withSearchIndex('search_software', (q) =>
-                        q.search('name', searchTerm)
-                    )
-                    .take(20),
-                ctx.db
-                    .query('services')
-                    .withSearchIndex('search_services', (q) =>
-                        q.search('name', searchTerm)
-                    )
-                    .take(20)
-            ]
+        const after = decodeSearchCursor(paginationOpts.cursor);
+        const end = decodeSearchCursor(paginationOpts.endCursor);
+
+        const { results } = await rankedSearch(
+            ctx,
+            args.searchQuery,
+            args.category
         );
+        const remaining = results.filter((result) => {
+            const position = searchPosition(result);
+            return (
+                (!after || compareSearchPositions(position, after) > 0) &&
+                (!end || compareSearchPositions(position, end) <= 0)
+            );
+        });
+        const page = end
+            ? remaining
+            : remaining.slice(0, paginationOpts.numItems);
+        const last = page[page.length - 1];
 
-        // Combine results
-        const allResults: AnyEntry[] = [
-            ...games.map((g) => ({ ...g, category: 'game' as const })),
-            ...hardware.map((h) => ({ ...h, category: 'hardware' as const })),
-            ...places.map((p) => ({ ...p, category: 'place' as const })),
-            ...software.map((s) => ({ ...s, category: 'software' as const })),
-            ...services.map((s) => ({ ...s, category: 'service' as const }))
-        ];
+        return {
+            page: page.map((r) => r.entry),
+            isDone: !end && page.length === remaining.length,
+            continueCursor:
+                paginationOpts.endCursor ??
+                (last
+                    ? JSON.stringify(searchPosition(last))
+                    : (paginationOpts.cursor ?? ''))
+        };
+    }
+});
 
-        return allResults.slice(0, 20);
+// Number of search matches in each category, e.g. "12 in Hardware".
+// hasMore is set when a category has at least SEARCH_CANDIDATES matches.
+export const getSearchCounts = query({
+    args: {
+        searchQuery: v.string()
+    },
+    handler: async (ctx, args) => {
+        const counts = {} as Record<
+            Category,
+            { count: number; hasMore: boolean }
+        >;
+
+        const { perCategory } = args.searchQuery.trim()
+            ? await rankedSearch(ctx, args.searchQuery, undefined)
+            : { perCategory: categories.map(() => []) };
+
+        categories.forEach((category, i) => {
+            const count = perCategory[i]?.length ?? 0;
+            counts[category] = {
+                count,
+                hasMore: count >= SEARCH_CANDIDATES
+            };
+        });
+
+        return counts;
     }
 });
 
-// Get a single entry by ID (searches all tables)
+// Get a single entry by ID
+// The table is resolved from the id itself, so only one document is read
 export const getEntry = query({
     args: { id: v.string() },
     handler: async (ctx, args) => {
-        const id = args.id;
-
-        // Try each table
-        const [game, hardware, place, software, service] = await Promise.all([
-            ctx.db.get(id as Id<'games'>),
-            ctx.db.get(id as Id<'hardware'>),
-            ctx.db.get(id as Id<'places'>),
-            ctx.db.get(id as Id<'software'>),
-            ctx.db.get(id as Id<'services'>)
-        ]);
-
-        if (game) return { ...game, category: 'game' as const };
-        if (hardware) return { ...hardware, category: 'hardware' as const };
-        if (place) return { ...place, category: 'place' as const };
-        if (software) return { ...software, category: 'software' as const };
-        if (service) return { ...service, category: 'service' as const };
-
-        return null;
+        const ref = resolveEntryId(ctx, args.id);
+        if (!ref) return null;
+
+        // Entries in the trash are only visible through trash.getTrash
+        const entry = await getEntryDoc(ctx, ref);
+        return entry && entry.deletedAt === undefined ? entry : null;
     }
 });
 
@@ -373,50 +810,27 @@ export function isEntryComplete(entry: any, category: Category): boolean {
     }
 }
 
+// Number of entries in each category, read from the maintained stats
 export const getNumberOfEntriesPerCategory = query({
     handler: async (ctx) => {
-        const [games, hardware, places, software, services] = await Promise.all(
-            [
-                ctx.db.query('games').collect(),
-                ctx.db.query('hardware').collect(),
-                ctx.db.query('places').collect(),
-                ctx.db.query('software').collect(),
-                ctx.db.query('services').collect()
-            ]
-        );
-        const gameCount = games.length;
-        const hardwareCount = hardware.length;
-        const placeCount = places.length;
-        const softwareCount = software.length;
-        const serviceCount = services.length;
-
+        const stats = await loadStats(ctx);
         return {
-            game: gameCount,
-            hardware: hardwareCount,
-            place: placeCount,
-            software: softwareCount,
-            service: serviceCount
+            game: stats.game.total,
+            hardware: stats.hardware.total,
+            place: stats.place.total,
+            software: stats.software.total,
+            service: stats.service.total
         };
     }
 });
 
+// Total number of entries across all categories
 export const getTotalEntries = query({
     handler: async (ctx) => {
-        const [games, hardware, places, software, services] = await Promise.all(
-            [
-                ctx.db.query('games').collect(),
-                ctx.db.query('hardware').collect(),
-                ctx.db.query('places').collect(),
-                ctx.db.query('software').collect(),
-                ctx.db.query('services').collect()
-            ]
-        );
-        return (
-            games.length +
-            hardware.length +
-            places.length +
-            software.length +
-            services.length
+        const stats = await loadStats(ctx);
+        return categories.reduce(
+            (total, category) => total + stats[category].total,
+            0
         );
     }
 });
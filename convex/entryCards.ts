@@ -0,0 +1,145 @@
+import { v } from 'convex/values';
+import { query } from './_generated/server';
+import type { QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { countEntryRows } from './entryCounters';
+import { getEntryDoc, normalizeEntryRef, toEntryKey } from './entryRefs';
+import { entryPhotoDetails } from './photos';
+import { entryType } from './schema';
+import { getImageSource } from './storage';
+import type { ImageSource } from './storage';
+
+// Most entries one request can ask about, so a request stays within a
+// query's read limits. Lists ask once per page of results.
+const MAX_CARDS = 100;
+
+// Tags and features shown on each card
+const CARD_TAGS = 5;
+const CARD_FEATURES = 3;
+
+export interface EntryCardDetails {
+    tags: Array<Pick<Doc<'tags'>, '_id' | 'name' | 'slug'>>;
+    // Highest rated first
+    topFeatures: Array<
+        Pick<
+            Doc<'accessibilityFeatures'>,
+            '_id' | 'name' | 'slug' | 'accessibilityType'
+        > & { rating: number }
+    >;
+    cover: (ImageSource & { altText: string }) | null;
+    reviewCount: number;
+    commentCount: number;
+}
+
+// Tags and features are shared by many entries, so each is read once per
+// request
+function cachedGet<T extends 'tags' | 'accessibilityFeatures'>(
+    ctx: QueryCtx
+): (id: Id<T>) => Promise<Doc<T> | null> {
+    const cache = new Map<Id<T>, Promise<Doc<T> | null>>();
+    return (id) => {
+        let doc = cache.get(id);
+        if (!doc) {
+            doc = ctx.db.get(id);
+            cache.set(id, doc);
+        }
+        return doc;
+    };
+}
+
+// ============================================
+// ENTRY CARD QUERIES
+// ============================================
+
+// Everything an entry card shows beyond the entry itself, for a page of
+// entries at once, keyed by entry key. Missing and trashed entries are left
+// out.
+export const getEntryCardDetails = query({
+    args: {
+        entries: v.array(
+            v.object({
+                entryType: entryType,
+                entryId: v.string()
+            })
+        )
+    },
+    handler: async (ctx, args) => {
+        if (args.entries.length > MAX_CARDS) {
+            throw new Error(
+                `Card details can be fetched for at most ${MAX_CARDS} entries at a time`
+            );
+        }
+
+        const getTag = cachedGet<'tags'>(ctx);
+        const getFeature = cachedGet<'accessibilityFeatures'>(ctx);
+        const details: Record<string, EntryCardDetails> = {};
+
+        for (const card of args.entries) {
+            const ref = normalizeEntryRef(ctx, card.entryType, card.entryId);
+            const entry = ref ? await getEntryDoc(ctx, ref) : null;
+            if (!entry || entry.deletedAt !== undefined) continue;
+
+            const entryKey = toEntryKey(card.entryType, entry._id);
+
+            const entryTags = await ctx.db
+                .query('entryTags')
+                .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+                .collect();
+            const tags = (
+                await Promise.all(entryTags.map((row) => getTag(row.tagId)))
+            )
+                .filter(
+                    (tag): tag is Doc<'tags'> =>
+                        tag !== null && tag.status !== 'proposed'
+                )
+                .sort((a, b) => b.usageCount - a.usageCount)
+                .slice(0, CARD_TAGS)
+                .map(({ _id, name, slug }) => ({ _id, name, slug }));
+
+            const entryFeatures = await ctx.db
+                .query('entryFeatures')
+                .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+                .collect();
+            const topFeatures = [];
+            for (const row of entryFeatures.sort(
+                (a, b) => b.rating - a.rating
+            )) {
+                if (topFeatures.length === CARD_FEATURES) break;
+                const feature = await getFeature(row.featureId);
+                if (!feature || feature.status === 'proposed') continue;
+                topFeatures.push({
+                    _id: feature._id,
+                    name: feature.name,
+                    slug: feature.slug,
+                    accessibilityType: feature.accessibilityType,
+                    rating: row.rating
+                });
+            }
+
+            const coverPhoto = entryPhotoDetails(entry).find(
+                (photo) => photo.isCover
+            );
+            const coverSource = coverPhoto
+                ? await getImageSource(ctx, coverPhoto.storageId)
+                : null;
+
+            details[entryKey] = {
+                tags,
+                topFeatures,
+                cover:
+                    coverPhoto && coverSource
+                        ? { ...coverSource, altText: coverPhoto.altText }
+                        : null,
+                // Entries that predate the counters are counted directly
+                reviewCount:
+                    entry.reviewCount ??
+                    (await countEntryRows(ctx, entryKey, 'reviewCount')),
+                commentCount:
+                    entry.commentCount ??
+                    (await countEntryRows(ctx, entryKey, 'commentCount'))
+            };
+        }
+
+        return details;
+    }
+});
@@ -0,0 +1,52 @@
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { getEntryDoc, normalizeEntryRef, parseEntryKey } from './entryRefs';
+
+// Denormalized per-entry counts, stored on the entry so lists can sort by
+// them through an index
+export type EntryCounter = 'reviewCount' | 'commentCount';
+
+// Table whose rows each counter counts
+const counterTables = {
+    reviewCount: 'reviews',
+    commentCount: 'comments'
+} as const;
+
+// Count the rows referencing an entry from scratch
+export async function countEntryRows(
+    ctx: QueryCtx,
+    entryKey: string,
+    counter: EntryCounter
+): Promise<number> {
+    const rows = await ctx.db
+        .query(counterTables[counter])
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .collect();
+    // Placeholders of deleted comments that still have replies don't count
+    return rows.filter(
+        (row) => !('deletedAt' in row) || row.deletedAt === undefined
+    ).length;
+}
+
+// Apply a change to an entry's counter. Call after the row has been inserted
+// or deleted. Entries that predate the counter are recounted instead.
+export async function adjustEntryCounter(
+    ctx: MutationCtx,
+    entryKey: string | undefined,
+    counter: EntryCounter,
+    delta: number
+): Promise<void> {
+    const parsed = entryKey ? parseEntryKey(entryKey) : null;
+    const ref = parsed
+        ? normalizeEntryRef(ctx, parsed.entryType, parsed.entryId)
+        : null;
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entryKey || !entry) return;
+
+    const current = entry[counter];
+    const count =
+        current === undefined
+            ? await countEntryRows(ctx, entryKey, counter)
+            : Math.max(0, current + delta);
+
+    await ctx.db.patch(entry._id, { [counter]: count });
+}
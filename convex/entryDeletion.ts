@@ -0,0 +1,214 @@
+import { v } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import type { Category } from './entries';
+import { toEntryKey } from './entryRefs';
+import type { EntryTable } from './entryRefs';
+import { updateEntryStats } from './stats';
+import { deleteCommentPhoto, deleteUploadedFile } from './storage';
+
+// Dependent rows removed per transaction. Entries with more dependents are
+// cleaned up over several scheduled batches.
+const BATCH_SIZE = 100;
+
+// Delete a stored file if it still exists. Entry photos are usually also
+// tracked in uploadedFiles, so the same file can be reached twice.
+async function deleteStorageFile(
+    ctx: MutationCtx,
+    storageId: Id<'_storage'>
+): Promise<void> {
+    if (await ctx.db.system.get(storageId)) {
+        await ctx.storage.delete(storageId);
+    }
+}
+
+async function decrementTagUsage(
+    ctx: MutationCtx,
+    tagId: Id<'tags'>
+): Promise<void> {
+    const tag = await ctx.db.get(tagId);
+    if (tag && tag.usageCount > 0) {
+        await ctx.db.patch(tagId, { usageCount: tag.usageCount - 1 });
+    }
+}
+
+async function decrementFeatureUsage(
+    ctx: MutationCtx,
+    featureId: Id<'accessibilityFeatures'>
+): Promise<void> {
+    const feature = await ctx.db.get(featureId);
+    if (feature && feature.usageCount > 0) {
+        await ctx.db.patch(featureId, { usageCount: feature.usageCount - 1 });
+    }
+}
+
+// Delete up to BATCH_SIZE rows that depend on an entry: reviews (and their
+// earlier versions), comments (and their photos), helpfulness votes, tag and
+// feature associations (decrementing usage counts), uploaded files (and
+// their blobs) and revision history. Returns true once nothing is left to
+// delete.
+async function deleteDependentsBatch(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    countedInUsage: boolean
+): Promise<boolean> {
+    const entryKey = toEntryKey(entryType, entryId);
+    let remaining = BATCH_SIZE;
+
+    const reviewRevisions = await ctx.db
+        .query('reviewRevisions')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const revision of reviewRevisions) {
+        await ctx.db.delete(revision._id);
+    }
+    remaining -= reviewRevisions.length;
+
+    const reviews = await ctx.db
+        .query('reviews')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const review of reviews) {
+        await ctx.db.delete(review._id);
+    }
+    remaining -= reviews.length;
+
+    const comments = await ctx.db
+        .query('comments')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const comment of comments) {
+        if (comment.photo) await deleteCommentPhoto(ctx, comment.photo);
+        await ctx.db.delete(comment._id);
+    }
+    remaining -= comments.length;
+
+    const votes = await ctx.db
+        .query('votes')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const vote of votes) {
+        await ctx.db.delete(vote._id);
+    }
+    remaining -= votes.length;
+
+    const entryTags = await ctx.db
+        .query('entryTags')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const assoc of entryTags) {
+        await ctx.db.delete(assoc._id);
+        if (countedInUsage) await decrementTagUsage(ctx, assoc.tagId);
+    }
+    remaining -= entryTags.length;
+
+    const entryFeatures = await ctx.db
+        .query('entryFeatures')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const assoc of entryFeatures) {
+        await ctx.db.delete(assoc._id);
+        if (countedInUsage) {
+            await decrementFeatureUsage(ctx, assoc.featureId);
+        }
+    }
+    remaining -= entryFeatures.length;
+
+    const files = await ctx.db
+        .query('uploadedFiles')
+        .withIndex('by_entry', (q) =>
+            q
+                .eq('associatedEntryType', entryType)
+                .eq('associatedEntryId', entryId)
+        )
+        .take(remaining);
+    for (const file of files) {
+        await deleteUploadedFile(ctx, file);
+    }
+    remaining -= files.length;
+
+    const revisions = await ctx.db
+        .query('entryRevisions')
+        .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        .take(remaining);
+    for (const revision of revisions) {
+        await ctx.db.delete(revision._id);
+    }
+    remaining -= revisions.length;
+
+    return remaining > 0;
+}
+
+/**
+ * Deletes an entry together with everything that depends on it: its photos,
+ * reviews, comments, tag and feature associations, uploaded files and
+ * revision history.
+ * The entry itself is removed immediately; dependents beyond the first batch
+ * are removed by scheduled follow-up batches.
+ */
+export async function deleteEntryCascade(
+    ctx: MutationCtx,
+    entryType: Category,
+    entry: Doc<EntryTable>
+): Promise<void> {
+    await ctx.db.delete(entry._id);
+    // Entries purged from the trash were already removed from the stats
+    if (entry.deletedAt === undefined) {
+        await updateEntryStats(ctx, entryType, entry, null);
+    }
+
+    for (const storageId of entry.photos ?? []) {
+        await deleteStorageFile(ctx, storageId);
+    }
+
+    // Trashed entries' tags and features were already taken out of their
+    // usage counts
+    const countedInUsage = entry.deletedAt === undefined;
+    const done = await deleteDependentsBatch(
+        ctx,
+        entryType,
+        entry._id,
+        countedInUsage
+    );
+    if (!done) {
+        await ctx.scheduler.runAfter(
+            0,
+            internal.entryDeletion.deleteDependents,
+            { entryType, entryId: entry._id, countedInUsage }
+        );
+    }
+}
+
+// Continue removing an entry's dependents, one batch per transaction
+export const deleteDependents = internalMutation({
+    args: {
+        entryType: v.union(
+            v.literal('game'),
+            v.literal('hardware'),
+            v.literal('place'),
+            v.literal('software'),
+            v.literal('service')
+        ),
+        entryId: v.string(),
+        // Missing for batches scheduled before trashing adjusted usage counts
+        countedInUsage: v.optional(v.boolean())
+    },
+    handler: async (ctx, args) => {
+        const done = await deleteDependentsBatch(
+            ctx,
+            args.entryType,
+            args.entryId,
+            args.countedInUsage ?? true
+        );
+        if (!done) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.entryDeletion.deleteDependents,
+                args
+            );
+        }
+    }
+});
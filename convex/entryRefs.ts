@@ -0,0 +1,173 @@
+import type { QueryCtx } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import type { AnyEntry, Category, EntryRef } from './entries';
+
+// Table that stores each entry category
+export const entryTables = {
+    game: 'games',
+    hardware: 'hardware',
+    place: 'places',
+    software: 'software',
+    service: 'services'
+} as const;
+
+export type EntryTable = (typeof entryTables)[Category];
+
+export const categories: Category[] = [
+    'game',
+    'hardware',
+    'place',
+    'software',
+    'service'
+];
+
+// Normalized entry reference stored on junction, review and comment rows
+// Format: `<entryType>:<entryId>`, e.g. `game:j57a...`
+export function toEntryKey(entryType: Category, entryId: string): string {
+    return `${entryType}:${entryId}`;
+}
+
+// Fields written on every row that references an entry
+export function entryRefFields(entryType: Category, entryId: string) {
+    return {
+        entryType,
+        entryKey: toEntryKey(entryType, entryId)
+    };
+}
+
+// Parse an entry key back into its category and id
+export function parseEntryKey(
+    entryKey: string
+): { entryType: Category; entryId: string } | null {
+    const separator = entryKey.indexOf(':');
+    if (separator === -1) return null;
+
+    const entryType = entryKey.slice(0, separator) as Category;
+    if (!categories.includes(entryType)) return null;
+
+    return { entryType, entryId: entryKey.slice(separator + 1) };
+}
+
+// Validate an untyped id against the table for its category.
+// Returns null if the id doesn't belong to that table (no document reads).
+export function normalizeEntryRef(
+    ctx: QueryCtx,
+    entryType: Category,
+    entryId: string
+): EntryRef | null {
+    switch (entryType) {
+        case 'game': {
+            const id = ctx.db.normalizeId('games', entryId);
+            return id ? { type: 'game', id } : null;
+        }
+        case 'hardware': {
+            const id = ctx.db.normalizeId('hardware', entryId);
+            return id ? { type: 'hardware', id } : null;
+        }
+        case 'place': {
+            const id = ctx.db.normalizeId('places', entryId);
+            return id ? { type: 'place', id } : null;
+        }
+        case 'software': {
+            const id = ctx.db.normalizeId('software', entryId);
+            return id ? { type: 'software', id } : null;
+        }
+        case 'service': {
+            const id = ctx.db.normalizeId('services', entryId);
+            return id ? { type: 'service', id } : null;
+        }
+    }
+}
+
+// Find which entry table an id belongs to, without reading any documents
+export function resolveEntryId(
+    ctx: QueryCtx,
+    entryId: string
+): EntryRef | null {
+    for (const category of categories) {
+        const ref = normalizeEntryRef(ctx, category, entryId);
+        if (ref) return ref;
+    }
+    return null;
+}
+
+// Fetch the entry document for a reference, tagged with its category
+export async function getEntryDoc(
+    ctx: QueryCtx,
+    ref: EntryRef
+): Promise<AnyEntry | null> {
+    switch (ref.type) {
+        case 'game': {
+            const doc = await ctx.db.get(ref.id);
+            return doc ? { ...doc, category: 'game' } : null;
+        }
+        case 'hardware': {
+            const doc = await ctx.db.get(ref.id);
+            return doc ? { ...doc, category: 'hardware' } : null;
+        }
+        case 'place': {
+            const doc = await ctx.db.get(ref.id);
+            return doc ? { ...doc, category: 'place' } : null;
+        }
+        case 'software': {
+            const doc = await ctx.db.get(ref.id);
+            return doc ? { ...doc, category: 'software' } : null;
+        }
+        case 'service': {
+            const doc = await ctx.db.get(ref.id);
+            return doc ? { ...doc, category: 'service' } : null;
+        }
+    }
+}
+
+// Resolve and fetch an entry, throwing if it doesn't exist or is in the trash
+export async function requireEntry(
+    ctx: QueryCtx,
+    entryType: Category,
+    entryId: string
+): Promise<AnyEntry> {
+    const ref = normalizeEntryRef(ctx, entryType, entryId);
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entry || entry.deletedAt !== undefined) {
+        throw new Error('Entry not found');
+    }
+    return entry;
+}
+
+// requireEntry for a review, comment or vote that references its entry by key
+export async function requireEntryByKey(
+    ctx: QueryCtx,
+    entryKey: string | undefined
+): Promise<AnyEntry> {
+    const parsed = entryKey ? parseEntryKey(entryKey) : null;
+    if (!parsed) {
+        throw new Error('Entry not found');
+    }
+    return await requireEntry(ctx, parsed.entryType, parsed.entryId);
+}
+
+// Rows written before entryKey existed reference their entry through one of
+// five optional id fields. Used by the entryKey backfill migration.
+export interface LegacyEntryRefFields {
+    entryType: Category;
+    gameId?: Id<'games'>;
+    hardwareId?: Id<'hardware'>;
+    placeId?: Id<'places'>;
+    softwareId?: Id<'software'>;
+    serviceId?: Id<'services'>;
+}
+
+export function legacyEntryId(row: LegacyEntryRefFields): string | undefined {
+    switch (row.entryType) {
+        case 'game':
+            return row.gameId;
+        case 'hardware':
+            return row.hardwareId;
+        case 'place':
+            return row.placeId;
+        case 'software':
+            return row.softwareId;
+        case 'service':
+            return row.serviceId;
+    }
+}
@@ -1,6 +1,21 @@
 import { v } from 'convex/values';
-import { query, mutation } from './_generated/server';
-import type { Id, Doc } from './_generated/dataModel';
+import { internalMutation, query, mutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import type { Category } from './entries';
+import { entryRefFields, toEntryKey } from './entryRefs';
+import {
+    hasRole,
+    requireEntryEditor,
+    requireRole,
+    viewerHasRole
+} from './permissions';
+import { refreshSearchText, refreshSearchTextForRows } from './searchText';
+import { loadEntryState, recordRevision } from './revisions';
+
+// Associations handled per transaction when a feature is renamed or deleted
+const SEARCH_REFRESH_BATCH_SIZE = 100;
 
 // Accessibility type validator
 const accessibilityTypeValidator = v.union(
@@ -32,7 +47,7 @@ function createSlug(name: string): string {
 // ACCESSIBILITY FEATURE QUERIES
 // ============================================
 
-// Get all features, optionally filtered by accessibility type
+// Get all approved features, optionally filtered by accessibility type
 export const getFeatures = query({
     args: {
         accessibilityType: v.optional(accessibilityTypeValidator),
@@ -47,10 +62,14 @@ export const getFeatures = query({
                 .withIndex('by_accessibility_type', (q) =>
                     q.eq('accessibilityType', args.accessibilityType!)
                 )
+                .filter((q) => q.neq(q.field('status'), 'proposed'))
                 .take(limit);
         }
 
-        return await ctx.db.query('accessibilityFeatures').take(limit);
+        return await ctx.db
+            .query('accessibilityFeatures')
+            .filter((q) => q.neq(q.field('status'), 'proposed'))
+            .take(limit);
     }
 });
 
@@ -73,7 +92,7 @@ export const getFeatureBySlug = query({
     }
 });
 
-// Search features by name
+// Search approved features by name
 export const searchFeatures = query({
     args: {
         searchQuery: v.string(),
@@ -97,11 +116,13 @@ export const searchFeatures = query({
                 return search;
             });
 
-        return await query.take(20);
+        return await query
+            .filter((q) => q.neq(q.field('status'), 'proposed'))
+            .take(20);
     }
 });
 
-// Get popular features (most used)
+// Get popular approved features (most used)
 export const getPopularFeatures = query({
     args: {
         accessibilityType: v.optional(accessibilityTypeValidator),
@@ -117,21 +138,38 @@ export const getPopularFeatures = query({
             .take(100);
 
         // Filter by accessibility type if specified
-        const filtered = args.accessibilityType
-            ? features.filter(
-                  (f) => f.accessibilityType === args.accessibilityType
-              )
-            : features;
+        const filtered = features.filter(
+            (f) =>
+                f.status !== 'proposed' &&
+                (!args.accessibilityType ||
+                    f.accessibilityType === args.accessibilityType)
+        );
 
         return filtered.slice(0, limit);
     }
 });
 
+// Features awaiting moderator review, oldest first (moderators only)
+export const getProposedFeatures = query({
+    args: {},
+    handler: async (ctx) => {
+        if (!(await viewerHasRole(ctx, 'moderator'))) {
+            return [];
+        }
+
+        return await ctx.db
+            .query('accessibilityFeatures')
+            .withIndex('by_status', (q) => q.eq('status', 'proposed'))
+            .collect();
+    }
+});
+
 // ============================================
 // ACCESSIBILITY FEATURE MUTATIONS
 // ============================================
 
-// Create a new feature
+// Create a new feature (requires the contributor role). Features created by
+// contributors are proposed until a moderator approves them.
 export const createFeature = mutation({
     args: {
         name: v.string(),
@@ -139,6 +177,11 @@ export const createFeature = mutation({
         accessibilityType: accessibilityTypeValidator
     },
     handler: async (ctx, args) => {
+        const identity = await requireRole(
+            ctx,
+            'contributor',
+            'create features'
+        );
         const slug = createSlug(args.name);
 
         // Check if feature with this slug already exists
@@ -158,12 +201,16 @@ export const createFeature = mutation({
             description: args.description,
             accessibilityType: args.accessibilityType,
             createdAt: Date.now(),
-            usageCount: 0
+            usageCount: 0,
+            status: hasRole(identity.role, 'moderator')
+                ? 'approved'
+                : 'proposed',
+            createdBy: identity.subject
         });
     }
 });
 
-// Update a feature
+// Update a feature (moderators only)
 export const updateFeature = mutation({
     args: {
         id: v.id('accessibilityFeatures'),
@@ -172,6 +219,8 @@ export const updateFeature = mutation({
         accessibilityType: v.optional(accessibilityTypeValidator)
     },
     handler: async (ctx, args) => {
+        await requireRole(ctx, 'moderator', 'edit features');
+
         const { id, ...updates } = args;
         const feature = await ctx.db.get(id);
 
@@ -193,30 +242,108 @@ export const updateFeature = mutation({
         }
 
         await ctx.db.patch(id, patch);
+
+        // Entries carrying this feature index its name in their search text
+        if (patch.name !== undefined && patch.name !== feature.name) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.features.refreshFeatureSearchText,
+                { featureId: id }
+            );
+        }
+
         return id;
     }
 });
 
-// Delete a feature (will also remove all entry associations)
+// Delete or reject a feature (moderators only). Also removes all entry
+// associations.
 export const deleteFeature = mutation({
     args: { id: v.id('accessibilityFeatures') },
     handler: async (ctx, args) => {
-        // First, remove all entry-feature associations
+        await requireRole(ctx, 'moderator', 'delete features');
+
+        await ctx.db.delete(args.id);
+
+        // Entry associations are removed in the background
+        await ctx.scheduler.runAfter(
+            0,
+            internal.features.removeFeatureAssociations,
+            { featureId: args.id }
+        );
+    }
+});
+
+// Refresh the search text of entries carrying a renamed feature, one page of
+// associations per transaction
+export const refreshFeatureSearchText = internalMutation({
+    args: {
+        featureId: v.id('accessibilityFeatures'),
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query('entryFeatures')
+            .withIndex('by_feature', (q) => q.eq('featureId', args.featureId))
+            .paginate({
+                cursor: args.cursor ?? null,
+                numItems: SEARCH_REFRESH_BATCH_SIZE
+            });
+        await refreshSearchTextForRows(ctx, result.page);
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.features.refreshFeatureSearchText,
+                { ...args, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// Remove a deleted feature's entry associations and refresh those entries'
+// search text, one batch per transaction
+export const removeFeatureAssociations = internalMutation({
+    args: { featureId: v.id('accessibilityFeatures') },
+    handler: async (ctx, args) => {
         const associations = await ctx.db
             .query('entryFeatures')
-            .withIndex('by_feature', (q) => q.eq('featureId', args.id))
-            .collect();
+            .withIndex('by_feature', (q) => q.eq('featureId', args.featureId))
+            .take(SEARCH_REFRESH_BATCH_SIZE);
 
         for (const assoc of associations) {
             await ctx.db.delete(assoc._id);
         }
+        await refreshSearchTextForRows(ctx, associations);
+
+        if (associations.length === SEARCH_REFRESH_BATCH_SIZE) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.features.removeFeatureAssociations,
+                args
+            );
+        }
+    }
+});
 
-        // Delete the feature
-        await ctx.db.delete(args.id);
+// Approve a proposed feature (moderators only)
+export const approveFeature = mutation({
+    args: { id: v.id('accessibilityFeatures') },
+    handler: async (ctx, args) => {
+        await requireRole(ctx, 'moderator', 'approve features');
+
+        const feature = await ctx.db.get(args.id);
+        if (!feature) {
+            throw new Error('Feature not found');
+        }
+
+        await ctx.db.patch(args.id, { status: 'approved' });
     }
 });
 
-// Create or get existing feature (upsert by name + accessibility type)
+// Create or get existing feature (upsert by name + accessibility type).
+// Used by the entry forms, so any signed-in user can name a new feature here; it
+// stays 'proposed' until a moderator approves it, unless they are one.
 export const getOrCreateFeature = mutation({
     args: {
         name: v.string(),
@@ -224,6 +351,7 @@ export const getOrCreateFeature = mutation({
         accessibilityType: accessibilityTypeValidator
     },
     handler: async (ctx, args) => {
+        const identity = await requireRole(ctx, 'user', 'add features');
         const slug = createSlug(args.name);
 
         // Check if feature exists
@@ -243,7 +371,11 @@ export const getOrCreateFeature = mutation({
             description: args.description,
             accessibilityType: args.accessibilityType,
             createdAt: Date.now(),
-            usageCount: 0
+            usageCount: 0,
+            status: hasRole(identity.role, 'moderator')
+                ? 'approved'
+                : 'proposed',
+            createdBy: identity.subject
         });
 
         return await ctx.db.get(id);
@@ -263,26 +395,8 @@ const entryTypeValidator = v.union(
     v.literal('service')
 );
 
-// Helper function to get entry ID for a specific type
-function getEntryIdForType(
-    assoc: Doc<'entryFeatures'>,
-    entryType: 'game' | 'hardware' | 'place' | 'software' | 'service'
-): string | undefined {
-    switch (entryType) {
-        case 'game':
-            return assoc.gameId;
-        case 'hardware':
-            return assoc.hardwareId;
-        case 'place':
-            return assoc.placeId;
-        case 'software':
-            return assoc.softwareId;
-        case 'service':
-            return assoc.serviceId;
-    }
-}
-
-// Add a feature to an entry with rating
+// Add a feature to an entry with rating (requires authentication - owner or
+// moderator only)
 export const addFeatureToEntry = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -294,56 +408,41 @@ export const addFeatureToEntry = mutation({
     handler: async (ctx, args) => {
         const { entryType, entryId, featureId, rating, notes } = args;
 
+        // Also makes sure the entry exists so the stored entryKey is valid
+        await requireEntryEditor(
+            ctx,
+            entryType,
+            entryId,
+            'edit entry features'
+        );
+
         // Validate rating
         if (rating < 1 || rating > 5) {
             throw new Error('Rating must be between 1 and 5');
         }
 
         // Check if association already exists
-        const allAssocs = await ctx.db
+        const existing = await ctx.db
             .query('entryFeatures')
-            .withIndex('by_feature', (q) => q.eq('featureId', featureId))
-            .collect();
+            .withIndex('by_entry_feature', (q) =>
+                q
+                    .eq('entryKey', toEntryKey(entryType, entryId))
+                    .eq('featureId', featureId)
+            )
+            .first();
 
-        const existing = allAssocs.find((a) => {
-            switch (entryType) {
-                case 'game':
-                    return a.gameId === entryId;
-                case 'hardware':
-                    return a.hardwareId === entryId;
-                case 'place':
-                    return a.placeId === entryId;
-                case 'software':
-                    return a.softwareId === entryId;
-                case 'service':
-                    return a.serviceId === entryId;
-            }
-        });
+        const before = await loadEntryState(ctx, entryType, entryId);
 
         if (existing) {
             // Update the existing rating/notes
             await ctx.db.patch(existing._id, { rating, notes });
+            await recordRevision(ctx, entryType, entryId, 'features', before);
             return existing._id;
         }
 
         // Create association
         const assocId = await ctx.db.insert('entryFeatures', {
-            entryType,
-            gameId: entryType === 'game' ? (entryId as Id<'games'>) : undefined,
-            hardwareId:
-                entryType === 'hardware'
-                    ? (entryId as Id<'hardware'>)
-                    : undefined,
-            placeId:
-                entryType === 'place' ? (entryId as Id<'places'>) : undefined,
-            softwareId:
-                entryType === 'software'
-                    ? (entryId as Id<'software'>)
-                    : undefined,
-            serviceId:
-                entryType === 'service'
-                    ? (entryId as Id<'services'>)
-                    : undefined,
+            ...entryRefFields(entryType, entryId),
             featureId,
             rating,
             notes,
@@ -358,11 +457,14 @@ export const addFeatureToEntry = mutation({
             });
         }
 
+        await refreshSearchText(ctx, entryType, entryId);
+        await recordRevision(ctx, entryType, entryId, 'features', before);
         return assocId;
     }
 });
 
-// Remove a feature from an entry
+// Remove a feature from an entry (requires authentication - owner or
+// moderator only)
 export const removeFeatureFromEntry = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -371,29 +473,25 @@ export const removeFeatureFromEntry = mutation({
     },
     handler: async (ctx, args) => {
         const { entryType, entryId, featureId } = args;
+        await requireEntryEditor(
+            ctx,
+            entryType,
+            entryId,
+            'edit entry features'
+        );
 
         // Find existing association
-        const allAssocs = await ctx.db
+        const existing = await ctx.db
             .query('entryFeatures')
-            .withIndex('by_feature', (q) => q.eq('featureId', featureId))
-            .collect();
-
-        const existing = allAssocs.find((a) => {
-            switch (entryType) {
-                case 'game':
-                    return a.gameId === entryId;
-                case 'hardware':
-                    return a.hardwareId === entryId;
-                case 'place':
-                    return a.placeId === entryId;
-                case 'software':
-                    return a.softwareId === entryId;
-                case 'service':
-                    return a.serviceId === entryId;
-            }
-        });
+            .withIndex('by_entry_feature', (q) =>
+                q
+                    .eq('entryKey', toEntryKey(entryType, entryId))
+                    .eq('featureId', featureId)
+            )
+            .first();
 
         if (existing) {
+            const before = await loadEntryState(ctx, entryType, entryId);
             await ctx.db.delete(existing._id);
 
             // Decrement usage count
@@ -403,6 +501,9 @@ export const removeFeatureFromEntry = mutation({
                     usageCount: feature.usageCount - 1
                 });
             }
+
+            await refreshSearchText(ctx, entryType, entryId);
+            await recordRevision(ctx, entryType, entryId, 'features', before);
         }
     }
 });
@@ -414,15 +515,12 @@ export const getFeaturesForEntry = query({
         entryId: v.string()
     },
     handler: async (ctx, args) => {
-        const { entryType, entryId } = args;
-
-        // Get all entryFeatures and filter by the entry ID
-        const allAssocs = await ctx.db.query('entryFeatures').collect();
-        const associations = allAssocs.filter(
-            (a) =>
-                a.entryType === entryType &&
-                getEntryIdForType(a, entryType) === entryId
-        );
+        const associations = await ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry', (q) =>
+                q.eq('entryKey', toEntryKey(args.entryType, args.entryId))
+            )
+            .collect();
 
         // Fetch the actual feature documents and combine with ratings
         const features = await Promise.all(
@@ -432,7 +530,9 @@ export const getFeaturesForEntry = query({
                 return {
                     ...feature,
                     rating: assoc.rating,
-                    notes: assoc.notes
+                    notes: assoc.notes,
+                    worksCount: assoc.worksCount ?? 0,
+                    brokenCount: assoc.brokenCount ?? 0
                 };
             })
         );
@@ -470,7 +570,81 @@ export const getEntriesWithFeature = query({
     }
 });
 
-// Set all features for an entry (replaces existing features)
+// Replace an entry's feature associations, keeping usage counts in step.
+// Shared by setFeaturesForEntry and revisions.revertToRevision.
+export async function replaceEntryFeatures(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    features: Array<{
+        featureId: Id<'accessibilityFeatures'>;
+        rating: number;
+        notes?: string;
+    }>
+): Promise<void> {
+    // Get existing associations for this entry
+    const existing = await ctx.db
+        .query('entryFeatures')
+        .withIndex('by_entry', (q) =>
+            q.eq('entryKey', toEntryKey(entryType, entryId))
+        )
+        .collect();
+
+    const existingFeatureIds = new Set(existing.map((e) => e.featureId));
+    const newFeatureIds = new Set(features.map((f) => f.featureId));
+    // A feature sent twice is still one association; the first one counts
+    const uniqueFeatures = features.filter(
+        (f, i) => features.findIndex((g) => g.featureId === f.featureId) === i
+    );
+
+    // Remove old associations not in new list
+    for (const assoc of existing) {
+        if (!newFeatureIds.has(assoc.featureId)) {
+            await ctx.db.delete(assoc._id);
+            const feature = await ctx.db.get(assoc.featureId);
+            if (feature && feature.usageCount > 0) {
+                await ctx.db.patch(assoc.featureId, {
+                    usageCount: feature.usageCount - 1
+                });
+            }
+        }
+    }
+
+    // Add or update features
+    for (const { featureId, rating, notes } of uniqueFeatures) {
+        // Validate rating
+        if (rating < 1 || rating > 5) {
+            throw new Error('Rating must be between 1 and 5');
+        }
+
+        if (existingFeatureIds.has(featureId)) {
+            // Update existing
+            const assoc = existing.find((e) => e.featureId === featureId);
+            if (assoc) {
+                await ctx.db.patch(assoc._id, { rating, notes });
+            }
+        } else {
+            // Create new
+            await ctx.db.insert('entryFeatures', {
+                ...entryRefFields(entryType, entryId),
+                featureId,
+                rating,
+                notes,
+                createdAt: Date.now()
+            });
+
+            const feature = await ctx.db.get(featureId);
+            if (feature) {
+                await ctx.db.patch(featureId, {
+                    usageCount: feature.usageCount + 1
+                });
+            }
+        }
+    }
+}
+
+// Set all features for an entry, replacing existing features (requires
+// authentication - owner or moderator only)
 export const setFeaturesForEntry = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -486,85 +660,24 @@ export const setFeaturesForEntry = mutation({
     handler: async (ctx, args) => {
         const { entryType, entryId, features } = args;
 
-        // Get existing associations for this entry
-        const allAssocs = await ctx.db.query('entryFeatures').collect();
-        const existing = allAssocs.filter(
-            (a) =>
-                a.entryType === entryType &&
-                getEntryIdForType(a, entryType) === entryId
+        // Also makes sure the entry exists so the stored entryKey is valid
+        await requireEntryEditor(
+            ctx,
+            entryType,
+            entryId,
+            'edit entry features'
         );
 
-        const existingFeatureIds = new Set(existing.map((e) => e.featureId));
-        const newFeatureIds = new Set(features.map((f) => f.featureId));
-
-        // Remove old associations not in new list
-        for (const assoc of existing) {
-            if (!newFeatureIds.has(assoc.featureId)) {
-                await ctx.db.delete(assoc._id);
-                const feature = await ctx.db.get(assoc.featureId);
-                if (feature && feature.usageCount > 0) {
-                    await ctx.db.patch(assoc.featureId, {
-                        usageCount: feature.usageCount - 1
-                    });
-                }
-            }
-        }
-
-        // Add or update features
-        for (const { featureId, rating, notes } of features) {
-            // Validate rating
-            if (rating < 1 || rating > 5) {
-                throw new Error('Rating must be between 1 and 5');
-            }
-
-            if (existingFeatureIds.has(featureId)) {
-                // Update existing
-                const assoc = existing.find((e) => e.featureId === featureId);
-                if (assoc) {
-                    await ctx.db.patch(assoc._id, { rating, notes });
-                }
-            } else {
-                // Create new
-                await ctx.db.insert('entryFeatures', {
-                    entryType,
-                    gameId:
-                        entryType === 'game'
-                            ? (entryId as Id<'games'>)
-                            : undefined,
-                    hardwareId:
-                        entryType === 'hardware'
-                            ? (entryId as Id<'hardware'>)
-                            : undefined,
-                    placeId:
-                        entryType === 'place'
-                            ? (entryId as Id<'places'>)
-                            : undefined,
-                    softwareId:
-                        entryType === 'software'
-                            ? (entryId as Id<'software'>)
-                            : undefined,
-                    serviceId:
-                        entryType === 'service'
-                            ? (entryId as Id<'services'>)
-                            : undefined,
-                    featureId,
-                    rating,
-                    notes,
-                    createdAt: Date.now()
-                });
+        const before = await loadEntryState(ctx, entryType, entryId);
+        await replaceEntryFeatures(ctx, entryType, entryId, features);
 
-                const feature = await ctx.db.get(featureId);
-                if (feature) {
-                    await ctx.db.patch(featureId, {
-                        usageCount: feature.usageCount + 1
-                    });
-                }
-            }
-        }
+        await refreshSearchText(ctx, entryType, entryId);
+        await recordRevision(ctx, entryType, entryId, 'features', before);
     }
 });
 
-// Update the rating for a specific feature on an entry
+// Update the rating for a specific feature on an entry (requires
+// authentication - owner or moderator only)
 export const updateEntryFeatureRating = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -575,37 +688,34 @@ export const updateEntryFeatureRating = mutation({
     },
     handler: async (ctx, args) => {
         const { entryType, entryId, featureId, rating, notes } = args;
+        await requireEntryEditor(
+            ctx,
+            entryType,
+            entryId,
+            'edit entry features'
+        );
 
         if (rating < 1 || rating > 5) {
             throw new Error('Rating must be between 1 and 5');
         }
 
         // Find existing association
-        const allAssocs = await ctx.db
+        const existing = await ctx.db
             .query('entryFeatures')
-            .withIndex('by_feature', (q) => q.eq('featureId', featureId))
-            .collect();
-
-        const existing = allAssocs.find((a) => {
-            switch (entryType) {
-                case 'game':
-                    return a.gameId === entryId;
-                case 'hardware':
-                    return a.hardwareId === entryId;
-                case 'place':
-                    return a.placeId === entryId;
-                case 'software':
-                    return a.softwareId === entryId;
-                case 'service':
-                    return a.serviceId === entryId;
-            }
-        });
+            .withIndex('by_entry_feature', (q) =>
+                q
+                    .eq('entryKey', toEntryKey(entryType, entryId))
+                    .eq('featureId', featureId)
+            )
+            .first();
 
         if (!existing) {
             throw new Error('Feature not associated with this entry');
         }
 
+        const before = await loadEntryState(ctx, entryType, entryId);
         await ctx.db.patch(existing._id, { rating, notes });
+        await recordRevision(ctx, entryType, entryId, 'features', before);
         return existing._id;
     }
 });
@@ -0,0 +1,513 @@
+import { v } from 'convex/values';
+import type { Infer } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import type { PaginationResult } from 'convex/server';
+import { query } from './_generated/server';
+import type { QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { entryType } from './schema';
+import {
+    compareNewestFirst,
+    entrySortValidator,
+    paginateEntryList,
+    paginateMergedFeed
+} from './entries';
+import type { AnyEntry, Category } from './entries';
+import {
+    categories,
+    getEntryDoc,
+    normalizeEntryRef,
+    parseEntryKey,
+    toEntryKey
+} from './entryRefs';
+import { loadStats } from './stats';
+import type { CategoryStats } from './stats';
+
+// Accessibility dimensions that can be filtered by minimum rating
+export type RatingDimension = 'visual' | 'auditory' | 'motor' | 'cognitive';
+
+const ratingDimensions: RatingDimension[] = [
+    'visual',
+    'auditory',
+    'motor',
+    'cognitive'
+];
+
+const dimensionFields = {
+    visual: 'visualAccessibility',
+    auditory: 'auditoryAccessibility',
+    motor: 'motorAccessibility',
+    cognitive: 'cognitiveAccessibility'
+} as const;
+
+// Number of tag and feature facet values returned, most used first.
+// Selected tags and features are always included.
+const FACET_LIMIT = 20;
+
+export const entryFiltersValidator = v.object({
+    category: v.optional(entryType),
+    // Minimum rating (1-5) per accessibility dimension
+    minRatings: v.optional(
+        v.object({
+            visual: v.optional(v.number()),
+            auditory: v.optional(v.number()),
+            motor: v.optional(v.number()),
+            cognitive: v.optional(v.number())
+        })
+    ),
+    // Entries must have every one of these tags. Ids come from the URL, so
+    // ones that aren't tag ids are dropped (see checkFilters).
+    tagIds: v.optional(v.array(v.string())),
+    // Entries must have every one of these features, rated at least minRating
+    features: v.optional(
+        v.array(
+            v.object({
+                featureId: v.string(),
+                minRating: v.optional(v.number())
+            })
+        )
+    ),
+    complete: v.optional(v.boolean())
+});
+
+export type EntryFilters = Infer<typeof entryFiltersValidator>;
+
+// Filters whose tag and feature ids have been checked
+interface CheckedFilters extends Omit<EntryFilters, 'tagIds' | 'features'> {
+    tagIds?: Array<Id<'tags'>>;
+    features?: Array<{
+        featureId: Id<'accessibilityFeatures'>;
+        minRating?: number;
+    }>;
+}
+
+// Drop tag and feature ids that don't belong to their tables and minimum
+// ratings that aren't numbers
+function checkFilters(ctx: QueryCtx, filters: EntryFilters): CheckedFilters {
+    return {
+        ...filters,
+        tagIds: filters.tagIds?.flatMap((id) => {
+            const tagId = ctx.db.normalizeId('tags', id);
+            return tagId ? [tagId] : [];
+        }),
+        features: filters.features?.flatMap(({ featureId, minRating }) => {
+            const id = ctx.db.normalizeId('accessibilityFeatures', featureId);
+            return id
+                ? [
+                      {
+                          featureId: id,
+                          minRating: Number.isFinite(minRating)
+                              ? minRating
+                              : undefined
+                      }
+                  ]
+                : [];
+        })
+    };
+}
+
+// Filter that a facet ignores when counting its own values, so that e.g. the
+// category counts still show how many entries the other categories have
+type FacetKey = 'category' | 'complete' | RatingDimension;
+
+function matchesFilters(
+    entry: AnyEntry,
+    filters: CheckedFilters,
+    ignore?: FacetKey
+): boolean {
+    if (
+        ignore !== 'category' &&
+        filters.category &&
+        entry.category !== filters.category
+    ) {
+        return false;
+    }
+    if (
+        ignore !== 'complete' &&
+        filters.complete !== undefined &&
+        entry.complete !== filters.complete
+    ) {
+        return false;
+    }
+    return ratingDimensions.every((dimension) => {
+        const min = filters.minRatings?.[dimension];
+        if (ignore === dimension || min === undefined) return true;
+        const rating = entry[dimensionFields[dimension]];
+        return rating !== undefined && rating >= min;
+    });
+}
+
+// Most junction rows a tag or feature filter reads. Past this the filter only
+// considers the entries that most recently gained the tag or feature.
+const JUNCTION_LIMIT = 1000;
+
+// Rows read per entry table and page when paging through the entry tables
+// with only category, rating and completeness filters
+const FILTER_SCAN_LIMIT = 500;
+
+// An entry's tags and feature ratings
+interface EntryAssociations {
+    tagIds: Set<Id<'tags'>>;
+    featureRatings: Map<Id<'accessibilityFeatures'>, number>;
+}
+
+async function entryAssociations(
+    ctx: QueryCtx,
+    entryKey: string
+): Promise<EntryAssociations> {
+    const [entryTags, entryFeatures] = await Promise.all([
+        ctx.db
+            .query('entryTags')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect(),
+        ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect()
+    ]);
+    return {
+        tagIds: new Set(entryTags.map((row) => row.tagId)),
+        featureRatings: new Map(
+            entryFeatures.map((row) => [row.featureId, row.rating])
+        )
+    };
+}
+
+function hasRequired(
+    associations: EntryAssociations,
+    filters: CheckedFilters
+): boolean {
+    return (
+        (filters.tagIds ?? []).every((tagId) =>
+            associations.tagIds.has(tagId)
+        ) &&
+        (filters.features ?? []).every(({ featureId, minRating }) => {
+            const rating = associations.featureRatings.get(featureId);
+            return rating !== undefined && rating >= (minRating ?? 0);
+        })
+    );
+}
+
+// Associations of the entries that have every required tag and feature, by
+// entry key, or null when the filters don't constrain tags or features.
+// Candidates come from the junction rows of the least used requirement, up to
+// JUNCTION_LIMIT of them, and are checked against the rest through their own
+// rows.
+async function junctionMatches(
+    ctx: QueryCtx,
+    filters: CheckedFilters
+): Promise<Map<string, EntryAssociations> | null> {
+    const tagIds = filters.tagIds ?? [];
+    const features = filters.features ?? [];
+    if (tagIds.length === 0 && features.length === 0) return null;
+
+    // Each requirement's usage count and a read of its junction rows
+    const requirements = await Promise.all([
+        ...tagIds.map(async (tagId) => ({
+            usageCount: (await ctx.db.get(tagId))?.usageCount,
+            keys: async () =>
+                (
+                    await ctx.db
+                        .query('entryTags')
+                        .withIndex('by_tag', (q) => q.eq('tagId', tagId))
+                        .order('desc')
+                        .take(JUNCTION_LIMIT)
+                ).flatMap((row) => (row.entryKey ? [row.entryKey] : []))
+        })),
+        ...features.map(async ({ featureId, minRating }) => ({
+            usageCount: (await ctx.db.get(featureId))?.usageCount,
+            keys: async () =>
+                (
+                    await ctx.db
+                        .query('entryFeatures')
+                        .withIndex('by_feature', (q) =>
+                            q.eq('featureId', featureId)
+                        )
+                        .order('desc')
+                        .take(JUNCTION_LIMIT)
+                ).flatMap((row) =>
+                    row.entryKey && row.rating >= (minRating ?? 0)
+                        ? [row.entryKey]
+                        : []
+                )
+        }))
+    ]);
+
+    const matches = new Map<string, EntryAssociations>();
+    // A deleted tag or feature matches nothing
+    if (requirements.some(({ usageCount }) => usageCount === undefined)) {
+        return matches;
+    }
+    const driver = requirements.reduce((least, requirement) =>
+        (requirement.usageCount ?? 0) < (least.usageCount ?? 0)
+            ? requirement
+            : least
+    );
+
+    const keys = new Set(await driver.keys());
+    await Promise.all(
+        [...keys].map(async (key) => {
+            const associations = await entryAssociations(ctx, key);
+            if (hasRequired(associations, filters)) {
+                matches.set(key, associations);
+            }
+        })
+    );
+    return matches;
+}
+
+// Live entries for a set of entry keys, newest first
+async function entriesForKeys(
+    ctx: QueryCtx,
+    keys: Iterable<string>
+): Promise<AnyEntry[]> {
+    const entries = await Promise.all(
+        [...keys].map(async (key) => {
+            const parsed = parseEntryKey(key);
+            const ref = parsed
+                ? normalizeEntryRef(ctx, parsed.entryType, parsed.entryId)
+                : null;
+            return ref ? await getEntryDoc(ctx, ref) : null;
+        })
+    );
+    return entries
+        .filter(
+            (entry): entry is AnyEntry =>
+                entry !== null && entry.deletedAt === undefined
+        )
+        .sort(compareNewestFirst);
+}
+
+// Paginated entries matching every filter, newest first unless another sort
+// is requested (compatible with usePaginatedQuery). Without tag or feature
+// filters this pages through the entry tables like the main feed, reading at
+// most FILTER_SCAN_LIMIT rows per table per page, so pages can come back short
+// before the end. With them, the matches are loaded and paged in memory; the
+// cursor is a sort position either way.
+export const filterEntries = query({
+    args: {
+        filters: entryFiltersValidator,
+        sort: v.optional(entrySortValidator),
+        paginationOpts: paginationOptsValidator
+    },
+    handler: async (ctx, args): Promise<PaginationResult<AnyEntry>> => {
+        const filters = checkFilters(ctx, args.filters);
+        const sort = args.sort ?? 'newest';
+
+        const matches = await junctionMatches(ctx, filters);
+        if (matches === null) {
+            return await paginateMergedFeed(ctx, sort, args.paginationOpts, {
+                categories: filters.category ? [filters.category] : undefined,
+                matches: (entry) => matchesFilters(entry, filters),
+                maxScan: FILTER_SCAN_LIMIT
+            });
+        }
+
+        const entries = await entriesForKeys(ctx, matches.keys());
+        return paginateEntryList(
+            entries.filter((entry) => matchesFilters(entry, filters)),
+            sort,
+            args.paginationOpts
+        );
+    }
+});
+
+// Facet counts. Counts are null where they can't be given without scanning
+// the entry tables. globalValueCounts is set when tag and feature counts are
+// their usage across every live entry rather than among the matches.
+export interface FilterFacets {
+    total: number | null;
+    categories: Record<Category, number> | null;
+    complete: { complete: number; incomplete: number } | null;
+    // ratings[dimension][n - 1] = entries rated at least n
+    ratings: Record<RatingDimension, number[]> | null;
+    tags: Array<{ tag: Doc<'tags'>; count: number }>;
+    features: Array<{ feature: Doc<'accessibilityFeatures'>; count: number }>;
+    globalValueCounts: boolean;
+}
+
+// Most used tags or features, plus the selected ones
+async function facetValueDocs<T extends 'tags' | 'accessibilityFeatures'>(
+    ctx: QueryCtx,
+    table: T
+): Promise<Array<Doc<T>>> {
+    const top = await ctx.db
+        .query(table as 'tags')
+        .withIndex('by_usage_count', (q) => q.gt('usageCount', 0))
+        .order('desc')
+        .take(FACET_LIMIT);
+    return top as unknown as Array<Doc<T>>;
+}
+
+// The values the matches have most often, with how many matches have each,
+// plus the selected values
+async function countFacetValues<T extends 'tags' | 'accessibilityFeatures'>(
+    ctx: QueryCtx,
+    valueIds: Array<Array<Id<T>>>,
+    selected: Array<Id<T>>
+): Promise<Array<{ value: Doc<T>; count: number }>> {
+    const counts = new Map<Id<T>, number>();
+    for (const id of selected) counts.set(id, 0);
+    for (const ids of valueIds) {
+        for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+
+    const top = [...counts]
+        .sort((a, b) => b[1] - a[1])
+        .filter(([id], i) => i < FACET_LIMIT || selected.includes(id));
+    const counted = await Promise.all(
+        top.map(async ([id, count]) => {
+            const value = (await ctx.db.get(id)) as Doc<T> | null;
+            return value ? [{ value, count }] : [];
+        })
+    );
+    return counted.flat();
+}
+
+// Facets while no tag or feature filter bounds the matches, taken from the
+// maintained category stats and usage counts instead of the entry tables.
+// Those don't track ratings, so with a minimum rating only the tag and
+// feature usage counts are given, and those always span every live entry.
+async function counterFacets(
+    ctx: QueryCtx,
+    filters: CheckedFilters
+): Promise<FilterFacets> {
+    const [stats, tags, features] = await Promise.all([
+        loadStats(ctx),
+        facetValueDocs(ctx, 'tags'),
+        facetValueDocs(ctx, 'accessibilityFeatures')
+    ]);
+    const valueCounts = {
+        tags: tags.map((tag) => ({ tag, count: tag.usageCount })),
+        features: features.map((feature) => ({
+            feature,
+            count: feature.usageCount
+        })),
+        globalValueCounts: true
+    };
+
+    const hasMinRating = ratingDimensions.some(
+        (dimension) => filters.minRatings?.[dimension] !== undefined
+    );
+    if (hasMinRating) {
+        return {
+            total: null,
+            categories: null,
+            complete: null,
+            ratings: null,
+            ...valueCounts
+        };
+    }
+
+    const countFor = ({ total, complete }: CategoryStats) =>
+        filters.complete === undefined
+            ? total
+            : filters.complete
+              ? complete
+              : total - complete;
+
+    const categoryCounts = {} as Record<Category, number>;
+    let completeCount = 0;
+    let incompleteCount = 0;
+    for (const category of categories) {
+        categoryCounts[category] = countFor(stats[category]);
+        if (!filters.category || filters.category === category) {
+            completeCount += stats[category].complete;
+            incompleteCount += stats[category].total - stats[category].complete;
+        }
+    }
+
+    return {
+        total: filters.category
+            ? categoryCounts[filters.category]
+            : categories.reduce((sum, c) => sum + categoryCounts[c], 0),
+        categories: categoryCounts,
+        complete: { complete: completeCount, incomplete: incompleteCount },
+        ratings: null,
+        ...valueCounts
+    };
+}
+
+// Live counts for each facet value given the current filters.
+// Category, completeness and rating counts relax their own filter; tag and
+// feature counts are the number of matching entries that also have that tag
+// or feature, i.e. the result count if it were added to the filters.
+export const getFilterFacets = query({
+    args: {
+        filters: entryFiltersValidator
+    },
+    handler: async (ctx, args): Promise<FilterFacets> => {
+        const filters = checkFilters(ctx, args.filters);
+        const associations = await junctionMatches(ctx, filters);
+        if (associations === null) return await counterFacets(ctx, filters);
+
+        const candidates = await entriesForKeys(ctx, associations.keys());
+        const matches = candidates.filter((entry) =>
+            matchesFilters(entry, filters)
+        );
+
+        const categoryCounts = {} as Record<Category, number>;
+        for (const category of categories) {
+            categoryCounts[category] = 0;
+        }
+        for (const entry of candidates) {
+            if (matchesFilters(entry, filters, 'category')) {
+                categoryCounts[entry.category]++;
+            }
+        }
+
+        let completeCount = 0;
+        let incompleteCount = 0;
+        for (const entry of candidates) {
+            if (!matchesFilters(entry, filters, 'complete')) continue;
+            if (entry.complete) completeCount++;
+            else incompleteCount++;
+        }
+
+        const ratings = {} as Record<RatingDimension, number[]>;
+        for (const dimension of ratingDimensions) {
+            const rated = candidates.flatMap((entry) => {
+                const value = entry[dimensionFields[dimension]];
+                return value !== undefined &&
+                    matchesFilters(entry, filters, dimension)
+                    ? [value]
+                    : [];
+            });
+            ratings[dimension] = [1, 2, 3, 4, 5].map(
+                (n) => rated.filter((value) => value >= n).length
+            );
+        }
+
+        const matched = matches.flatMap((entry) => {
+            const found = associations.get(
+                toEntryKey(entry.category, entry._id)
+            );
+            return found ? [found] : [];
+        });
+        const [tags, features] = await Promise.all([
+            countFacetValues(
+                ctx,
+                matched.map((found) => [...found.tagIds]),
+                filters.tagIds ?? []
+            ),
+            countFacetValues(
+                ctx,
+                matched.map((found) => [...found.featureRatings.keys()]),
+                (filters.features ?? []).map((f) => f.featureId)
+            )
+        ]);
+
+        return {
+            total: matches.length,
+            categories: categoryCounts,
+            complete: { complete: completeCount, incomplete: incompleteCount },
+            ratings,
+            tags: tags.map(({ value, count }) => ({ tag: value, count })),
+            features: features.map(({ value, count }) => ({
+                feature: value,
+                count
+            })),
+            globalValueCounts: false
+        };
+    }
+});
@@ -1,6 +1,14 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
 import { isEntryComplete } from './entries';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { moveEntryToTrash } from './trash';
+import { loadEntryState, recordRevision } from './revisions';
+import { canEditEntry } from './permissions';
+import { claimEntryPhotos } from './storage';
+import { photoFields } from './photos';
+import { photoDetail } from './schema';
 
 // Get all games
 export const getGames = query({
@@ -12,6 +20,7 @@ export const getGames = query({
             .query('games')
             .withIndex('by_created')
             .order('desc')
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(args.limit ?? 50);
         return games.map((game) => ({ ...game, category: 'game' as const }));
     }
@@ -32,6 +41,7 @@ export const searchGames = query({
             .withSearchIndex('search_games', (q) =>
                 q.search('name', args.searchQuery)
             )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(20);
 
         return games.map((game) => ({ ...game, category: 'game' as const }));
@@ -43,7 +53,9 @@ export const getGame = query({
     args: { id: v.id('games') },
     handler: async (ctx, args) => {
         const game = await ctx.db.get(args.id);
-        return game ? { ...game, category: 'game' as const } : null;
+        return game && game.deletedAt === undefined
+            ? { ...game, category: 'game' as const }
+            : null;
     }
 });
 
@@ -60,7 +72,7 @@ export const createGame = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         // Game-specific fields
         platforms: v.array(v.string()),
         publisher: v.optional(v.string()),
@@ -77,20 +89,32 @@ export const createGame = mutation({
             throw new Error('You must be logged in to create an entry');
         }
 
-        const { photos, accessibilityFeatures, tags, ...rest } = args;
+        const { photoDetails, accessibilityFeatures, tags, ...rest } = args;
         const now = Date.now();
         const newGame = {
             ...rest,
-            photos: photos ?? [],
+            ...photoFields(photoDetails ?? []),
             createdBy: identity.subject,
             createdAt: now,
             updatedAt: now
         };
 
-        return await ctx.db.insert('games', {
+        const id = await ctx.db.insert('games', {
             ...newGame,
             complete: isEntryComplete(newGame, 'game')
         });
+
+        await claimEntryPhotos(
+            ctx,
+            identity.subject,
+            'game',
+            id,
+            newGame.photos
+        );
+        await refreshSearchText(ctx, 'game', id);
+        await updateEntryStats(ctx, 'game', null, await ctx.db.get(id));
+        await recordRevision(ctx, 'game', id, 'create', null);
+        return id;
     }
 });
 
@@ -108,7 +132,7 @@ export const updateGame = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         platforms: v.optional(v.array(v.string())),
         publisher: v.optional(v.string()),
         developer: v.optional(v.string()),
@@ -124,27 +148,46 @@ export const updateGame = mutation({
             throw new Error('You must be logged in to update an entry');
         }
 
-        const { id, accessibilityFeatures, tags, ...updates } = args;
+        const { id, photoDetails, accessibilityFeatures, tags, ...updates } =
+            args;
         const existing = await ctx.db.get(id);
-        if (!existing) {
+        if (!existing || existing.deletedAt !== undefined) {
             throw new Error('Game not found');
         }
 
-        if (existing.createdBy && existing.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, existing))) {
             throw new Error('You can only edit entries you created');
         }
 
-        const updatedEntry = { ...existing, ...updates };
+        const photoUpdates = photoDetails && photoFields(photoDetails);
+        if (photoUpdates) {
+            await claimEntryPhotos(
+                ctx,
+                identity.subject,
+                'game',
+                id,
+                photoUpdates.photos,
+                existing.photos
+            );
+        }
+
+        const before = await loadEntryState(ctx, 'game', id);
+        const updatedEntry = { ...existing, ...updates, ...photoUpdates };
 
-        return await ctx.db.patch(id, {
+        await ctx.db.patch(id, {
             ...updates,
+            ...photoUpdates,
             complete: isEntryComplete(updatedEntry, 'game'),
             updatedAt: Date.now()
         });
+
+        await refreshSearchText(ctx, 'game', id);
+        await updateEntryStats(ctx, 'game', existing, await ctx.db.get(id));
+        await recordRevision(ctx, 'game', id, 'update', before);
     }
 });
 
-// Delete a game
+// Delete a game (moves it to the trash, restorable for 30 days)
 export const deleteGame = mutation({
     args: { id: v.id('games') },
     handler: async (ctx, args) => {
@@ -154,14 +197,14 @@ export const deleteGame = mutation({
         }
 
         const game = await ctx.db.get(args.id);
-        if (!game) {
+        if (!game || game.deletedAt !== undefined) {
             throw new Error('Game not found');
         }
 
-        if (game.createdBy && game.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, game))) {
             throw new Error('You can only delete entries you created');
         }
 
-        await ctx.db.delete(args.id);
+        await moveEntryToTrash(ctx, 'game', game, identity.subject);
     }
 });
@@ -1,6 +1,14 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
 import { isEntryComplete } from './entries';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { moveEntryToTrash } from './trash';
+import { loadEntryState, recordRevision } from './revisions';
+import { canEditEntry } from './permissions';
+import { claimEntryPhotos } from './storage';
+import { photoFields } from './photos';
+import { photoDetail } from './schema';
 
 // Get all hardware
 export const getHardware = query({
@@ -12,6 +20,7 @@ export const getHardware = query({
             .query('hardware')
             .withIndex('by_created')
             .order('desc')
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(args.limit ?? 50);
         return hardware.map((hw) => ({ ...hw, category: 'hardware' as const }));
     }
@@ -32,6 +41,7 @@ export const searchHardware = query({
             .withSearchIndex('search_hardware', (q) =>
                 q.search('name', args.searchQuery)
             )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(20);
 
         return hardware.map((hw) => ({ ...hw, category: 'hardware' as const }));
@@ -43,7 +53,9 @@ export const getHardwareItem = query({
     args: { id: v.id('hardware') },
     handler: async (ctx, args) => {
         const hardware = await ctx.db.get(args.id);
-        return hardware ? { ...hardware, category: 'hardware' as const } : null;
+        return hardware && hardware.deletedAt === undefined
+            ? { ...hardware, category: 'hardware' as const }
+            : null;
     }
 });
 
@@ -60,7 +72,7 @@ export const createHardware = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         // Hardware-specific fields
         manufacturer: v.optional(v.string()),
         model: v.optional(v.string()),
@@ -76,20 +88,32 @@ export const createHardware = mutation({
             throw new Error('You must be logged in to create an entry');
         }
 
-        const { photos, accessibilityFeatures, tags, ...rest } = args;
+        const { photoDetails, accessibilityFeatures, tags, ...rest } = args;
         const now = Date.now();
         const newHardware = {
             ...rest,
-            photos: photos ?? [],
+            ...photoFields(photoDetails ?? []),
             createdBy: identity.subject,
             createdAt: now,
             updatedAt: now
         };
 
-        return await ctx.db.insert('hardware', {
+        const id = await ctx.db.insert('hardware', {
             ...newHardware,
             complete: isEntryComplete(newHardware, 'hardware')
         });
+
+        await claimEntryPhotos(
+            ctx,
+            identity.subject,
+            'hardware',
+            id,
+            newHardware.photos
+        );
+        await refreshSearchText(ctx, 'hardware', id);
+        await updateEntryStats(ctx, 'hardware', null, await ctx.db.get(id));
+        await recordRevision(ctx, 'hardware', id, 'create', null);
+        return id;
     }
 });
 
@@ -107,7 +131,7 @@ export const updateHardware = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         manufacturer: v.optional(v.string()),
         model: v.optional(v.string()),
         productType: v.optional(v.string()),
@@ -119,27 +143,45 @@ export const updateHardware = mutation({
             throw new Error('You must be logged in to update an entry');
         }
 
-        const { id, ...updates } = args;
+        const { id, photoDetails, ...updates } = args;
         const existing = await ctx.db.get(id);
-        if (!existing) {
+        if (!existing || existing.deletedAt !== undefined) {
             throw new Error('Hardware not found');
         }
 
-        if (existing.createdBy && existing.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, existing))) {
             throw new Error('You can only edit entries you created');
         }
 
-        const updatedEntry = { ...existing, ...updates };
+        const photoUpdates = photoDetails && photoFields(photoDetails);
+        if (photoUpdates) {
+            await claimEntryPhotos(
+                ctx,
+                identity.subject,
+                'hardware',
+                id,
+                photoUpdates.photos,
+                existing.photos
+            );
+        }
+
+        const before = await loadEntryState(ctx, 'hardware', id);
+        const updatedEntry = { ...existing, ...updates, ...photoUpdates };
 
-        return await ctx.db.patch(id, {
+        await ctx.db.patch(id, {
             ...updates,
+            ...photoUpdates,
             complete: isEntryComplete(updatedEntry, 'hardware'),
             updatedAt: Date.now()
         });
+
+        await refreshSearchText(ctx, 'hardware', id);
+        await updateEntryStats(ctx, 'hardware', existing, await ctx.db.get(id));
+        await recordRevision(ctx, 'hardware', id, 'update', before);
     }
 });
 
-// Delete hardware
+// Delete hardware (moves it to the trash, restorable for 30 days)
 export const deleteHardware = mutation({
     args: { id: v.id('hardware') },
     handler: async (ctx, args) => {
@@ -149,14 +191,14 @@ export const deleteHardware = mutation({
         }
 
         const hardware = await ctx.db.get(args.id);
-        if (!hardware) {
+        if (!hardware || hardware.deletedAt !== undefined) {
             throw new Error('Hardware not found');
         }
 
-        if (hardware.createdBy && hardware.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, hardware))) {
             throw new Error('You can only delete entries you created');
         }
 
-        await ctx.db.delete(args.id);
+        await moveEntryToTrash(ctx, 'hardware', hardware, identity.subject);
     }
 });
@@ -0,0 +1,114 @@
+'use node';
+
+import sharp from 'sharp';
+import type { Infer } from 'convex/values';
+import { v } from 'convex/values';
+import { internalAction } from './_generated/server';
+import type { Id } from './_generated/dataModel';
+import type { imageVariant } from './schema';
+
+// Widths of the WebP variants generated for each upload. Widths at or above
+// the original's are skipped, since the original is served at full size.
+const VARIANT_WIDTHS = [320, 640, 1280];
+const VARIANT_QUALITY = 80;
+
+// Width of the inline placeholder shown while an image loads
+const BLUR_WIDTH = 16;
+
+const outputFormats: Record<string, keyof sharp.FormatEnum> = {
+    'image/jpeg': 'jpeg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp'
+};
+
+export interface ProcessedImage {
+    storageId: Id<'_storage'>;
+    fileSize: number;
+    width: number;
+    height: number;
+    variants: Array<Infer<typeof imageVariant>>;
+    blurDataUrl: string;
+}
+
+/**
+ * Re-encodes an uploaded image without its metadata and generates responsive
+ * WebP variants and a blur placeholder. sharp drops EXIF (including GPS
+ * coordinates) unless asked to keep it; orientation is applied to the pixels
+ * first so photos stay upright. The stripped copy and the variants are stored
+ * as new files; the caller deletes the original.
+ */
+export const processImage = internalAction({
+    args: {
+        storageId: v.id('_storage'),
+        fileType: v.string()
+    },
+    handler: async (ctx, args): Promise<ProcessedImage> => {
+        const format = outputFormats[args.fileType];
+        if (!format) {
+            throw new Error(`Unsupported image type ${args.fileType}`);
+        }
+
+        const blob = await ctx.storage.get(args.storageId);
+        if (!blob) {
+            throw new Error('File not found');
+        }
+        const input = Buffer.from(await blob.arrayBuffer());
+        const animated = format === 'gif' || format === 'webp';
+
+        let stripped: { data: Buffer; info: sharp.OutputInfo };
+        try {
+            stripped = await sharp(input, { animated })
+                .rotate()
+                .toFormat(format)
+                .toBuffer({ resolveWithObject: true });
+        } catch {
+            throw new Error('This file could not be read as an image');
+        }
+
+        // For animations sharp reports the height of all frames stacked
+        const width = stripped.info.width;
+        const height = stripped.info.pageHeight ?? stripped.info.height;
+
+        const resized = await Promise.all(
+            VARIANT_WIDTHS.filter((variantWidth) => variantWidth < width).map(
+                (variantWidth) =>
+                    sharp(stripped.data, { animated })
+                        .resize({ width: variantWidth })
+                        .webp({ quality: VARIANT_QUALITY })
+                        .toBuffer({ resolveWithObject: true })
+            )
+        );
+
+        const blur = await sharp(stripped.data)
+            .resize({ width: BLUR_WIDTH })
+            .blur()
+            .webp({ quality: 50 })
+            .toBuffer();
+
+        const variants = [];
+        for (const { data, info } of resized) {
+            variants.push({
+                storageId: await ctx.storage.store(
+                    new Blob([new Uint8Array(data)], { type: 'image/webp' })
+                ),
+                width: info.width,
+                height: info.pageHeight ?? info.height,
+                fileSize: info.size
+            });
+        }
+
+        return {
+            storageId: await ctx.storage.store(
+                new Blob([new Uint8Array(stripped.data)], {
+                    type: args.fileType
+                })
+            ),
+            fileSize: stripped.info.size,
+            width,
+            height,
+            variants,
+            blurDataUrl: `data:image/webp;base64,${blur.toString('base64')}`
+        };
+    }
+});
@@ -0,0 +1,372 @@
+import { v } from 'convex/values';
+import { internalMutation } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import {
+    categories,
+    entryTables,
+    legacyEntryId,
+    toEntryKey
+} from './entryRefs';
+import { refreshSearchText } from './searchText';
+import { adjustTaxonomyUsage } from './trash';
+import { countEntryRows } from './entryCounters';
+import {
+    communityRatingFields,
+    computeCommunityRating
+} from './communityRatings';
+
+const BATCH_SIZE = 100;
+
+async function isMigrationDone(ctx: QueryCtx, name: string): Promise<boolean> {
+    const row = await ctx.db
+        .query('migrations')
+        .withIndex('by_name', (q) => q.eq('name', name))
+        .first();
+    return row !== null;
+}
+
+async function markMigrationDone(ctx: MutationCtx, name: string) {
+    if (await isMigrationDone(ctx, name)) return;
+    await ctx.db.insert('migrations', { name, finishedAt: Date.now() });
+}
+
+// Tables that reference an entry through entryKey
+const entryRefTable = v.union(
+    v.literal('reviews'),
+    v.literal('comments'),
+    v.literal('entryTags'),
+    v.literal('entryFeatures')
+);
+
+// Entry tables, one per category
+const entryCategory = v.union(
+    v.literal('game'),
+    v.literal('hardware'),
+    v.literal('place'),
+    v.literal('software'),
+    v.literal('service')
+);
+
+// ============================================
+// ENTRY KEY BACKFILL
+// ============================================
+
+// Start the entryKey backfill for every table that references entries.
+// Run once from the dashboard: `npx convex run migrations:backfillEntryKeys`
+export const backfillEntryKeys = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const table of [
+            'reviews',
+            'comments',
+            'entryTags',
+            'entryFeatures'
+        ] as const) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillEntryKeysBatch,
+                { table }
+            );
+        }
+    }
+});
+
+// Set entryKey on one page of rows that still use the legacy per-type ids,
+// then schedule the next page
+export const backfillEntryKeysBatch = internalMutation({
+    args: {
+        table: entryRefTable,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(args.table)
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const row of result.page) {
+            if (row.entryKey) continue;
+
+            const entryId = legacyEntryId(row);
+            if (!entryId) continue;
+
+            await ctx.db.patch(row._id, {
+                entryKey: toEntryKey(row.entryType, entryId)
+            });
+        }
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillEntryKeysBatch,
+                { table: args.table, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// ============================================
+// SEARCH TEXT BACKFILL
+// ============================================
+
+// Compute searchText for every existing entry.
+// Run once from the dashboard: `npx convex run migrations:backfillSearchText`
+export const backfillSearchText = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillSearchTextBatch,
+                { category }
+            );
+        }
+    }
+});
+
+export const backfillSearchTextBatch = internalMutation({
+    args: {
+        category: entryCategory,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category])
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const entry of result.page) {
+            await refreshSearchText(ctx, args.category, entry._id);
+        }
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillSearchTextBatch,
+                { category: args.category, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// ============================================
+// ENTRY COUNTS BACKFILL
+// ============================================
+
+// Compute reviewCount and commentCount for every existing entry.
+// Run once from the dashboard: `npx convex run migrations:backfillEntryCounts`
+export const backfillEntryCounts = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillEntryCountsBatch,
+                { category }
+            );
+        }
+    }
+});
+
+export const backfillEntryCountsBatch = internalMutation({
+    args: {
+        category: entryCategory,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category])
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const entry of result.page) {
+            const entryKey = toEntryKey(args.category, entry._id);
+            await ctx.db.patch(entry._id, {
+                reviewCount: await countEntryRows(ctx, entryKey, 'reviewCount'),
+                commentCount: await countEntryRows(
+                    ctx,
+                    entryKey,
+                    'commentCount'
+                )
+            });
+        }
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillEntryCountsBatch,
+                { category: args.category, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// ============================================
+// FILE ASSOCIATION BACKFILL
+// ============================================
+
+// Associate existing entry photos with their uploadedFiles rows, which the
+// orphaned-upload cleanup relies on to tell them apart from abandoned
+// uploads. The cleanup leaves unassociated uploads alone until every category
+// has been backfilled. Run once from the dashboard:
+// `npx convex run migrations:backfillFileAssociations`
+export const backfillFileAssociations = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillFileAssociationsBatch,
+                { category }
+            );
+        }
+    }
+});
+
+export const backfillFileAssociationsBatch = internalMutation({
+    args: {
+        category: entryCategory,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category])
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const entry of result.page) {
+            for (const storageId of entry.photos ?? []) {
+                const file = await ctx.db
+                    .query('uploadedFiles')
+                    .withIndex('by_storage_id', (q) =>
+                        q.eq('storageId', storageId)
+                    )
+                    .first();
+                if (!file || file.associatedEntryId !== undefined) continue;
+
+                await ctx.db.patch(file._id, {
+                    associatedEntryType: args.category,
+                    associatedEntryId: entry._id
+                });
+            }
+        }
+
+        if (result.isDone) {
+            await markMigrationDone(ctx, `fileAssociations:${args.category}`);
+        } else {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillFileAssociationsBatch,
+                { category: args.category, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// Whether every category's entry photos have been associated with their
+// uploads, so an unassociated upload is known not to be an entry photo
+export async function fileAssociationsBackfilled(
+    ctx: QueryCtx
+): Promise<boolean> {
+    const done = await Promise.all(
+        categories.map((category) =>
+            isMigrationDone(ctx, `fileAssociations:${category}`)
+        )
+    );
+    return done.every(Boolean);
+}
+
+// ============================================
+// COMMUNITY RATING BACKFILL
+// ============================================
+
+// Aggregate existing reviews into each entry's community rating and score.
+// Run once from the dashboard: `npx convex run migrations:backfillCommunityRatings`
+export const backfillCommunityRatings = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillCommunityRatingsBatch,
+                { category }
+            );
+        }
+    }
+});
+
+export const backfillCommunityRatingsBatch = internalMutation({
+    args: {
+        category: entryCategory,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category])
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const entry of result.page) {
+            const aggregate = await computeCommunityRating(
+                ctx,
+                toEntryKey(args.category, entry._id)
+            );
+            await ctx.db.patch(entry._id, communityRatingFields(aggregate));
+        }
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillCommunityRatingsBatch,
+                { category: args.category, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// ============================================
+// TRASHED ENTRY USAGE BACKFILL
+// ============================================
+
+// Take entries that were already in the trash out of their tags' and
+// features' usage counts, as trashing now does. Run once from the dashboard:
+// `npx convex run migrations:backfillTrashedUsage`
+export const backfillTrashedUsage = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillTrashedUsageBatch,
+                { category }
+            );
+        }
+    }
+});
+
+export const backfillTrashedUsageBatch = internalMutation({
+    args: {
+        category: entryCategory,
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        // Running twice would count trashed entries out twice
+        const name = `trashedUsage:${args.category}`;
+        if (!args.cursor && (await isMigrationDone(ctx, name))) return;
+
+        const result = await ctx.db
+            .query(entryTables[args.category] as 'games')
+            .withIndex('by_deleted', (q) => q.gt('deletedAt', 0))
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        for (const entry of result.page) {
+            await adjustTaxonomyUsage(ctx, args.category, entry._id, -1);
+        }
+
+        if (result.isDone) {
+            await markMigrationDone(ctx, name);
+        } else {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.migrations.backfillTrashedUsageBatch,
+                { category: args.category, cursor: result.continueCursor }
+            );
+        }
+    }
+});
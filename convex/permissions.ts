@@ -0,0 +1,120 @@
+import type { UserIdentity } from 'convex/server';
+import type { Infer } from 'convex/values';
+import type { QueryCtx } from './_generated/server';
+import type { AnyEntry, Category } from './entries';
+import { requireEntry } from './entryRefs';
+import type { userRole } from './schema';
+
+// Roles in increasing order of privilege. Everyone who signs in is a 'user';
+// higher roles are granted through users.setUserRole.
+export type Role = Infer<typeof userRole>;
+
+const roleRanks: Record<Role, number> = {
+    user: 0,
+    contributor: 1,
+    moderator: 2,
+    admin: 3
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+    return roleRanks[role] >= roleRanks[required];
+}
+
+// Bootstrap roles are configured on the deployment as comma-separated lists
+// of user ids, so a fresh deployment has someone who can grant roles:
+// `npx convex env set ADMIN_USER_IDS user_abc,user_def`
+// `npx convex env set MODERATOR_USER_IDS user_ghi`
+function envUserIds(name: string): Set<string> {
+    return new Set(
+        (process.env[name] ?? '')
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean)
+    );
+}
+
+function bootstrapRole(userId: string): Role {
+    if (envUserIds('ADMIN_USER_IDS').has(userId)) return 'admin';
+    if (envUserIds('MODERATOR_USER_IDS').has(userId)) return 'moderator';
+    return 'user';
+}
+
+// Role of a user: the higher of their stored role and any bootstrap role
+export async function getRole(ctx: QueryCtx, userId: string): Promise<Role> {
+    const user = await ctx.db
+        .query('users')
+        .withIndex('by_user_id', (q) => q.eq('userId', userId))
+        .first();
+    const fromEnv = bootstrapRole(userId);
+    if (!user || hasRole(fromEnv, user.role)) return fromEnv;
+    return user.role;
+}
+
+/**
+ * Returns the signed-in user's identity, throwing unless they hold at least
+ * the given role. `action` completes the error messages, e.g.
+ * 'delete tags' gives "You must be logged in to delete tags".
+ */
+export async function requireRole(
+    ctx: QueryCtx,
+    required: Role,
+    action: string
+): Promise<UserIdentity & { role: Role }> {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+        throw new Error(`You must be logged in to ${action}`);
+    }
+
+    const role = await getRole(ctx, identity.subject);
+    if (!hasRole(role, required)) {
+        throw new Error(`You don't have permission to ${action}`);
+    }
+    return { ...identity, role };
+}
+
+// Whether the signed-in user holds at least the given role, for queries that
+// return nothing rather than throw when they don't
+export async function viewerHasRole(
+    ctx: QueryCtx,
+    required: Role
+): Promise<boolean> {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return false;
+    return hasRole(await getRole(ctx, identity.subject), required);
+}
+
+export async function isModerator(
+    ctx: QueryCtx,
+    identity: UserIdentity
+): Promise<boolean> {
+    return hasRole(await getRole(ctx, identity.subject), 'moderator');
+}
+
+// Entries can be edited by whoever created them (or anyone, for entries
+// without a recorded owner) and by moderators
+export async function canEditEntry(
+    ctx: QueryCtx,
+    identity: UserIdentity,
+    entry: { createdBy?: string }
+): Promise<boolean> {
+    if (!entry.createdBy || entry.createdBy === identity.subject) return true;
+    return await isModerator(ctx, identity);
+}
+
+/**
+ * Returns the signed-in user's identity and the entry, throwing unless the
+ * entry exists and they may edit it.
+ */
+export async function requireEntryEditor(
+    ctx: QueryCtx,
+    entryType: Category,
+    entryId: string,
+    action: string
+): Promise<{ identity: UserIdentity; entry: AnyEntry }> {
+    const identity = await requireRole(ctx, 'user', action);
+    const entry = await requireEntry(ctx, entryType, entryId);
+    if (!(await canEditEntry(ctx, identity, entry))) {
+        throw new Error('You can only edit entries you created');
+    }
+    return { identity, entry };
+}
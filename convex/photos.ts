@@ -0,0 +1,110 @@
+import type { Infer } from 'convex/values';
+import type { Id } from './_generated/dataModel';
+import type { photoDetail } from './schema';
+
+export type PhotoDetail = Infer<typeof photoDetail>;
+
+export const MAX_ALT_TEXT_LENGTH = 250;
+
+function trimmed(value: string | undefined): string | undefined {
+    return value?.trim() || undefined;
+}
+
+/**
+ * Validates photo metadata from a client and puts it in canonical form:
+ * ordered by `order` (renumbered from 0), text trimmed, and exactly one cover
+ * photo (the first one flagged, or else the first photo).
+ */
+export function normalizePhotoDetails(details: PhotoDetail[]): PhotoDetail[] {
+    const seen = new Set<Id<'_storage'>>();
+    for (const detail of details) {
+        if (seen.has(detail.storageId)) {
+            throw new Error('Each photo can only be added once');
+        }
+        seen.add(detail.storageId);
+
+        const altText = detail.altText.trim();
+        if (!altText) {
+            throw new Error('Every photo needs alt text');
+        }
+        if (altText.length > MAX_ALT_TEXT_LENGTH) {
+            throw new Error(
+                `Alt text must be at most ${MAX_ALT_TEXT_LENGTH} characters; use the long description for more`
+            );
+        }
+    }
+
+    const ordered = [...details].sort((a, b) => a.order - b.order);
+    const coverIndex = Math.max(
+        0,
+        ordered.findIndex((detail) => detail.isCover)
+    );
+
+    return ordered.map((detail, index) => ({
+        storageId: detail.storageId,
+        altText: detail.altText.trim(),
+        longDescription: trimmed(detail.longDescription),
+        caption: trimmed(detail.caption),
+        credit: trimmed(detail.credit),
+        order: index,
+        isCover: index === coverIndex
+    }));
+}
+
+// Entry fields for a set of photos: the metadata plus the plain id list the
+// rest of the backend works with
+export function photoFields(details: PhotoDetail[]): {
+    photos: Array<Id<'_storage'>>;
+    photoDetails: PhotoDetail[];
+} {
+    const photoDetails = normalizePhotoDetails(details);
+    return {
+        photos: photoDetails.map((detail) => detail.storageId),
+        photoDetails
+    };
+}
+
+/**
+ * An entry's photos with their metadata, in display order. Photos added
+ * before photo metadata existed get empty alt text.
+ */
+export function entryPhotoDetails(entry: {
+    photos?: Array<Id<'_storage'>>;
+    photoDetails?: PhotoDetail[];
+}): PhotoDetail[] {
+    const details = new Map(
+        (entry.photoDetails ?? []).map((detail) => [detail.storageId, detail])
+    );
+    const photos = entry.photos ?? [];
+    const hasCover = photos.some((id) => details.get(id)?.isCover);
+
+    return photos.map((storageId, index) => ({
+        ...(details.get(storageId) ?? { altText: '' }),
+        storageId,
+        order: index,
+        isCover: hasCover
+            ? (details.get(storageId)?.isCover ?? false)
+            : index === 0
+    }));
+}
+
+// Entry fields with some photos removed, keeping a cover photo if any remain
+export function withoutPhotos(
+    entry: { photos?: Array<Id<'_storage'>>; photoDetails?: PhotoDetail[] },
+    removed: Set<Id<'_storage'>>
+): { photos: Array<Id<'_storage'>>; photoDetails: PhotoDetail[] } {
+    const remaining = entryPhotoDetails(entry).filter(
+        (detail) => !removed.has(detail.storageId)
+    );
+    const hasCover = remaining.some((detail) => detail.isCover);
+
+    const photoDetails = remaining.map((detail, index) => ({
+        ...detail,
+        order: index,
+        isCover: hasCover ? detail.isCover : index === 0
+    }));
+    return {
+        photos: photoDetails.map((detail) => detail.storageId),
+        photoDetails
+    };
+}
@@ -1,6 +1,14 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
 import { isEntryComplete } from './entries';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { moveEntryToTrash } from './trash';
+import { loadEntryState, recordRevision } from './revisions';
+import { canEditEntry } from './permissions';
+import { claimEntryPhotos } from './storage';
+import { photoFields } from './photos';
+import { photoDetail } from './schema';
 
 // Get all places
 export const getPlaces = query({
@@ -12,6 +20,7 @@ export const getPlaces = query({
             .query('places')
             .withIndex('by_created')
             .order('desc')
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(args.limit ?? 50);
         return places.map((place) => ({
             ...place,
@@ -35,6 +44,7 @@ export const searchPlaces = query({
             .withSearchIndex('search_places', (q) =>
                 q.search('name', args.searchQuery)
             )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(20);
 
         return places.map((place) => ({
@@ -49,7 +59,9 @@ export const getPlace = query({
     args: { id: v.id('places') },
     handler: async (ctx, args) => {
         const place = await ctx.db.get(args.id);
-        return place ? { ...place, category: 'place' as const } : null;
+        return place && place.deletedAt === undefined
+            ? { ...place, category: 'place' as const }
+            : null;
     }
 });
 
@@ -66,7 +78,7 @@ export const createPlace = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         // Place-specific fields
         location: v.object({
             address: v.optional(v.string()),
@@ -89,20 +101,32 @@ export const createPlace = mutation({
             throw new Error('You must be logged in to create an entry');
         }
 
-        const { photos, accessibilityFeatures, tags, ...rest } = args;
+        const { photoDetails, accessibilityFeatures, tags, ...rest } = args;
         const now = Date.now();
         const newPlace = {
             ...rest,
-            photos: photos ?? [],
+            ...photoFields(photoDetails ?? []),
             createdBy: identity.subject,
             createdAt: now,
             updatedAt: now
         };
 
-        return await ctx.db.insert('places', {
+        const id = await ctx.db.insert('places', {
             ...newPlace,
             complete: isEntryComplete(newPlace, 'place')
         });
+
+        await claimEntryPhotos(
+            ctx,
+            identity.subject,
+            'place',
+            id,
+            newPlace.photos
+        );
+        await refreshSearchText(ctx, 'place', id);
+        await updateEntryStats(ctx, 'place', null, await ctx.db.get(id));
+        await recordRevision(ctx, 'place', id, 'create', null);
+        return id;
     }
 });
 
@@ -120,7 +144,7 @@ export const updatePlace = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         location: v.optional(
             v.object({
                 address: v.optional(v.string()),
@@ -141,27 +165,45 @@ export const updatePlace = mutation({
             throw new Error('You must be logged in to update an entry');
         }
 
-        const { id, ...updates } = args;
+        const { id, photoDetails, ...updates } = args;
         const existing = await ctx.db.get(id);
-        if (!existing) {
+        if (!existing || existing.deletedAt !== undefined) {
             throw new Error('Place not found');
         }
 
-        if (existing.createdBy && existing.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, existing))) {
             throw new Error('You can only edit entries you created');
         }
 
-        const updatedEntry = { ...existing, ...updates };
+        const photoUpdates = photoDetails && photoFields(photoDetails);
+        if (photoUpdates) {
+            await claimEntryPhotos(
+                ctx,
+                identity.subject,
+                'place',
+                id,
+                photoUpdates.photos,
+                existing.photos
+            );
+        }
+
+        const before = await loadEntryState(ctx, 'place', id);
+        const updatedEntry = { ...existing, ...updates, ...photoUpdates };
 
-        return await ctx.db.patch(id, {
+        await ctx.db.patch(id, {
             ...updates,
+            ...photoUpdates,
             complete: isEntryComplete(updatedEntry, 'place'),
             updatedAt: Date.now()
         });
+
+        await refreshSearchText(ctx, 'place', id);
+        await updateEntryStats(ctx, 'place', existing, await ctx.db.get(id));
+        await recordRevision(ctx, 'place', id, 'update', before);
     }
 });
 
-// Delete a place
+// Delete a place (moves it to the trash, restorable for 30 days)
 export const deletePlace = mutation({
     args: { id: v.id('places') },
     handler: async (ctx, args) => {
@@ -171,14 +213,14 @@ export const deletePlace = mutation({
         }
 
         const place = await ctx.db.get(args.id);
-        if (!place) {
+        if (!place || place.deletedAt !== undefined) {
             throw new Error('Place not found');
         }
 
-        if (place.createdBy && place.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, place))) {
             throw new Error('You can only delete entries you created');
         }
 
-        await ctx.db.delete(args.id);
+        await moveEntryToTrash(ctx, 'place', place, identity.subject);
     }
 });
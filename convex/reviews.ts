@@ -1,5 +1,26 @@
 import { v } from 'convex/values';
+import type { ObjectType } from 'convex/values';
 import { query, mutation } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import {
+    entryRefFields,
+    getEntryDoc,
+    normalizeEntryRef,
+    requireEntry,
+    requireEntryByKey,
+    toEntryKey
+} from './entryRefs';
+import { adjustEntryCounter } from './entryCounters';
+import {
+    adjustCommunityRating,
+    adjustFeatureConfirmations,
+    bayesianScore,
+    computeCommunityRating,
+    replaceCommunityRating
+} from './communityRatings';
+import { reviewContentFields } from './schema';
+import { deleteVotes, helpfulnessSort } from './votes';
 
 // Entry type validator
 const entryType = v.union(
@@ -10,83 +31,250 @@ const entryType = v.union(
     v.literal('service')
 );
 
-// Get reviews for an entry
+const MAX_TESTED_ON_LENGTH = 100;
+const MAX_ASSISTIVE_TECHNOLOGIES = 10;
+const MAX_ASSISTIVE_TECHNOLOGY_LENGTH = 50;
+
+function isRating(value: number): boolean {
+    return Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+type ReviewContent = ObjectType<typeof reviewContentFields>;
+
+// What the reviewer wrote, validated and trimmed. Feature reports must be
+// about features the entry has.
+async function reviewContent(
+    ctx: QueryCtx,
+    entryKey: string,
+    details: ReviewContent
+): Promise<ReviewContent> {
+    if (!isRating(details.rating)) {
+        throw new Error('Rating must be a whole number from 1 to 5');
+    }
+    const comment = details.comment.trim();
+    if (!comment) {
+        throw new Error('Review cannot be empty');
+    }
+
+    for (const rating of Object.values(details.dimensionRatings ?? {})) {
+        if (rating !== undefined && !isRating(rating)) {
+            throw new Error('Ratings must be whole numbers from 1 to 5');
+        }
+    }
+
+    const reported = new Set<string>();
+    for (const { featureId } of details.featureConfirmations ?? []) {
+        if (reported.has(featureId)) {
+            throw new Error('Each feature can only be reported once');
+        }
+        reported.add(featureId);
+
+        const assoc = await ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry_feature', (q) =>
+                q.eq('entryKey', entryKey).eq('featureId', featureId)
+            )
+            .unique();
+        if (!assoc) {
+            throw new Error('You can only report on features this entry has');
+        }
+    }
+
+    const testedOn = details.testedOn?.trim() || undefined;
+    if (testedOn && testedOn.length > MAX_TESTED_ON_LENGTH) {
+        throw new Error(
+            `Platform or version must be at most ${MAX_TESTED_ON_LENGTH} characters`
+        );
+    }
+
+    const assistiveTechnology = [
+        ...new Set(
+            (details.assistiveTechnology ?? [])
+                .map((name) => name.trim())
+                .filter(Boolean)
+        )
+    ];
+    if (
+        assistiveTechnology.length > MAX_ASSISTIVE_TECHNOLOGIES ||
+        assistiveTechnology.some(
+            (name) => name.length > MAX_ASSISTIVE_TECHNOLOGY_LENGTH
+        )
+    ) {
+        throw new Error(
+            `List at most ${MAX_ASSISTIVE_TECHNOLOGIES} assistive technologies of up to ${MAX_ASSISTIVE_TECHNOLOGY_LENGTH} characters each`
+        );
+    }
+
+    const ratings = details.dimensionRatings;
+    return {
+        rating: details.rating,
+        comment,
+        accessibilityType: details.accessibilityType,
+        dimensionRatings:
+            ratings && Object.values(ratings).some((r) => r !== undefined)
+                ? ratings
+                : undefined,
+        featureConfirmations: details.featureConfirmations?.length
+            ? details.featureConfirmations
+            : undefined,
+        testedOn,
+        assistiveTechnology: assistiveTechnology.length
+            ? assistiveTechnology
+            : undefined
+    };
+}
+
+// Get reviews for an entry, newest, oldest or most helpful first, with the
+// names of the features they report on
 export const getReviewsForEntry = query({
     args: {
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services'))
+        entryId: v.string(),
+        sort: v.optional(helpfulnessSort)
     },
     handler: async (ctx, args) => {
-        switch (args.entryType) {
-            case 'game':
-                if (!args.gameId) return [];
-                return await ctx.db
-                    .query('reviews')
-                    .withIndex('by_game', (q) => q.eq('gameId', args.gameId))
-                    .order('desc')
-                    .collect();
-            case 'hardware':
-                if (!args.hardwareId) return [];
-                return await ctx.db
-                    .query('reviews')
-                    .withIndex('by_hardware', (q) =>
-                        q.eq('hardwareId', args.hardwareId)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'place':
-                if (!args.placeId) return [];
-                return await ctx.db
-                    .query('reviews')
-                    .withIndex('by_place', (q) => q.eq('placeId', args.placeId))
-                    .order('desc')
-                    .collect();
-            case 'software':
-                if (!args.softwareId) return [];
-                return await ctx.db
-                    .query('reviews')
-                    .withIndex('by_software', (q) =>
-                        q.eq('softwareId', args.softwareId)
-                    )
-                    .order('desc')
-                    .collect();
-            case 'service':
-                if (!args.serviceId) return [];
-                return await ctx.db
-                    .query('reviews')
-                    .withIndex('by_service', (q) =>
-                        q.eq('serviceId', args.serviceId)
+        const entryKey = toEntryKey(args.entryType, args.entryId);
+        const reviews = await (
+            args.sort === 'helpful'
+                ? ctx.db
+                      .query('reviews')
+                      .withIndex('by_entry_helpful', (q) =>
+                          q.eq('entryKey', entryKey)
+                      )
+                : ctx.db
+                      .query('reviews')
+                      .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+        )
+            .order(args.sort === 'oldest' ? 'asc' : 'desc')
+            .collect();
+
+        const featureNames = new Map<string, string | null>();
+        return await Promise.all(
+            reviews.map(async (review) => ({
+                ...review,
+                featureConfirmations: await Promise.all(
+                    (review.featureConfirmations ?? []).map(
+                        async (confirmation) => {
+                            if (!featureNames.has(confirmation.featureId)) {
+                                const feature = await ctx.db.get(
+                                    confirmation.featureId
+                                );
+                                featureNames.set(
+                                    confirmation.featureId,
+                                    feature?.name ?? null
+                                );
+                            }
+                            return {
+                                ...confirmation,
+                                name: featureNames.get(confirmation.featureId)
+                            };
+                        }
                     )
-                    .order('desc')
-                    .collect();
+                )
+            }))
+        );
+    }
+});
+
+// Aggregated review ratings for an entry with their smoothed score, or null
+// if the entry doesn't exist
+export const getCommunityRating = query({
+    args: {
+        entryType: entryType,
+        entryId: v.string()
+    },
+    handler: async (ctx, args) => {
+        const ref = normalizeEntryRef(ctx, args.entryType, args.entryId);
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (!entry) {
+            return null;
         }
+
+        // Entries that predate the aggregate are computed on the fly
+        const rating =
+            entry.communityRating ??
+            (await computeCommunityRating(
+                ctx,
+                toEntryKey(args.entryType, entry._id)
+            ));
+        return { ...rating, score: bayesianScore(rating.overall) };
     }
 });
 
-// Add a review (requires authentication)
+// Replace a review's content, keeping the previous version in its history
+async function editReview(
+    ctx: MutationCtx,
+    review: Doc<'reviews'>,
+    entryKey: string,
+    content: ReviewContent
+): Promise<void> {
+    await ctx.db.insert('reviewRevisions', {
+        reviewId: review._id,
+        entryKey,
+        userId: review.userId,
+        rating: review.rating,
+        comment: review.comment,
+        accessibilityType: review.accessibilityType,
+        dimensionRatings: review.dimensionRatings,
+        featureConfirmations: review.featureConfirmations,
+        testedOn: review.testedOn,
+        assistiveTechnology: review.assistiveTechnology,
+        createdAt: review.updatedAt ?? review.createdAt,
+        replacedAt: Date.now()
+    });
+
+    await ctx.db.patch(review._id, { ...content, updatedAt: Date.now() });
+
+    const edited = { ...review, ...content };
+    await replaceCommunityRating(ctx, review, edited);
+    await adjustFeatureConfirmations(ctx, review, -1);
+    await adjustFeatureConfirmations(ctx, edited, 1);
+}
+
+// Load a review for its author to change
+async function requireOwnReview(
+    ctx: QueryCtx,
+    id: Id<'reviews'>,
+    action: 'edit' | 'delete'
+): Promise<Doc<'reviews'>> {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+        throw new Error(`You must be logged in to ${action} a review`);
+    }
+
+    const review = await ctx.db.get(id);
+    if (!review) {
+        throw new Error('Review not found');
+    }
+
+    if (review.userId !== identity.subject) {
+        throw new Error(`You can only ${action} your own reviews`);
+    }
+    await requireEntryByKey(ctx, review.entryKey);
+    return review;
+}
+
+// Delete a review's earlier versions
+async function deleteReviewRevisions(
+    ctx: MutationCtx,
+    reviewId: Id<'reviews'>
+): Promise<void> {
+    const revisions = await ctx.db
+        .query('reviewRevisions')
+        .withIndex('by_review', (q) => q.eq('reviewId', reviewId))
+        .collect();
+    for (const revision of revisions) {
+        await ctx.db.delete(revision._id);
+    }
+}
+
+// Add a review (requires authentication). Each user has one review per
+// entry, so reviewing the same entry again edits the existing review.
 export const addReview = mutation({
     args: {
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services')),
-        rating: v.number(),
-        comment: v.string(),
-        accessibilityType: v.optional(
-            v.union(
-                v.literal('visual'),
-                v.literal('auditory'),
-                v.literal('motor'),
-                v.literal('cognitive'),
-                v.literal('general')
-            )
-        )
+        entryId: v.string(),
+        ...reviewContentFields
     },
     handler: async (ctx, args) => {
         const identity = await ctx.auth.getUserIdentity();
@@ -94,40 +282,84 @@ export const addReview = mutation({
             throw new Error('You must be logged in to add a review');
         }
 
-        return await ctx.db.insert('reviews', {
-            entryType: args.entryType,
-            gameId: args.gameId,
-            hardwareId: args.hardwareId,
-            placeId: args.placeId,
-            softwareId: args.softwareId,
-            serviceId: args.serviceId,
-            rating: args.rating,
-            comment: args.comment,
-            accessibilityType: args.accessibilityType,
+        const { entryType, entryId, ...details } = args;
+        const entry = await requireEntry(ctx, entryType, entryId);
+        const entryKey = toEntryKey(entryType, entry._id);
+        const content = await reviewContent(ctx, entryKey, details);
+
+        // first() rather than unique() so reviews duplicated before the
+        // one-per-user rule don't make the entry unreviewable
+        const existing = await ctx.db
+            .query('reviews')
+            .withIndex('by_user_entry', (q) =>
+                q.eq('userId', identity.subject).eq('entryKey', entryKey)
+            )
+            .first();
+        if (existing) {
+            await editReview(ctx, existing, entryKey, content);
+            return existing._id;
+        }
+
+        const review = {
+            ...entryRefFields(entryType, entry._id),
+            ...content,
             userId: identity.subject,
+            userName: identity.name ?? undefined,
+            userImage: identity.pictureUrl ?? undefined,
             createdAt: Date.now()
-        });
+        };
+        const id = await ctx.db.insert('reviews', review);
+
+        await adjustEntryCounter(ctx, entryKey, 'reviewCount', 1);
+        await adjustCommunityRating(ctx, review, 1);
+        await adjustFeatureConfirmations(ctx, review, 1);
+        return id;
     }
 });
 
-// Delete a review (requires authentication - only owner can delete)
-export const deleteReview = mutation({
-    args: { id: v.id('reviews') },
+// Edit a review (requires authentication - only owner can edit). The
+// previous version is kept in the review's history.
+export const updateReview = mutation({
+    args: {
+        id: v.id('reviews'),
+        ...reviewContentFields
+    },
     handler: async (ctx, args) => {
-        const identity = await ctx.auth.getUserIdentity();
-        if (!identity) {
-            throw new Error('You must be logged in to delete a review');
-        }
+        const { id, ...details } = args;
+        const review = await requireOwnReview(ctx, id, 'edit');
 
-        const review = await ctx.db.get(args.id);
-        if (!review) {
+        if (!review.entryKey) {
             throw new Error('Review not found');
         }
 
-        if (review.userId !== identity.subject) {
-            throw new Error('You can only delete your own reviews');
-        }
+        const content = await reviewContent(ctx, review.entryKey, details);
+        await editReview(ctx, review, review.entryKey, content);
+    }
+});
+
+// Earlier versions of a review, most recently replaced first
+export const getReviewHistory = query({
+    args: { reviewId: v.id('reviews') },
+    handler: async (ctx, args) => {
+        return await ctx.db
+            .query('reviewRevisions')
+            .withIndex('by_review', (q) => q.eq('reviewId', args.reviewId))
+            .order('desc')
+            .collect();
+    }
+});
+
+// Delete a review (requires authentication - only owner can delete)
+export const deleteReview = mutation({
+    args: { id: v.id('reviews') },
+    handler: async (ctx, args) => {
+        const review = await requireOwnReview(ctx, args.id, 'delete');
 
         await ctx.db.delete(args.id);
+        await deleteReviewRevisions(ctx, args.id);
+        await deleteVotes(ctx, args.id);
+        await adjustEntryCounter(ctx, review.entryKey, 'reviewCount', -1);
+        await adjustCommunityRating(ctx, review, -1);
+        await adjustFeatureConfirmations(ctx, review, -1);
     }
 });
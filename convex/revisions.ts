@@ -0,0 +1,324 @@
+import { v } from 'convex/values';
+import { paginationOptsValidator } from 'convex/server';
+import { mutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { isEntryComplete } from './entries';
+import type { AnyEntry, Category } from './entries';
+import {
+    getEntryDoc,
+    normalizeEntryRef,
+    parseEntryKey,
+    toEntryKey
+} from './entryRefs';
+import { replaceEntryFeatures } from './features';
+import { canEditEntry } from './permissions';
+import { withoutPhotos } from './photos';
+import type { PhotoDetail } from './photos';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { replaceEntryTags } from './tags';
+
+export type RevisionAction =
+    | 'create'
+    | 'update'
+    | 'tags'
+    | 'features'
+    | 'revert';
+
+// Entry fields that are derived or bookkeeping rather than content, so they
+// are neither snapshotted nor diffed
+const untrackedFields = new Set([
+    '_id',
+    '_creationTime',
+    'category',
+    'createdBy',
+    'createdAt',
+    'updatedAt',
+    'complete',
+    'searchText',
+    'reviewCount',
+    'commentCount',
+    'communityRating',
+    'communityScore',
+    'deletedAt',
+    'deletedBy'
+]);
+
+interface EntryFeatureState {
+    featureId: Id<'accessibilityFeatures'>;
+    rating: number;
+    notes?: string;
+}
+
+// Everything a revision can restore: the entry's content fields plus its
+// tag and feature associations
+export interface EntryState {
+    fields: Record<string, unknown>;
+    tagIds: Array<Id<'tags'>>;
+    features: EntryFeatureState[];
+}
+
+interface FieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+function contentFields(entry: AnyEntry): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(entry).filter(([field]) => !untrackedFields.has(field))
+    );
+}
+
+// Current state of an entry, or null if it doesn't exist
+export async function loadEntryState(
+    ctx: QueryCtx,
+    entryType: Category,
+    entryId: string
+): Promise<EntryState | null> {
+    const ref = normalizeEntryRef(ctx, entryType, entryId);
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entry) return null;
+
+    const entryKey = toEntryKey(entryType, entryId);
+    const [entryTags, entryFeatures] = await Promise.all([
+        ctx.db
+            .query('entryTags')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect(),
+        ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect()
+    ]);
+
+    return {
+        fields: contentFields(entry),
+        tagIds: entryTags.map((assoc) => assoc.tagId).sort(),
+        features: entryFeatures
+            .map(({ featureId, rating, notes }) => ({
+                featureId,
+                rating,
+                notes
+            }))
+            .sort((a, b) => a.featureId.localeCompare(b.featureId))
+    };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Field-level changes between two states. Tag and feature changes are
+// recorded by name so the history stays readable if they're renamed later.
+async function diffStates(
+    ctx: QueryCtx,
+    before: EntryState | null,
+    after: EntryState
+): Promise<FieldChange[]> {
+    const changes: FieldChange[] = [];
+
+    const fields = new Set([
+        ...Object.keys(before?.fields ?? {}),
+        ...Object.keys(after.fields)
+    ]);
+    for (const field of [...fields].sort()) {
+        const previous = before?.fields[field];
+        const current = after.fields[field];
+        if (!isEqual(previous, current)) {
+            changes.push({ field, before: previous, after: current });
+        }
+    }
+
+    if (!isEqual(before?.tagIds ?? [], after.tagIds)) {
+        const tagName = async (id: Id<'tags'>) =>
+            (await ctx.db.get(id))?.name ?? 'Deleted tag';
+        changes.push({
+            field: 'tags',
+            before: await Promise.all((before?.tagIds ?? []).map(tagName)),
+            after: await Promise.all(after.tagIds.map(tagName))
+        });
+    }
+
+    if (!isEqual(before?.features ?? [], after.features)) {
+        const describe = async ({ featureId, rating }: EntryFeatureState) =>
+            `${(await ctx.db.get(featureId))?.name ?? 'Deleted feature'} (${rating}/5)`;
+        changes.push({
+            field: 'features',
+            before: await Promise.all((before?.features ?? []).map(describe)),
+            after: await Promise.all(after.features.map(describe))
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Records a revision after an entry write. Pass the state captured with
+ * loadEntryState before the write (null on create). Writes that changed
+ * nothing are not recorded.
+ */
+export async function recordRevision(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    action: RevisionAction,
+    before: EntryState | null,
+    revertedFrom?: Id<'entryRevisions'>
+): Promise<void> {
+    const after = await loadEntryState(ctx, entryType, entryId);
+    if (!after) return;
+
+    const changes = await diffStates(ctx, before, after);
+    if (changes.length === 0) return;
+
+    const identity = await ctx.auth.getUserIdentity();
+    await ctx.db.insert('entryRevisions', {
+        entryType,
+        entryKey: toEntryKey(entryType, entryId),
+        action,
+        userId: identity?.subject,
+        userName: identity?.name ?? undefined,
+        snapshot: after,
+        changes,
+        revertedFrom,
+        createdAt: Date.now()
+    });
+}
+
+// ============================================
+// REVISION QUERIES
+// ============================================
+
+// Paginated revision history for an entry, newest first
+export const getRevisionsForEntry = query({
+    args: {
+        entryType: v.union(
+            v.literal('game'),
+            v.literal('hardware'),
+            v.literal('place'),
+            v.literal('software'),
+            v.literal('service')
+        ),
+        entryId: v.string(),
+        paginationOpts: paginationOptsValidator
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query('entryRevisions')
+            .withIndex('by_entry', (q) =>
+                q.eq('entryKey', toEntryKey(args.entryType, args.entryId))
+            )
+            .order('desc')
+            .paginate(args.paginationOpts);
+
+        // Snapshots are only needed to revert, so keep the payload small
+        return {
+            ...result,
+            page: result.page.map(({ snapshot, ...revision }) => revision)
+        };
+    }
+});
+
+// ============================================
+// REVISION MUTATIONS
+// ============================================
+
+// Restore an entry's fields, tags and features to how they were after a
+// revision (requires authentication - owner or moderator only).
+// The revert is itself recorded as a new revision.
+export const revertToRevision = mutation({
+    args: { revisionId: v.id('entryRevisions') },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            throw new Error('You must be logged in to revert an entry');
+        }
+
+        const revision = await ctx.db.get(args.revisionId);
+        if (!revision) {
+            throw new Error('Revision not found');
+        }
+
+        const parsed = parseEntryKey(revision.entryKey);
+        if (!parsed) {
+            throw new Error('Revision not found');
+        }
+        const { entryId } = parsed;
+        const ref = normalizeEntryRef(ctx, revision.entryType, entryId);
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (!entry) {
+            throw new Error('Entry not found');
+        }
+        // Trashed entries are out of the stats, which the revert updates
+        if (entry.deletedAt !== undefined) {
+            throw new Error('Restore this entry from the trash to revert it');
+        }
+
+        if (!(await canEditEntry(ctx, identity, entry))) {
+            throw new Error('You can only revert entries you created');
+        }
+
+        const before = await loadEntryState(ctx, revision.entryType, entryId);
+        const snapshot = revision.snapshot as EntryState;
+
+        // Fields added since the revision are cleared
+        const fields: Record<string, unknown> = {};
+        for (const field of Object.keys(before?.fields ?? {})) {
+            fields[field] = undefined;
+        }
+        Object.assign(fields, snapshot.fields);
+
+        // Photos deleted since the revision can't be restored
+        const snapshotPhotos = {
+            photos: fields.photos as Array<Id<'_storage'>> | undefined,
+            photoDetails: fields.photoDetails as PhotoDetail[] | undefined
+        };
+        const deletedPhotos = new Set<Id<'_storage'>>();
+        for (const storageId of snapshotPhotos.photos ?? []) {
+            if (!(await ctx.db.system.get(storageId))) {
+                deletedPhotos.add(storageId);
+            }
+        }
+        if (deletedPhotos.size > 0) {
+            Object.assign(fields, withoutPhotos(snapshotPhotos, deletedPhotos));
+        }
+
+        const restored = { ...entry, ...fields };
+        await ctx.db.patch(entry._id, {
+            ...(fields as Partial<Doc<'games'>>),
+            complete: isEntryComplete(restored, revision.entryType),
+            updatedAt: Date.now()
+        });
+
+        // Tags and features deleted since the revision can't be restored
+        const tagIds: Array<Id<'tags'>> = [];
+        for (const tagId of snapshot.tagIds) {
+            if (await ctx.db.get(tagId)) tagIds.push(tagId);
+        }
+        const features: EntryFeatureState[] = [];
+        for (const feature of snapshot.features) {
+            if (await ctx.db.get(feature.featureId)) features.push(feature);
+        }
+
+        await replaceEntryTags(ctx, revision.entryType, entryId, tagIds);
+        await replaceEntryFeatures(ctx, revision.entryType, entryId, features);
+
+        await refreshSearchText(ctx, revision.entryType, entryId);
+        await updateEntryStats(
+            ctx,
+            revision.entryType,
+            entry,
+            await ctx.db.get(entry._id)
+        );
+        await recordRevision(
+            ctx,
+            revision.entryType,
+            entryId,
+            'revert',
+            before,
+            revision._id
+        );
+    }
+});
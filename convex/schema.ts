@@ -19,6 +19,27 @@ export const entryType = v.union(
     v.literal('service')
 );
 
+// Review state of user-created tags and features (see permissions.ts)
+const taxonomyStatus = v.union(v.literal('approved'), v.literal('proposed'));
+
+// User roles, in increasing order of privilege (see permissions.ts)
+export const userRole = v.union(
+    v.literal('user'),
+    v.literal('contributor'),
+    v.literal('moderator'),
+    v.literal('admin')
+);
+
+// Legacy per-type entry references, superseded by entryKey (`<type>:<id>`,
+// see entryRefs.ts). No longer written; kept so existing rows validate.
+const legacyEntryRefFields = {
+    gameId: v.optional(v.id('games')),
+    hardwareId: v.optional(v.id('hardware')),
+    placeId: v.optional(v.id('places')),
+    softwareId: v.optional(v.id('software')),
+    serviceId: v.optional(v.id('services'))
+};
+
 // Shared accessibility fields used across all entry types
 // Now uses references to the normalized tags and features tables
 const accessibilityFields = {
@@ -31,16 +52,122 @@ const accessibilityFields = {
     cognitiveAccessibility: v.optional(v.number())
 };
 
+// Descriptive metadata for one entry photo (see photos.ts)
+export const photoDetail = v.object({
+    storageId: v.id('_storage'),
+    altText: v.string(),
+    longDescription: v.optional(v.string()),
+    caption: v.optional(v.string()),
+    credit: v.optional(v.string()),
+    order: v.number(),
+    isCover: v.boolean()
+});
+
+// A resized WebP copy of an uploaded image (see imageProcessing.ts)
+export const imageVariant = v.object({
+    storageId: v.id('_storage'),
+    width: v.number(),
+    height: v.number(),
+    fileSize: v.number()
+});
+
+// A review's ratings for individual accessibility dimensions
+export const dimensionRatings = v.object({
+    visual: v.optional(v.number()),
+    auditory: v.optional(v.number()),
+    motor: v.optional(v.number()),
+    cognitive: v.optional(v.number())
+});
+
+// A reviewer's report on one of an entry's accessibility features
+export const featureConfirmation = v.object({
+    featureId: v.id('accessibilityFeatures'),
+    status: v.union(v.literal('works'), v.literal('broken'))
+});
+
+// What a reviewer writes, shared by reviews and their earlier versions
+export const reviewContentFields = {
+    rating: v.number(),
+    comment: v.string(),
+    // The accessibility need the review is mainly about
+    accessibilityType: v.optional(accessibilityType),
+    // Optional 1-5 ratings for each accessibility dimension
+    dimensionRatings: v.optional(dimensionRatings),
+    // Whether the entry's features worked for the reviewer
+    featureConfirmations: v.optional(v.array(featureConfirmation)),
+    // Platform or version the reviewer used, e.g. "PS5" or "v2.3"
+    testedOn: v.optional(v.string()),
+    // e.g. "NVDA", "switch access", "hearing aids"
+    assistiveTechnology: v.optional(v.array(v.string()))
+};
+
+// Helpfulness votes on a review or comment (see votes.ts). Missing means no
+// votes.
+const helpfulnessFields = {
+    helpfulCount: v.optional(v.number()),
+    unhelpfulCount: v.optional(v.number()),
+    // Lower bound of the helpful share, for ranking
+    helpfulScore: v.optional(v.number())
+};
+
+// Count, sum and per-star counts of a set of review ratings
+const ratingSummary = v.object({
+    count: v.number(),
+    sum: v.number(),
+    // distribution[n - 1] = reviews rating n stars
+    distribution: v.array(v.number())
+});
+
+// Review ratings for an entry, overall and per accessibility type (see
+// communityRatings.ts)
+export const communityRating = v.object({
+    overall: ratingSummary,
+    byAccessibilityType: v.object({
+        visual: v.optional(ratingSummary),
+        auditory: v.optional(ratingSummary),
+        motor: v.optional(ratingSummary),
+        cognitive: v.optional(ratingSummary),
+        general: v.optional(ratingSummary)
+    }),
+    // Summaries of reviews' dimension ratings. Missing on aggregates built
+    // before reviews had dimensions, which is the same as no ratings.
+    byDimension: v.optional(
+        v.object({
+            visual: v.optional(ratingSummary),
+            auditory: v.optional(ratingSummary),
+            motor: v.optional(ratingSummary),
+            cognitive: v.optional(ratingSummary)
+        })
+    )
+});
+
 // Shared base fields for all entries
 const baseEntryFields = {
     name: v.string(),
     description: v.string(),
+    // Photo ids in display order, derived from photoDetails
     photos: v.optional(v.array(v.id('_storage'))),
+    // Missing for photos added before photo metadata existed
+    photoDetails: v.optional(v.array(photoDetail)),
     website: v.optional(v.string()),
     createdBy: v.optional(v.string()),
     createdAt: v.number(),
     updatedAt: v.number(),
     complete: v.boolean(),
+    // Denormalized text for full-text search (see searchText.ts)
+    // Optional until the searchText backfill has run on existing entries
+    searchText: v.optional(v.string()),
+    // Denormalized counts for sorting (see entryCounters.ts)
+    // Optional until the entry counts backfill has run on existing entries
+    reviewCount: v.optional(v.number()),
+    commentCount: v.optional(v.number()),
+    // Aggregated review ratings and their smoothed score, for sorting
+    // Optional until the community rating backfill has run on existing entries
+    communityRating: v.optional(communityRating),
+    communityScore: v.optional(v.number()),
+    // Set while the entry is in the trash (see trash.ts)
+    deletedAt: v.optional(v.number()),
+    deletedBy: v.optional(v.string()),
     ...accessibilityFields
 };
 
@@ -56,9 +183,22 @@ export default defineSchema({
         genres: v.optional(v.array(v.string()))
     })
         .index('by_rating', ['overallRating'])
+        .index('by_visual', ['visualAccessibility'])
+        .index('by_auditory', ['auditoryAccessibility'])
+        .index('by_motor', ['motorAccessibility'])
+        .index('by_cognitive', ['cognitiveAccessibility'])
+        .index('by_review_count', ['reviewCount'])
+        .index('by_comment_count', ['commentCount'])
+        .index('by_community_score', ['communityScore'])
         .index('by_created', ['createdAt'])
+        .index('by_updated', ['updatedAt'])
+        .index('by_name', ['name'])
+        .index('by_deleted', ['deletedAt'])
         .searchIndex('search_games', {
             searchField: 'name'
+        })
+        .searchIndex('search_games_text', {
+            searchField: 'searchText'
         }),
 
     // Hardware table
@@ -71,9 +211,22 @@ export default defineSchema({
         compatibility: v.optional(v.array(v.string())) // e.g., ['PC', 'Xbox', 'PlayStation']
     })
         .index('by_rating', ['overallRating'])
+        .index('by_visual', ['visualAccessibility'])
+        .index('by_auditory', ['auditoryAccessibility'])
+        .index('by_motor', ['motorAccessibility'])
+        .index('by_cognitive', ['cognitiveAccessibility'])
+        .index('by_review_count', ['reviewCount'])
+        .index('by_comment_count', ['commentCount'])
+        .index('by_community_score', ['communityScore'])
         .index('by_created', ['createdAt'])
+        .index('by_updated', ['updatedAt'])
+        .index('by_name', ['name'])
+        .index('by_deleted', ['deletedAt'])
         .searchIndex('search_hardware', {
             searchField: 'name'
+        })
+        .searchIndex('search_hardware_text', {
+            searchField: 'searchText'
         }),
 
     // Places table
@@ -93,9 +246,22 @@ export default defineSchema({
         hasAccessibleRestroom: v.optional(v.boolean())
     })
         .index('by_rating', ['overallRating'])
+        .index('by_visual', ['visualAccessibility'])
+        .index('by_auditory', ['auditoryAccessibility'])
+        .index('by_motor', ['motorAccessibility'])
+        .index('by_cognitive', ['cognitiveAccessibility'])
+        .index('by_review_count', ['reviewCount'])
+        .index('by_comment_count', ['commentCount'])
+        .index('by_community_score', ['communityScore'])
         .index('by_created', ['createdAt'])
+        .index('by_updated', ['updatedAt'])
+        .index('by_name', ['name'])
+        .index('by_deleted', ['deletedAt'])
         .searchIndex('search_places', {
             searchField: 'name'
+        })
+        .searchIndex('search_places_text', {
+            searchField: 'searchText'
         }),
 
     // Software table
@@ -111,9 +277,22 @@ export default defineSchema({
         hasHighContrastMode: v.optional(v.boolean())
     })
         .index('by_rating', ['overallRating'])
+        .index('by_visual', ['visualAccessibility'])
+        .index('by_auditory', ['auditoryAccessibility'])
+        .index('by_motor', ['motorAccessibility'])
+        .index('by_cognitive', ['cognitiveAccessibility'])
+        .index('by_review_count', ['reviewCount'])
+        .index('by_comment_count', ['commentCount'])
+        .index('by_community_score', ['communityScore'])
         .index('by_created', ['createdAt'])
+        .index('by_updated', ['updatedAt'])
+        .index('by_name', ['name'])
+        .index('by_deleted', ['deletedAt'])
         .searchIndex('search_software', {
             searchField: 'name'
+        })
+        .searchIndex('search_software_text', {
+            searchField: 'searchText'
         }),
 
     // Services table
@@ -127,63 +306,165 @@ export default defineSchema({
         hasSignLanguageSupport: v.optional(v.boolean())
     })
         .index('by_rating', ['overallRating'])
+        .index('by_visual', ['visualAccessibility'])
+        .index('by_auditory', ['auditoryAccessibility'])
+        .index('by_motor', ['motorAccessibility'])
+        .index('by_cognitive', ['cognitiveAccessibility'])
+        .index('by_review_count', ['reviewCount'])
+        .index('by_comment_count', ['commentCount'])
+        .index('by_community_score', ['communityScore'])
         .index('by_created', ['createdAt'])
+        .index('by_updated', ['updatedAt'])
+        .index('by_name', ['name'])
+        .index('by_deleted', ['deletedAt'])
         .searchIndex('search_services', {
             searchField: 'name'
+        })
+        .searchIndex('search_services_text', {
+            searchField: 'searchText'
         }),
 
     // User reviews/ratings - now with polymorphic entry reference
     reviews: defineTable({
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services')),
+        entryKey: v.optional(v.string()), // Optional until the entryKey backfill has run
+        ...legacyEntryRefFields,
         userId: v.string(),
-        rating: v.number(),
-        comment: v.string(),
-        accessibilityType: v.optional(
-            v.union(
-                v.literal('visual'),
-                v.literal('auditory'),
-                v.literal('motor'),
-                v.literal('cognitive'),
-                v.literal('general')
-            )
-        ),
-        createdAt: v.number()
+        userName: v.optional(v.string()),
+        userImage: v.optional(v.string()),
+        ...reviewContentFields,
+        createdAt: v.number(),
+        // Set when the reviewer last edited the review
+        updatedAt: v.optional(v.number()),
+        ...helpfulnessFields
     })
-        .index('by_game', ['gameId'])
-        .index('by_hardware', ['hardwareId'])
-        .index('by_place', ['placeId'])
-        .index('by_software', ['softwareId'])
-        .index('by_service', ['serviceId'])
-        .index('by_user', ['userId']),
+        .index('by_entry', ['entryKey'])
+        .index('by_user', ['userId'])
+        .index('by_user_entry', ['userId', 'entryKey'])
+        .index('by_entry_helpful', ['entryKey', 'helpfulScore']),
+
+    // Earlier versions of edited reviews, one row per edit (see reviews.ts)
+    reviewRevisions: defineTable({
+        reviewId: v.id('reviews'),
+        entryKey: v.string(),
+        userId: v.string(),
+        ...reviewContentFields,
+        // When this version was written and when an edit replaced it
+        createdAt: v.number(),
+        replacedAt: v.number()
+    })
+        .index('by_review', ['reviewId', 'replacedAt'])
+        .index('by_entry', ['entryKey']),
 
     // Comments for entries - now with polymorphic entry reference
     comments: defineTable({
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services')),
+        entryKey: v.optional(v.string()), // Optional until the entryKey backfill has run
+        ...legacyEntryRefFields,
         userId: v.string(),
         userName: v.optional(v.string()),
         userImage: v.optional(v.string()),
         content: v.string(),
         photo: v.optional(v.id('_storage')),
+        // Required whenever there is a photo
+        photoAltText: v.optional(v.string()),
+        // The comment this replies to, on the same entry
+        parentId: v.optional(v.id('comments')),
+        // Direct replies. Missing means none.
+        replyCount: v.optional(v.number()),
+        // Set when a comment with replies is deleted. Its content is cleared
+        // and it stays as a "[deleted]" placeholder so the replies keep their
+        // place in the thread.
+        deletedAt: v.optional(v.number()),
         createdAt: v.number(),
-        updatedAt: v.optional(v.number())
+        updatedAt: v.optional(v.number()),
+        ...helpfulnessFields
     })
-        .index('by_game', ['gameId'])
-        .index('by_hardware', ['hardwareId'])
-        .index('by_place', ['placeId'])
-        .index('by_software', ['softwareId'])
-        .index('by_service', ['serviceId'])
+        .index('by_entry', ['entryKey'])
+        .index('by_parent', ['parentId'])
+        // Top-level comments have no parentId
+        .index('by_entry_parent', ['entryKey', 'parentId'])
+        .index('by_entry_parent_helpful', [
+            'entryKey',
+            'parentId',
+            'helpfulScore'
+        ])
         .index('by_user', ['userId'])
-        .index('by_created', ['createdAt']),
+        .index('by_created', ['createdAt'])
+        .index('by_photo', ['photo']),
+
+    // One helpful / not helpful vote per user per review or comment
+    votes: defineTable({
+        targetId: v.union(v.id('reviews'), v.id('comments')),
+        // The entry the review or comment is on
+        entryKey: v.string(),
+        userId: v.string(),
+        helpful: v.boolean(),
+        createdAt: v.number(),
+        updatedAt: v.optional(v.number())
+    })
+        .index('by_target', ['targetId'])
+        .index('by_user_target', ['userId', 'targetId'])
+        .index('by_user_entry', ['userId', 'entryKey'])
+        .index('by_entry', ['entryKey']),
+
+    // Entry history: one row per create, update, tag/feature change or
+    // revert, with a snapshot of the entry afterwards (see revisions.ts)
+    entryRevisions: defineTable({
+        entryType: entryType,
+        entryKey: v.string(),
+        action: v.union(
+            v.literal('create'),
+            v.literal('update'),
+            v.literal('tags'),
+            v.literal('features'),
+            v.literal('revert')
+        ),
+        userId: v.optional(v.string()),
+        userName: v.optional(v.string()),
+        // Content fields, tag ids and feature ratings after the change
+        snapshot: v.object({
+            fields: v.any(),
+            tagIds: v.array(v.id('tags')),
+            features: v.array(
+                v.object({
+                    featureId: v.id('accessibilityFeatures'),
+                    rating: v.number(),
+                    notes: v.optional(v.string())
+                })
+            )
+        }),
+        // Field-level diff against the previous state
+        changes: v.array(
+            v.object({
+                field: v.string(),
+                before: v.optional(v.any()),
+                after: v.optional(v.any())
+            })
+        ),
+        revertedFrom: v.optional(v.id('entryRevisions')),
+        createdAt: v.number()
+    }).index('by_entry', ['entryKey', 'createdAt']),
+
+    // Granted roles. Users without a row have the default 'user' role.
+    users: defineTable({
+        userId: v.string(),
+        role: userRole,
+        grantedBy: v.string(),
+        updatedAt: v.number()
+    })
+        .index('by_user_id', ['userId'])
+        .index('by_role', ['role']),
+
+    // Per-category entry counts, maintained by every entry write (see
+    // stats.ts) so counting never scans the entry tables
+    stats: defineTable({
+        category: entryType,
+        total: v.number(),
+        complete: v.number(),
+        // ratingBuckets[n - 1] = entries with an overall rating of n
+        ratingBuckets: v.array(v.number())
+    }).index('by_category', ['category']),
 
     uploadedFiles: defineTable({
         storageId: v.id('_storage'),
@@ -193,11 +474,44 @@ export default defineSchema({
         fileSize: v.number(),
         associatedEntryType: v.optional(entryType),
         associatedEntryId: v.optional(v.string()),
+        // Dimensions, responsive variants and a tiny inline preview. Missing
+        // for files uploaded before images were processed.
+        width: v.optional(v.number()),
+        height: v.optional(v.number()),
+        variants: v.optional(v.array(imageVariant)),
+        blurDataUrl: v.optional(v.string()),
         createdAt: v.number()
     })
         .index('by_user', ['userId'])
         .index('by_storage_id', ['storageId'])
-        .index('by_entry', ['associatedEntryType', 'associatedEntryId']),
+        .index('by_entry', ['associatedEntryType', 'associatedEntryId'])
+        .index('by_created', ['createdAt']),
+
+    // Upload URLs handed out whose upload hasn't been finalized yet. Each
+    // counts as a file of MAX_UPLOAD_BYTES towards its user's quota until
+    // finalizeUpload runs or the cleanup deletes what was uploaded to it (see
+    // storage.ts and uploadCleanup.ts).
+    pendingUploads: defineTable({
+        userId: v.string(),
+        createdAt: v.number()
+    })
+        .index('by_user', ['userId'])
+        .index('by_created', ['createdAt']),
+
+    // One row per orphaned-upload cleanup run (see uploadCleanup.ts)
+    uploadCleanupRuns: defineTable({
+        startedAt: v.number(),
+        finishedAt: v.optional(v.number()),
+        filesDeleted: v.number(),
+        bytesReclaimed: v.number()
+    }).index('by_started', ['startedAt']),
+
+    // Data migrations that have finished (see migrations.ts), for jobs that
+    // must wait on a backfill
+    migrations: defineTable({
+        name: v.string(),
+        finishedAt: v.number()
+    }).index('by_name', ['name']),
 
     // ============================================
     // NORMALIZED TAGS AND FEATURES TABLES
@@ -210,9 +524,15 @@ export default defineSchema({
         description: v.optional(v.string()),
         accessibilityType: accessibilityType, // visual, auditory, motor, cognitive, general
         createdAt: v.number(),
-        usageCount: v.number() // Track how many entries use this tag
+        usageCount: v.number(), // Track how many entries use this tag
+        // New tags from non-moderators stay 'proposed' until a moderator
+        // approves them. Missing means approved (tags created before
+        // governance).
+        status: v.optional(taxonomyStatus),
+        createdBy: v.optional(v.string())
     })
         .index('by_slug', ['slug'])
+        .index('by_status', ['status'])
         .index('by_accessibility_type', ['accessibilityType'])
         .index('by_usage_count', ['usageCount'])
         .searchIndex('search_tags', {
@@ -227,9 +547,15 @@ export default defineSchema({
         description: v.optional(v.string()),
         accessibilityType: accessibilityType, // visual, auditory, motor, cognitive, general
         createdAt: v.number(),
-        usageCount: v.number() // Track how many entries use this feature
+        usageCount: v.number(), // Track how many entries use this feature
+        // New features from non-moderators stay 'proposed' until a moderator
+        // approves them. Missing means approved (features created before
+        // governance).
+        status: v.optional(taxonomyStatus),
+        createdBy: v.optional(v.string())
     })
         .index('by_slug', ['slug'])
+        .index('by_status', ['status'])
         .index('by_accessibility_type', ['accessibilityType'])
         .index('by_usage_count', ['usageCount'])
         .searchIndex('search_features', {
@@ -241,53 +567,35 @@ export default defineSchema({
     entryTags: defineTable({
         // Polymorphic entry reference
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services')),
+        entryKey: v.optional(v.string()), // Optional until the entryKey backfill has run
+        ...legacyEntryRefFields,
         // Tag reference
         tagId: v.id('tags'),
         createdAt: v.number()
     })
         .index('by_tag', ['tagId'])
-        .index('by_game', ['gameId'])
-        .index('by_hardware', ['hardwareId'])
-        .index('by_place', ['placeId'])
-        .index('by_software', ['softwareId'])
-        .index('by_service', ['serviceId'])
-        .index('by_game_tag', ['gameId', 'tagId'])
-        .index('by_hardware_tag', ['hardwareId', 'tagId'])
-        .index('by_place_tag', ['placeId', 'tagId'])
-        .index('by_software_tag', ['softwareId', 'tagId'])
-        .index('by_service_tag', ['serviceId', 'tagId']),
+        .index('by_entry', ['entryKey'])
+        .index('by_entry_tag', ['entryKey', 'tagId']),
 
     // Junction table: Entry <-> Accessibility Feature (many-to-many with rating)
     entryFeatures: defineTable({
         // Polymorphic entry reference
         entryType: entryType,
-        gameId: v.optional(v.id('games')),
-        hardwareId: v.optional(v.id('hardware')),
-        placeId: v.optional(v.id('places')),
-        softwareId: v.optional(v.id('software')),
-        serviceId: v.optional(v.id('services')),
+        entryKey: v.optional(v.string()), // Optional until the entryKey backfill has run
+        ...legacyEntryRefFields,
         // Feature reference
         featureId: v.id('accessibilityFeatures'),
         // Entry-specific rating for this feature (1-5)
         rating: v.number(),
         // Optional entry-specific notes about this feature
         notes: v.optional(v.string()),
+        // Reviews reporting that the feature works or is broken (see
+        // communityRatings.ts). Missing means none.
+        worksCount: v.optional(v.number()),
+        brokenCount: v.optional(v.number()),
         createdAt: v.number()
     })
         .index('by_feature', ['featureId'])
-        .index('by_game', ['gameId'])
-        .index('by_hardware', ['hardwareId'])
-        .index('by_place', ['placeId'])
-        .index('by_software', ['softwareId'])
-        .index('by_service', ['serviceId'])
-        .index('by_game_feature', ['gameId', 'featureId'])
-        .index('by_hardware_feature', ['hardwareId', 'featureId'])
-        .index('by_place_feature', ['placeId', 'featureId'])
-        .index('by_software_feature', ['softwareId', 'featureId'])
-        .index('by_service_feature', ['serviceId', 'featureId'])
+        .index('by_entry', ['entryKey'])
+        .index('by_entry_feature', ['entryKey', 'featureId'])
 });
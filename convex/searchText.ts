@@ -0,0 +1,143 @@
+import type { MutationCtx } from './_generated/server';
+import type { AnyEntry, Category } from './entries';
+import {
+    getEntryDoc,
+    normalizeEntryRef,
+    parseEntryKey,
+    toEntryKey
+} from './entryRefs';
+
+// Boolean flags that should be findable by the phrase they describe,
+// e.g. searching "sign language" matches hasSignLanguageSupport
+const flagPhrases: Record<string, string> = {
+    wheelchairAccessible: 'wheelchair accessible',
+    hasAccessibleParking: 'accessible parking',
+    hasAccessibleRestroom: 'accessible restroom',
+    hasScreenReaderSupport: 'screen reader support',
+    hasKeyboardNavigation: 'keyboard navigation',
+    hasHighContrastMode: 'high contrast mode',
+    hasAccessibleSupport: 'accessible support',
+    hasSignLanguageSupport: 'sign language support'
+};
+
+// Category-specific fields worth searching
+function categoryTerms(entry: AnyEntry): Array<string | undefined> {
+    switch (entry.category) {
+        case 'game':
+            return [
+                entry.publisher,
+                entry.developer,
+                ...entry.platforms,
+                ...(entry.genres ?? [])
+            ];
+        case 'hardware':
+            return [
+                entry.manufacturer,
+                entry.model,
+                entry.productType,
+                ...(entry.compatibility ?? [])
+            ];
+        case 'place':
+            return [
+                entry.placeType,
+                entry.location.address,
+                entry.location.city,
+                entry.location.country
+            ];
+        case 'software':
+            return [
+                entry.developer,
+                entry.version,
+                entry.softwareType,
+                ...entry.platforms
+            ];
+        case 'service':
+            return [
+                entry.serviceType,
+                entry.provider,
+                ...(entry.availability ?? [])
+            ];
+    }
+}
+
+/**
+ * Builds the text indexed by the search_*_text indexes: name, description,
+ * category-specific fields, enabled accessibility flags and the names of the
+ * entry's tags and features.
+ */
+export function buildSearchText(
+    entry: AnyEntry,
+    tagNames: string[],
+    featureNames: string[]
+): string {
+    const flags = Object.entries(flagPhrases)
+        .filter(([field]) => (entry as Record<string, unknown>)[field] === true)
+        .map(([, phrase]) => phrase);
+
+    return [
+        entry.name,
+        entry.description,
+        ...categoryTerms(entry),
+        ...flags,
+        ...tagNames,
+        ...featureNames
+    ]
+        .filter((term): term is string => !!term && term.trim() !== '')
+        .join(' ');
+}
+
+// Recompute and store the search text for an entry.
+// Call after any write that changes the entry, its tags or its features.
+export async function refreshSearchText(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string
+): Promise<void> {
+    const ref = normalizeEntryRef(ctx, entryType, entryId);
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entry) return;
+
+    const entryKey = toEntryKey(entryType, entryId);
+    const [entryTags, entryFeatures] = await Promise.all([
+        ctx.db
+            .query('entryTags')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect(),
+        ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect()
+    ]);
+
+    const [tags, features] = await Promise.all([
+        Promise.all(entryTags.map((assoc) => ctx.db.get(assoc.tagId))),
+        Promise.all(entryFeatures.map((assoc) => ctx.db.get(assoc.featureId)))
+    ]);
+
+    const searchText = buildSearchText(
+        entry,
+        tags.flatMap((tag) => (tag ? [tag.name] : [])),
+        features.flatMap((feature) => (feature ? [feature.name] : []))
+    );
+
+    if (searchText !== entry.searchText) {
+        await ctx.db.patch(entry._id, { searchText });
+    }
+}
+
+// Refresh every entry referenced by a set of junction rows, e.g. after a tag
+// or feature is renamed or deleted
+export async function refreshSearchTextForRows(
+    ctx: MutationCtx,
+    rows: Array<{ entryKey?: string }>
+): Promise<void> {
+    const entryKeys = new Set(
+        rows.flatMap((row) => (row.entryKey ? [row.entryKey] : []))
+    );
+    for (const entryKey of entryKeys) {
+        const parsed = parseEntryKey(entryKey);
+        if (parsed) {
+            await refreshSearchText(ctx, parsed.entryType, parsed.entryId);
+        }
+    }
+}
@@ -1,6 +1,14 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
 import { isEntryComplete } from './entries';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { moveEntryToTrash } from './trash';
+import { loadEntryState, recordRevision } from './revisions';
+import { canEditEntry } from './permissions';
+import { claimEntryPhotos } from './storage';
+import { photoFields } from './photos';
+import { photoDetail } from './schema';
 
 // Get all services
 export const getServices = query({
@@ -12,6 +20,7 @@ export const getServices = query({
             .query('services')
             .withIndex('by_created')
             .order('desc')
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(args.limit ?? 50);
         return services.map((svc) => ({
             ...svc,
@@ -35,6 +44,7 @@ export const searchServices = query({
             .withSearchIndex('search_services', (q) =>
                 q.search('name', args.searchQuery)
             )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(20);
 
         return services.map((svc) => ({
@@ -49,7 +59,9 @@ export const getService = query({
     args: { id: v.id('services') },
     handler: async (ctx, args) => {
         const service = await ctx.db.get(args.id);
-        return service ? { ...service, category: 'service' as const } : null;
+        return service && service.deletedAt === undefined
+            ? { ...service, category: 'service' as const }
+            : null;
     }
 });
 
@@ -66,7 +78,7 @@ export const createService = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         // Service-specific fields
         serviceType: v.optional(v.string()),
         provider: v.optional(v.string()),
@@ -83,20 +95,32 @@ export const createService = mutation({
             throw new Error('You must be logged in to create an entry');
         }
 
-        const { photos, accessibilityFeatures, tags, ...rest } = args;
+        const { photoDetails, accessibilityFeatures, tags, ...rest } = args;
         const now = Date.now();
         const newService = {
             ...rest,
-            photos: photos ?? [],
+            ...photoFields(photoDetails ?? []),
             createdBy: identity.subject,
             createdAt: now,
             updatedAt: now
         };
 
-        return await ctx.db.insert('services', {
+        const id = await ctx.db.insert('services', {
             ...newService,
             complete: isEntryComplete(newService, 'service')
         });
+
+        await claimEntryPhotos(
+            ctx,
+            identity.subject,
+            'service',
+            id,
+            newService.photos
+        );
+        await refreshSearchText(ctx, 'service', id);
+        await updateEntryStats(ctx, 'service', null, await ctx.db.get(id));
+        await recordRevision(ctx, 'service', id, 'create', null);
+        return id;
     }
 });
 
@@ -114,7 +138,7 @@ export const updateService = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         serviceType: v.optional(v.string()),
         provider: v.optional(v.string()),
         availability: v.optional(v.array(v.string())),
@@ -127,27 +151,45 @@ export const updateService = mutation({
             throw new Error('You must be logged in to update an entry');
         }
 
-        const { id, ...updates } = args;
+        const { id, photoDetails, ...updates } = args;
         const existing = await ctx.db.get(id);
-        if (!existing) {
+        if (!existing || existing.deletedAt !== undefined) {
             throw new Error('Service not found');
         }
 
-        if (existing.createdBy && existing.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, existing))) {
             throw new Error('You can only edit entries you created');
         }
 
-        const updatedEntry = { ...existing, ...updates };
+        const photoUpdates = photoDetails && photoFields(photoDetails);
+        if (photoUpdates) {
+            await claimEntryPhotos(
+                ctx,
+                identity.subject,
+                'service',
+                id,
+                photoUpdates.photos,
+                existing.photos
+            );
+        }
+
+        const before = await loadEntryState(ctx, 'service', id);
+        const updatedEntry = { ...existing, ...updates, ...photoUpdates };
 
-        return await ctx.db.patch(id, {
+        await ctx.db.patch(id, {
             ...updates,
+            ...photoUpdates,
             complete: isEntryComplete(updatedEntry, 'service'),
             updatedAt: Date.now()
         });
+
+        await refreshSearchText(ctx, 'service', id);
+        await updateEntryStats(ctx, 'service', existing, await ctx.db.get(id));
+        await recordRevision(ctx, 'service', id, 'update', before);
     }
 });
 
-// Delete a service
+// Delete a service (moves it to the trash, restorable for 30 days)
 export const deleteService = mutation({
     args: { id: v.id('services') },
     handler: async (ctx, args) => {
@@ -157,14 +199,14 @@ export const deleteService = mutation({
         }
 
         const service = await ctx.db.get(args.id);
-        if (!service) {
+        if (!service || service.deletedAt !== undefined) {
             throw new Error('Service not found');
         }
 
-        if (service.createdBy && service.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, service))) {
             throw new Error('You can only delete entries you created');
         }
 
-        await ctx.db.delete(args.id);
+        await moveEntryToTrash(ctx, 'service', service, identity.subject);
     }
 });
@@ -1,6 +1,14 @@
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
 import { isEntryComplete } from './entries';
+import { refreshSearchText } from './searchText';
+import { updateEntryStats } from './stats';
+import { moveEntryToTrash } from './trash';
+import { loadEntryState, recordRevision } from './revisions';
+import { canEditEntry } from './permissions';
+import { claimEntryPhotos } from './storage';
+import { photoFields } from './photos';
+import { photoDetail } from './schema';
 
 // Get all software
 export const getSoftware = query({
@@ -12,6 +20,7 @@ export const getSoftware = query({
             .query('software')
             .withIndex('by_created')
             .order('desc')
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(args.limit ?? 50);
         return software.map((sw) => ({ ...sw, category: 'software' as const }));
     }
@@ -32,6 +41,7 @@ export const searchSoftware = query({
             .withSearchIndex('search_software', (q) =>
                 q.search('name', args.searchQuery)
             )
+            .filter((q) => q.eq(q.field('deletedAt'), undefined))
             .take(20);
 
         return software.map((sw) => ({ ...sw, category: 'software' as const }));
@@ -43,7 +53,9 @@ export const getSoftwareItem = query({
     args: { id: v.id('software') },
     handler: async (ctx, args) => {
         const software = await ctx.db.get(args.id);
-        return software ? { ...software, category: 'software' as const } : null;
+        return software && software.deletedAt === undefined
+            ? { ...software, category: 'software' as const }
+            : null;
     }
 });
 
@@ -60,7 +72,7 @@ export const createSoftware = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         // Software-specific fields
         platforms: v.array(v.string()),
         developer: v.optional(v.string()),
@@ -79,20 +91,32 @@ export const createSoftware = mutation({
             throw new Error('You must be logged in to create an entry');
         }
 
-        const { photos, accessibilityFeatures, tags, ...rest } = args;
+        const { photoDetails, accessibilityFeatures, tags, ...rest } = args;
         const now = Date.now();
         const newSoftware = {
             ...rest,
-            photos: photos ?? [],
+            ...photoFields(photoDetails ?? []),
             createdBy: identity.subject,
             createdAt: now,
             updatedAt: now
         };
 
-        return await ctx.db.insert('software', {
+        const id = await ctx.db.insert('software', {
             ...newSoftware,
             complete: isEntryComplete(newSoftware, 'software')
         });
+
+        await claimEntryPhotos(
+            ctx,
+            identity.subject,
+            'software',
+            id,
+            newSoftware.photos
+        );
+        await refreshSearchText(ctx, 'software', id);
+        await updateEntryStats(ctx, 'software', null, await ctx.db.get(id));
+        await recordRevision(ctx, 'software', id, 'create', null);
+        return id;
     }
 });
 
@@ -110,7 +134,7 @@ export const updateSoftware = mutation({
         motorAccessibility: v.optional(v.number()),
         cognitiveAccessibility: v.optional(v.number()),
         website: v.optional(v.string()),
-        photos: v.optional(v.array(v.id('_storage'))),
+        photoDetails: v.optional(v.array(photoDetail)),
         platforms: v.optional(v.array(v.string())),
         developer: v.optional(v.string()),
         version: v.optional(v.string()),
@@ -125,27 +149,45 @@ export const updateSoftware = mutation({
             throw new Error('You must be logged in to update an entry');
         }
 
-        const { id, ...updates } = args;
+        const { id, photoDetails, ...updates } = args;
         const existing = await ctx.db.get(id);
-        if (!existing) {
+        if (!existing || existing.deletedAt !== undefined) {
             throw new Error('Software not found');
         }
 
-        if (existing.createdBy && existing.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, existing))) {
             throw new Error('You can only edit entries you created');
         }
 
-        const updatedEntry = { ...existing, ...updates };
+        const photoUpdates = photoDetails && photoFields(photoDetails);
+        if (photoUpdates) {
+            await claimEntryPhotos(
+                ctx,
+                identity.subject,
+                'software',
+                id,
+                photoUpdates.photos,
+                existing.photos
+            );
+        }
+
+        const before = await loadEntryState(ctx, 'software', id);
+        const updatedEntry = { ...existing, ...updates, ...photoUpdates };
 
-        return await ctx.db.patch(id, {
+        await ctx.db.patch(id, {
             ...updates,
+            ...photoUpdates,
             complete: isEntryComplete(updatedEntry, 'software'),
             updatedAt: Date.now()
         });
+
+        await refreshSearchText(ctx, 'software', id);
+        await updateEntryStats(ctx, 'software', existing, await ctx.db.get(id));
+        await recordRevision(ctx, 'software', id, 'update', before);
     }
 });
 
-// Delete software
+// Delete software (moves it to the trash, restorable for 30 days)
 export const deleteSoftware = mutation({
     args: { id: v.id('software') },
     handler: async (ctx, args) => {
@@ -155,14 +197,14 @@ export const deleteSoftware = mutation({
         }
 
         const software = await ctx.db.get(args.id);
-        if (!software) {
+        if (!software || software.deletedAt !== undefined) {
             throw new Error('Software not found');
         }
 
-        if (software.createdBy && software.createdBy !== identity.subject) {
+        if (!(await canEditEntry(ctx, identity, software))) {
             throw new Error('You can only delete entries you created');
         }
 
-        await ctx.db.delete(args.id);
+        await moveEntryToTrash(ctx, 'software', software, identity.subject);
     }
 });
@@ -0,0 +1,175 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import type { Category } from './entries';
+import { categories, entryTables } from './entryRefs';
+
+const BATCH_SIZE = 100;
+
+// Fields of an entry that the stats depend on
+type CountedEntry = Pick<Doc<'games'>, 'complete' | 'overallRating'>;
+
+export interface CategoryStats {
+    total: number;
+    complete: number;
+    // ratingBuckets[n - 1] = entries with an overall rating of n (rounded down)
+    ratingBuckets: number[];
+}
+
+function emptyStats(): CategoryStats {
+    return { total: 0, complete: 0, ratingBuckets: [0, 0, 0, 0, 0] };
+}
+
+function ratingBucket(rating: number): number {
+    return Math.min(4, Math.max(0, Math.floor(rating) - 1));
+}
+
+// Add (sign 1) or remove (sign -1) one entry's contribution
+function countEntry(
+    stats: CategoryStats,
+    entry: CountedEntry,
+    sign: 1 | -1
+): CategoryStats {
+    const bucket = ratingBucket(entry.overallRating);
+    return {
+        total: stats.total + sign,
+        complete: stats.complete + (entry.complete ? sign : 0),
+        ratingBuckets: stats.ratingBuckets.map((count, i) =>
+            i === bucket ? count + sign : count
+        )
+    };
+}
+
+async function getStatsRow(ctx: QueryCtx, category: Category) {
+    return await ctx.db
+        .query('stats')
+        .withIndex('by_category', (q) => q.eq('category', category))
+        .unique();
+}
+
+async function writeStats(
+    ctx: MutationCtx,
+    category: Category,
+    stats: CategoryStats
+): Promise<void> {
+    const row = await getStatsRow(ctx, category);
+    if (row) {
+        await ctx.db.patch(row._id, stats);
+    } else {
+        await ctx.db.insert('stats', { category, ...stats });
+    }
+}
+
+/**
+ * Keeps the per-category stats in step with an entry write, in the same
+ * transaction. Pass the entry as it was before the write (null on create)
+ * and as it is after (null on delete).
+ */
+export async function updateEntryStats(
+    ctx: MutationCtx,
+    category: Category,
+    before: CountedEntry | null,
+    after: CountedEntry | null
+): Promise<void> {
+    const row = await getStatsRow(ctx, category);
+    let stats: CategoryStats = row ?? emptyStats();
+    if (before) stats = countEntry(stats, before, -1);
+    if (after) stats = countEntry(stats, after, 1);
+    await writeStats(ctx, category, stats);
+}
+
+// ============================================
+// STATS QUERIES
+// ============================================
+
+// Stats for every category. Categories without a stats row yet count as empty.
+export async function loadStats(
+    ctx: QueryCtx
+): Promise<Record<Category, CategoryStats>> {
+    const rows = await ctx.db.query('stats').collect();
+    const stats = {} as Record<Category, CategoryStats>;
+    for (const category of categories) {
+        const row = rows.find((r) => r.category === category);
+        stats[category] = row
+            ? {
+                  total: row.total,
+                  complete: row.complete,
+                  ratingBuckets: row.ratingBuckets
+              }
+            : emptyStats();
+    }
+    return stats;
+}
+
+// Entry counts per category, broken down by completeness and rating bucket
+export const getEntryStats = query({
+    args: {},
+    handler: async (ctx) => {
+        return await loadStats(ctx);
+    }
+});
+
+// ============================================
+// REPAIR
+// ============================================
+
+// Recount the stats of every category from scratch. Run once to populate the
+// stats table for existing entries, and again if it ever drifts (e.g. after
+// entries were written without going through updateEntryStats).
+// Run from the dashboard: `npx convex run stats:recountStats`
+export const recountStats = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(0, internal.stats.recountStatsBatch, {
+                category,
+                counted: emptyStats()
+            });
+        }
+    }
+});
+
+// Count one page of entries into the running totals, then schedule the next
+// page. The totals are written once the whole table has been counted.
+export const recountStatsBatch = internalMutation({
+    args: {
+        category: v.union(
+            v.literal('game'),
+            v.literal('hardware'),
+            v.literal('place'),
+            v.literal('software'),
+            v.literal('service')
+        ),
+        cursor: v.optional(v.string()),
+        counted: v.object({
+            total: v.number(),
+            complete: v.number(),
+            ratingBuckets: v.array(v.number())
+        })
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category])
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        let counted = args.counted;
+        for (const entry of result.page) {
+            // Entries in the trash aren't counted
+            if (entry.deletedAt === undefined) {
+                counted = countEntry(counted, entry, 1);
+            }
+        }
+
+        if (result.isDone) {
+            await writeStats(ctx, args.category, counted);
+        } else {
+            await ctx.scheduler.runAfter(0, internal.stats.recountStatsBatch, {
+                category: args.category,
+                cursor: result.continueCursor,
+                counted
+            });
+        }
+    }
+});
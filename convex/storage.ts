@@ -1,5 +1,245 @@
-import { query, mutation } from './_generated/server';
+import {
+    action,
+    internalMutation,
+    internalQuery,
+    mutation,
+    query
+} from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
 import { v } from 'convex/values';
+import type { ProcessedImage } from './imageProcessing';
+import { isEntryComplete } from './entries';
+import type { Category } from './entries';
+import { getEntryDoc, normalizeEntryRef } from './entryRefs';
+import { isModerator, requireEntryEditor } from './permissions';
+import { withoutPhotos } from './photos';
+import { loadEntryState, recordRevision } from './revisions';
+import { imageVariant } from './schema';
+import { updateEntryStats } from './stats';
+
+// Upload limits, checked against the stored blob rather than what the client
+// reports
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const USER_STORAGE_QUOTA_BYTES = 200 * 1024 * 1024;
+
+// How long an upload URL accepts a file
+export const UPLOAD_URL_TTL_MS = 60 * 60 * 1000;
+
+// Accepted image formats, identified by their leading bytes
+const imageSignatures: Array<{
+    type: string;
+    matches: (bytes: Uint8Array) => boolean;
+}> = [
+    {
+        type: 'image/jpeg',
+        matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff
+    },
+    {
+        type: 'image/png',
+        matches: (b) =>
+            [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every(
+                (byte, i) => b[i] === byte
+            )
+    },
+    {
+        type: 'image/gif',
+        matches: (b) => String.fromCharCode(...b.slice(0, 4)) === 'GIF8'
+    },
+    {
+        type: 'image/webp',
+        matches: (b) =>
+            String.fromCharCode(...b.slice(0, 4)) === 'RIFF' &&
+            String.fromCharCode(...b.slice(8, 12)) === 'WEBP'
+    }
+];
+
+function detectImageType(bytes: Uint8Array): string | null {
+    return imageSignatures.find(({ matches }) => matches(bytes))?.type ?? null;
+}
+
+function formatMegabytes(bytes: number): string {
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Size of an uploaded file including its resized variants
+function storedSize(file: {
+    fileSize: number;
+    variants?: Array<{ fileSize: number }>;
+}): number {
+    return (file.variants ?? []).reduce(
+        (sum, variant) => sum + variant.fileSize,
+        file.fileSize
+    );
+}
+
+// Total size of the files a user has uploaded
+async function getStorageUsage(ctx: QueryCtx, userId: string): Promise<number> {
+    const files = await ctx.db
+        .query('uploadedFiles')
+        .withIndex('by_user', (q) => q.eq('userId', userId))
+        .collect();
+    return files.reduce((sum, file) => sum + storedSize(file), 0);
+}
+
+// The uploadedFiles row recording who uploaded a blob, if any
+export async function getUploadedFile(
+    ctx: QueryCtx,
+    storageId: Id<'_storage'>
+) {
+    return await ctx.db
+        .query('uploadedFiles')
+        .withIndex('by_storage_id', (q) => q.eq('storageId', storageId))
+        .first();
+}
+
+/**
+ * Deletes an uploaded file's blob, its resized variants and its row. Returns
+ * the number of bytes freed, as measured by storage.
+ */
+export async function deleteUploadedFile(
+    ctx: MutationCtx,
+    file: Doc<'uploadedFiles'>
+): Promise<number> {
+    let bytesReclaimed = 0;
+    const storageIds = [
+        file.storageId,
+        ...(file.variants ?? []).map((variant) => variant.storageId)
+    ];
+    for (const storageId of storageIds) {
+        // Entry deletion may already have removed the original
+        const blob = await ctx.db.system.get(storageId);
+        if (blob) {
+            await ctx.storage.delete(storageId);
+            bytesReclaimed += blob.size;
+        }
+    }
+    await ctx.db.delete(file._id);
+    return bytesReclaimed;
+}
+
+/**
+ * Checks that every photo newly attached to an entry was uploaded by the
+ * caller and isn't attached to a different entry, then associates the files
+ * with the entry. Photos the entry already has are accepted as they are.
+ */
+export async function claimEntryPhotos(
+    ctx: MutationCtx,
+    userId: string,
+    entryType: Category,
+    entryId: string,
+    photos: Array<Id<'_storage'>>,
+    existing: Array<Id<'_storage'>> = []
+): Promise<void> {
+    const current = new Set(existing);
+    for (const storageId of photos) {
+        if (current.has(storageId)) continue;
+
+        const file = await getUploadedFile(ctx, storageId);
+        if (!file || file.userId !== userId) {
+            throw new Error('You can only attach photos you uploaded');
+        }
+        if (
+            file.associatedEntryId !== undefined &&
+            (file.associatedEntryType !== entryType ||
+                file.associatedEntryId !== entryId)
+        ) {
+            throw new Error('This photo is already attached to another entry');
+        }
+
+        await ctx.db.patch(file._id, {
+            associatedEntryType: entryType,
+            associatedEntryId: entryId
+        });
+    }
+}
+
+/**
+ * Checks that a photo being attached to a comment was uploaded by the caller
+ * and isn't already attached to an entry or another comment.
+ */
+export async function claimCommentPhoto(
+    ctx: QueryCtx,
+    userId: string,
+    storageId: Id<'_storage'>
+): Promise<void> {
+    const file = await getUploadedFile(ctx, storageId);
+    if (!file || file.userId !== userId) {
+        throw new Error('You can only attach photos you uploaded');
+    }
+
+    const comment = await ctx.db
+        .query('comments')
+        .withIndex('by_photo', (q) => q.eq('photo', storageId))
+        .first();
+    if (file.associatedEntryId !== undefined || comment) {
+        throw new Error('This photo is already attached elsewhere');
+    }
+}
+
+// Delete a comment's photo with its variants and uploadedFiles row, or just
+// the blob if the upload was never registered
+export async function deleteCommentPhoto(
+    ctx: MutationCtx,
+    storageId: Id<'_storage'>
+): Promise<void> {
+    const file = await getUploadedFile(ctx, storageId);
+    if (file) {
+        await deleteUploadedFile(ctx, file);
+    } else if (await ctx.db.system.get(storageId)) {
+        await ctx.storage.delete(storageId);
+    }
+}
+
+// Drop a deleted file from its entry's photo list so entries never
+// reference missing blobs
+async function removeEntryPhoto(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    storageId: Id<'_storage'>
+): Promise<void> {
+    const ref = normalizeEntryRef(ctx, entryType, entryId);
+    const entry = ref ? await getEntryDoc(ctx, ref) : null;
+    if (!entry?.photos?.includes(storageId)) return;
+
+    const before = await loadEntryState(ctx, entryType, entryId);
+    const photoUpdates = withoutPhotos(entry, new Set([storageId]));
+    await ctx.db.patch(entry._id, {
+        ...photoUpdates,
+        complete: isEntryComplete({ ...entry, ...photoUpdates }, entryType),
+        updatedAt: Date.now()
+    });
+
+    // Trashed entries are already out of the stats
+    if (entry.deletedAt === undefined) {
+        await updateEntryStats(
+            ctx,
+            entryType,
+            entry,
+            await ctx.db.get(entry._id)
+        );
+    }
+    await recordRevision(ctx, entryType, entryId, 'update', before);
+}
+
+// Drop a deleted file from the comment it is attached to, if any
+async function removeCommentPhoto(
+    ctx: MutationCtx,
+    storageId: Id<'_storage'>
+): Promise<void> {
+    const comment = await ctx.db
+        .query('comments')
+        .withIndex('by_photo', (q) => q.eq('photo', storageId))
+        .first();
+    if (comment) {
+        await ctx.db.patch(comment._id, {
+            photo: undefined,
+            photoAltText: undefined
+        });
+    }
+}
 
 export const getFileUrl = query({
     args: {
@@ -23,6 +263,65 @@ export const getFileUrls = query({
     }
 });
 
+export interface ImageSource {
+    url: string;
+    srcSet?: string;
+    width?: number;
+    height?: number;
+    blurDataUrl?: string;
+}
+
+/**
+ * Everything needed to render an uploaded image responsively: the full-size
+ * URL, a srcset of its WebP variants and a blur placeholder. Files uploaded
+ * before images were processed only have a URL. Null if the file is gone.
+ */
+export async function getImageSource(
+    ctx: QueryCtx,
+    storageId: Id<'_storage'>
+): Promise<ImageSource | null> {
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) {
+        return null;
+    }
+
+    const file = await getUploadedFile(ctx, storageId);
+    if (!file?.width) {
+        return { url };
+    }
+
+    const candidates = [];
+    for (const variant of file.variants ?? []) {
+        const variantUrl = await ctx.storage.getUrl(variant.storageId);
+        if (variantUrl) {
+            candidates.push(`${variantUrl} ${variant.width}w`);
+        }
+    }
+    candidates.push(`${url} ${file.width}w`);
+
+    return {
+        url,
+        srcSet: candidates.join(', '),
+        width: file.width,
+        height: file.height,
+        blurDataUrl: file.blurDataUrl
+    };
+}
+
+// Image sources for several uploads, keyed by storage id (see getImageSource)
+export const getImageSources = query({
+    args: {
+        storageIds: v.array(v.id('_storage'))
+    },
+    handler: async (ctx, args) => {
+        const sources: Record<string, ImageSource | null> = {};
+        for (const storageId of args.storageIds) {
+            sources[storageId] = await getImageSource(ctx, storageId);
+        }
+        return sources;
+    }
+});
+
 export const generateUploadUrl = mutation({
     args: {},
     handler: async (ctx) => {
@@ -30,10 +329,34 @@ export const generateUploadUrl = mutation({
         if (!identity) {
             throw new Error('You must be logged in to upload files');
         }
-        return await ctx.storage.generateUploadUrl();
+
+        // Uploads that haven't been finalized may each still store a file
+        // of up to MAX_UPLOAD_BYTES
+        const usage = await getStorageUsage(ctx, identity.subject);
+        const pending = await ctx.db
+            .query('pendingUploads')
+            .withIndex('by_user', (q) => q.eq('userId', identity.subject))
+            .collect();
+        if (
+            usage + pending.length * MAX_UPLOAD_BYTES >=
+            USER_STORAGE_QUOTA_BYTES
+        ) {
+            throw new Error(
+                `You have used your ${formatMegabytes(USER_STORAGE_QUOTA_BYTES)} upload quota`
+            );
+        }
+
+        const pendingUploadId = await ctx.db.insert('pendingUploads', {
+            userId: identity.subject,
+            createdAt: Date.now()
+        });
+        return { url: await ctx.storage.generateUploadUrl(), pendingUploadId };
     }
 });
 
+// Delete an uploaded file (requires authentication - the uploader, the owner
+// of the entry it is attached to, or a moderator). The file is also removed
+// from the entry's photos.
 export const deleteFile = mutation({
     args: {
         storageId: v.id('_storage')
@@ -43,16 +366,172 @@ export const deleteFile = mutation({
         if (!identity) {
             throw new Error('You must be logged in to delete files');
         }
-        await ctx.storage.delete(args.storageId);
+
+        const file = await getUploadedFile(ctx, args.storageId);
+        const entryType = file?.associatedEntryType;
+        const entryId = file?.associatedEntryId;
+
+        let allowed =
+            file?.userId === identity.subject ||
+            (await isModerator(ctx, identity));
+        if (!allowed && entryType && entryId) {
+            const ref = normalizeEntryRef(ctx, entryType, entryId);
+            const entry = ref ? await getEntryDoc(ctx, ref) : null;
+            allowed = entry?.createdBy === identity.subject;
+        }
+        if (!allowed) {
+            throw new Error('You can only delete files you uploaded');
+        }
+
+        if (entryType && entryId) {
+            await removeEntryPhoto(ctx, entryType, entryId, args.storageId);
+        }
+        await removeCommentPhoto(ctx, args.storageId);
+        if (file) {
+            await deleteUploadedFile(ctx, file);
+        } else if (await ctx.db.system.get(args.storageId)) {
+            await ctx.storage.delete(args.storageId);
+        }
     }
 });
 
-export const registerFile = mutation({
+// The stored size of a blob and whether it has been registered yet, or null
+// if the blob or the caller's pending upload is missing
+export const getUploadStatus = internalQuery({
+    args: {
+        storageId: v.id('_storage'),
+        pendingUploadId: v.id('pendingUploads')
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        const blob = await ctx.db.system.get(args.storageId);
+        const pending = await ctx.db.get(args.pendingUploadId);
+        if (!blob || !identity || pending?.userId !== identity.subject) {
+            return null;
+        }
+        return {
+            size: blob.size,
+            registered: (await getUploadedFile(ctx, args.storageId)) !== null
+        };
+    }
+});
+
+// Release the quota a finalized upload reserved
+export const deletePendingUpload = internalMutation({
+    args: { pendingUploadId: v.id('pendingUploads') },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        const pending = await ctx.db.get(args.pendingUploadId);
+        if (pending && pending.userId === identity?.subject) {
+            await ctx.db.delete(pending._id);
+        }
+    }
+});
+
+// Validate a file POSTed to a URL from generateUploadUrl and record the caller
+// as its uploader, optionally attaching it to an entry they can edit. Either
+// way the URL's pending upload is released.
+// The type is sniffed from the file's contents and the size read from
+// storage; files that fail validation are deleted.
+// Valid images are replaced by a copy without EXIF metadata plus resized
+// variants (see imageProcessing.ts). Returns the copy's storage id, which is
+// the one to attach to entries.
+export const finalizeUpload = action({
+    args: {
+        storageId: v.id('_storage'),
+        pendingUploadId: v.id('pendingUploads'),
+        fileName: v.string(),
+        associatedEntryType: v.optional(
+            v.union(
+                v.literal('game'),
+                v.literal('hardware'),
+                v.literal('place'),
+                v.literal('software'),
+                v.literal('service')
+            )
+        ),
+        associatedEntryId: v.optional(v.string())
+    },
+    handler: async (ctx, args): Promise<Id<'_storage'>> => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            throw new Error('You must be logged in to upload files');
+        }
+
+        const { pendingUploadId, ...upload } = args;
+        const status = await ctx.runQuery(internal.storage.getUploadStatus, {
+            storageId: args.storageId,
+            pendingUploadId
+        });
+        if (!status) {
+            throw new Error('File not found');
+        }
+        if (status.registered) {
+            throw new Error('File is already registered');
+        }
+
+        try {
+            if (status.size > MAX_UPLOAD_BYTES) {
+                throw new Error(
+                    `Files must be smaller than ${formatMegabytes(MAX_UPLOAD_BYTES)}`
+                );
+            }
+
+            const blob = await ctx.storage.get(args.storageId);
+            if (!blob) {
+                throw new Error('File not found');
+            }
+            const header = new Uint8Array(
+                await blob.slice(0, 16).arrayBuffer()
+            );
+            const fileType = detectImageType(header);
+            if (!fileType) {
+                throw new Error(
+                    'Only JPEG, PNG, GIF and WebP images can be uploaded'
+                );
+            }
+
+            const image: ProcessedImage = await ctx.runAction(
+                internal.imageProcessing.processImage,
+                { storageId: args.storageId, fileType }
+            );
+
+            try {
+                await ctx.runMutation(internal.storage.registerFile, {
+                    ...upload,
+                    ...image,
+                    fileType
+                });
+            } catch (error) {
+                await ctx.storage.delete(image.storageId);
+                for (const variant of image.variants) {
+                    await ctx.storage.delete(variant.storageId);
+                }
+                throw error;
+            }
+            return image.storageId;
+        } finally {
+            // Rejected, or replaced by the stripped copy
+            await ctx.storage.delete(args.storageId);
+            await ctx.runMutation(internal.storage.deletePendingUpload, {
+                pendingUploadId
+            });
+        }
+    }
+});
+
+// Record the caller as the uploader of a validated, processed file (see
+// finalizeUpload)
+export const registerFile = internalMutation({
     args: {
         storageId: v.id('_storage'),
         fileName: v.string(),
         fileType: v.string(),
         fileSize: v.number(),
+        width: v.number(),
+        height: v.number(),
+        variants: v.array(imageVariant),
+        blurDataUrl: v.string(),
         associatedEntryType: v.optional(
             v.union(
                 v.literal('game'),
@@ -70,8 +549,49 @@ export const registerFile = mutation({
             throw new Error('You must be logged in to upload files');
         }
 
+        if (!(await ctx.db.system.get(args.storageId))) {
+            throw new Error('File not found');
+        }
+
+        const existing = await getUploadedFile(ctx, args.storageId);
+        if (existing) {
+            throw new Error('File is already registered');
+        }
+
+        const usage = await getStorageUsage(ctx, identity.subject);
+        if (usage + storedSize(args) > USER_STORAGE_QUOTA_BYTES) {
+            throw new Error(
+                `This upload would exceed your ${formatMegabytes(USER_STORAGE_QUOTA_BYTES)} upload quota`
+            );
+        }
+
+        const { associatedEntryType, associatedEntryId, ...file } = args;
+        if (
+            (associatedEntryType === undefined) !==
+            (associatedEntryId === undefined)
+        ) {
+            throw new Error(
+                'associatedEntryType and associatedEntryId must be given together'
+            );
+        }
+
+        let association = {};
+        if (associatedEntryType && associatedEntryId) {
+            const { entry } = await requireEntryEditor(
+                ctx,
+                associatedEntryType,
+                associatedEntryId,
+                'attach files to entries'
+            );
+            association = {
+                associatedEntryType,
+                associatedEntryId: entry._id
+            };
+        }
+
         return await ctx.db.insert('uploadedFiles', {
-            ...args,
+            ...file,
+            ...association,
             userId: identity.subject,
             createdAt: Date.now()
         });
@@ -1,6 +1,28 @@
 import { v } from 'convex/values';
-import { query, mutation } from './_generated/server';
-import type { Id, Doc } from './_generated/dataModel';
+import { paginationOptsValidator } from 'convex/server';
+import { internalMutation, query, mutation } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import type { AnyEntry, Category } from './entries';
+import {
+    entryRefFields,
+    getEntryDoc,
+    normalizeEntryRef,
+    parseEntryKey,
+    toEntryKey
+} from './entryRefs';
+import {
+    hasRole,
+    requireEntryEditor,
+    requireRole,
+    viewerHasRole
+} from './permissions';
+import { refreshSearchText, refreshSearchTextForRows } from './searchText';
+import { loadEntryState, recordRevision } from './revisions';
+
+// Associations handled per transaction when a tag is renamed or deleted
+const SEARCH_REFRESH_BATCH_SIZE = 100;
 
 // Accessibility type validator
 const accessibilityTypeValidator = v.union(
@@ -32,7 +54,7 @@ function createSlug(name: string): string {
 // TAG QUERIES
 // ============================================
 
-// Get all tags, optionally filtered by accessibility type
+// Get all approved tags, optionally filtered by accessibility type
 export const getTags = query({
     args: {
         accessibilityType: v.optional(accessibilityTypeValidator),
@@ -47,10 +69,14 @@ export const getTags = query({
                 .withIndex('by_accessibility_type', (q) =>
                     q.eq('accessibilityType', args.accessibilityType!)
                 )
+                .filter((q) => q.neq(q.field('status'), 'proposed'))
                 .take(limit);
         }
 
-        return await ctx.db.query('tags').take(limit);
+        return await ctx.db
+            .query('tags')
+            .filter((q) => q.neq(q.field('status'), 'proposed'))
+            .take(limit);
     }
 });
 
@@ -73,7 +99,7 @@ export const getTagBySlug = query({
     }
 });
 
-// Search tags by name
+// Search approved tags by name
 export const searchTags = query({
     args: {
         searchQuery: v.string(),
@@ -92,11 +118,13 @@ export const searchTags = query({
             return search;
         });
 
-        return await query.take(20);
+        return await query
+            .filter((q) => q.neq(q.field('status'), 'proposed'))
+            .take(20);
     }
 });
 
-// Get popular tags (most used)
+// Get popular approved tags (most used)
 export const getPopularTags = query({
     args: {
         accessibilityType: v.optional(accessibilityTypeValidator),
@@ -112,19 +140,38 @@ export const getPopularTags = query({
             .take(100);
 
         // Filter by accessibility type if specified
-        const filtered = args.accessibilityType
-            ? tags.filter((t) => t.accessibilityType === args.accessibilityType)
-            : tags;
+        const filtered = tags.filter(
+            (t) =>
+                t.status !== 'proposed' &&
+                (!args.accessibilityType ||
+                    t.accessibilityType === args.accessibilityType)
+        );
 
         return filtered.slice(0, limit);
     }
 });
 
+// Tags awaiting moderator review, oldest first (moderators only)
+export const getProposedTags = query({
+    args: {},
+    handler: async (ctx) => {
+        if (!(await viewerHasRole(ctx, 'moderator'))) {
+            return [];
+        }
+
+        return await ctx.db
+            .query('tags')
+            .withIndex('by_status', (q) => q.eq('status', 'proposed'))
+            .collect();
+    }
+});
+
 // ============================================
 // TAG MUTATIONS
 // ============================================
 
-// Create a new tag
+// Create a new tag (requires the contributor role). Tags created by
+// contributors are proposed until a moderator approves them.
 export const createTag = mutation({
     args: {
         name: v.string(),
@@ -132,6 +179,7 @@ export const createTag = mutation({
         accessibilityType: accessibilityTypeValidator
     },
     handler: async (ctx, args) => {
+        const identity = await requireRole(ctx, 'contributor', 'create tags');
         const slug = createSlug(args.name);
 
         // Check if tag with this slug already exists
@@ -151,12 +199,16 @@ export const createTag = mutation({
             description: args.description,
             accessibilityType: args.accessibilityType,
             createdAt: Date.now(),
-            usageCount: 0
+            usageCount: 0,
+            status: hasRole(identity.role, 'moderator')
+                ? 'approved'
+                : 'proposed',
+            createdBy: identity.subject
         });
     }
 });
 
-// Update a tag
+// Update a tag (moderators only)
 export const updateTag = mutation({
     args: {
         id: v.id('tags'),
@@ -165,6 +217,8 @@ export const updateTag = mutation({
         accessibilityType: v.optional(accessibilityTypeValidator)
     },
     handler: async (ctx, args) => {
+        await requireRole(ctx, 'moderator', 'edit tags');
+
         const { id, ...updates } = args;
         const tag = await ctx.db.get(id);
 
@@ -186,30 +240,106 @@ export const updateTag = mutation({
         }
 
         await ctx.db.patch(id, patch);
+
+        // Entries carrying this tag index its name in their search text
+        if (patch.name !== undefined && patch.name !== tag.name) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.tags.refreshTagSearchText,
+                { tagId: id }
+            );
+        }
+
         return id;
     }
 });
 
-// Delete a tag (will also remove all entry associations)
+// Delete or reject a tag (moderators only). Also removes all entry
+// associations.
 export const deleteTag = mutation({
     args: { id: v.id('tags') },
     handler: async (ctx, args) => {
-        // First, remove all entry-tag associations
+        await requireRole(ctx, 'moderator', 'delete tags');
+
+        await ctx.db.delete(args.id);
+
+        // Entry associations are removed in the background
+        await ctx.scheduler.runAfter(0, internal.tags.removeTagAssociations, {
+            tagId: args.id
+        });
+    }
+});
+
+// Refresh the search text of entries carrying a renamed tag, one page of
+// associations per transaction
+export const refreshTagSearchText = internalMutation({
+    args: {
+        tagId: v.id('tags'),
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query('entryTags')
+            .withIndex('by_tag', (q) => q.eq('tagId', args.tagId))
+            .paginate({
+                cursor: args.cursor ?? null,
+                numItems: SEARCH_REFRESH_BATCH_SIZE
+            });
+        await refreshSearchTextForRows(ctx, result.page);
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.tags.refreshTagSearchText,
+                { ...args, cursor: result.continueCursor }
+            );
+        }
+    }
+});
+
+// Remove a deleted tag's entry associations and refresh those entries'
+// search text, one batch per transaction
+export const removeTagAssociations = internalMutation({
+    args: { tagId: v.id('tags') },
+    handler: async (ctx, args) => {
         const associations = await ctx.db
             .query('entryTags')
-            .withIndex('by_tag', (q) => q.eq('tagId', args.id))
-            .collect();
+            .withIndex('by_tag', (q) => q.eq('tagId', args.tagId))
+            .take(SEARCH_REFRESH_BATCH_SIZE);
 
         for (const assoc of associations) {
             await ctx.db.delete(assoc._id);
         }
+        await refreshSearchTextForRows(ctx, associations);
+
+        if (associations.length === SEARCH_REFRESH_BATCH_SIZE) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.tags.removeTagAssociations,
+                args
+            );
+        }
+    }
+});
+
+// Approve a proposed tag (moderators only)
+export const approveTag = mutation({
+    args: { id: v.id('tags') },
+    handler: async (ctx, args) => {
+        await requireRole(ctx, 'moderator', 'approve tags');
+
+        const tag = await ctx.db.get(args.id);
+        if (!tag) {
+            throw new Error('Tag not found');
+        }
 
-        // Delete the tag
-        await ctx.db.delete(args.id);
+        await ctx.db.patch(args.id, { status: 'approved' });
     }
 });
 
-// Create or get existing tag (upsert by name + accessibility type)
+// Create or get existing tag (upsert by name + accessibility type).
+// Used by the entry forms, so any signed-in user can name a new tag here; it
+// stays 'proposed' until a moderator approves it, unless they are one.
 export const getOrCreateTag = mutation({
     args: {
         name: v.string(),
@@ -217,6 +347,7 @@ export const getOrCreateTag = mutation({
         accessibilityType: accessibilityTypeValidator
     },
     handler: async (ctx, args) => {
+        const identity = await requireRole(ctx, 'user', 'add tags');
         const slug = createSlug(args.name);
 
         // Check if tag exists
@@ -236,7 +367,11 @@ export const getOrCreateTag = mutation({
             description: args.description,
             accessibilityType: args.accessibilityType,
             createdAt: Date.now(),
-            usageCount: 0
+            usageCount: 0,
+            status: hasRole(identity.role, 'moderator')
+                ? 'approved'
+                : 'proposed',
+            createdBy: identity.subject
         });
 
         return await ctx.db.get(id);
@@ -256,7 +391,7 @@ const entryTypeValidator = v.union(
     v.literal('service')
 );
 
-// Add a tag to an entry
+// Add a tag to an entry (requires authentication - owner or moderator only)
 export const addTagToEntry = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -266,49 +401,27 @@ export const addTagToEntry = mutation({
     handler: async (ctx, args) => {
         const { entryType, entryId, tagId } = args;
 
-        // Check if association already exists by querying the tag index and filtering
-        const allAssocs = await ctx.db
-            .query('entryTags')
-            .withIndex('by_tag', (q) => q.eq('tagId', tagId))
-            .collect();
+        // Also makes sure the entry exists so the stored entryKey is valid
+        await requireEntryEditor(ctx, entryType, entryId, 'edit entry tags');
+        const entryKey = toEntryKey(entryType, entryId);
 
-        const existing = allAssocs.find((a) => {
-            switch (entryType) {
-                case 'game':
-                    return a.gameId === entryId;
-                case 'hardware':
-                    return a.hardwareId === entryId;
-                case 'place':
-                    return a.placeId === entryId;
-                case 'software':
-                    return a.softwareId === entryId;
-                case 'service':
-                    return a.serviceId === entryId;
-            }
-        });
+        // Check if association already exists
+        const existing = await ctx.db
+            .query('entryTags')
+            .withIndex('by_entry_tag', (q) =>
+                q.eq('entryKey', entryKey).eq('tagId', tagId)
+            )
+            .first();
 
         if (existing) {
             return existing._id;
         }
 
+        const before = await loadEntryState(ctx, entryType, entryId);
+
         // Create association
         const assocId = await ctx.db.insert('entryTags', {
-            entryType,
-            gameId: entryType === 'game' ? (entryId as Id<'games'>) : undefined,
-            hardwareId:
-                entryType === 'hardware'
-                    ? (entryId as Id<'hardware'>)
-                    : undefined,
-            placeId:
-                entryType === 'place' ? (entryId as Id<'places'>) : undefined,
-            softwareId:
-                entryType === 'software'
-                    ? (entryId as Id<'software'>)
-                    : undefined,
-            serviceId:
-                entryType === 'service'
-                    ? (entryId as Id<'services'>)
-                    : undefined,
+            ...entryRefFields(entryType, entryId),
             tagId,
             createdAt: Date.now()
         });
@@ -319,11 +432,14 @@ export const addTagToEntry = mutation({
             await ctx.db.patch(tagId, { usageCount: tag.usageCount + 1 });
         }
 
+        await refreshSearchText(ctx, entryType, entryId);
+        await recordRevision(ctx, entryType, entryId, 'tags', before);
         return assocId;
     }
 });
 
-// Remove a tag from an entry
+// Remove a tag from an entry (requires authentication - owner or moderator
+// only)
 export const removeTagFromEntry = mutation({
     args: {
         entryType: entryTypeValidator,
@@ -332,29 +448,20 @@ export const removeTagFromEntry = mutation({
     },
     handler: async (ctx, args) => {
         const { entryType, entryId, tagId } = args;
+        await requireEntryEditor(ctx, entryType, entryId, 'edit entry tags');
 
         // Find the existing association
-        const allAssocs = await ctx.db
+        const existing = await ctx.db
             .query('entryTags')
-            .withIndex('by_tag', (q) => q.eq('tagId', tagId))
-            .collect();
-
-        const existing = allAssocs.find((a) => {
-            switch (entryType) {
-                case 'game':
-                    return a.gameId === entryId;
-                case 'hardware':
-                    return a.hardwareId === entryId;
-                case 'place':
-                    return a.placeId === entryId;
-                case 'software':
-                    return a.softwareId === entryId;
-                case 'service':
-                    return a.serviceId === entryId;
-            }
-        });
+            .withIndex('by_entry_tag', (q) =>
+                q
+                    .eq('entryKey', toEntryKey(entryType, entryId))
+                    .eq('tagId', tagId)
+            )
+            .first();
 
         if (existing) {
+            const before = await loadEntryState(ctx, entryType, entryId);
             await ctx.db.delete(existing._id);
 
             // Decrement usage count
@@ -362,29 +469,13 @@ export const removeTagFromEntry = mutation({
             if (tag && tag.usageCount > 0) {
                 await ctx.db.patch(tagId, { usageCount: tag.usageCount - 1 });
             }
+
+            await refreshSearchText(ctx, entryType, entryId);
+            await recordRevision(ctx, entryType, entryId, 'tags', before);
         }
     }
 });
 
-// Helper function to get entry ID for a specific type
-function getEntryIdForType(
-    assoc: Doc<'entryTags'>,
-    entryType: 'game' | 'hardware' | 'place' | 'software' | 'service'
-): string | undefined {
-    switch (entryType) {
-        case 'game':
-            return assoc.gameId;
-        case 'hardware':
-            return assoc.hardwareId;
-        case 'place':
-            return assoc.placeId;
-        case 'software':
-            return assoc.softwareId;
-        case 'service':
-            return assoc.serviceId;
-    }
-}
-
 // Get all tags for an entry
 export const getTagsForEntry = query({
     args: {
@@ -392,15 +483,12 @@ export const getTagsForEntry = query({
         entryId: v.string()
     },
     handler: async (ctx, args) => {
-        const { entryType, entryId } = args;
-
-        // Get all entryTags and filter by the entry ID
-        const allAssocs = await ctx.db.query('entryTags').collect();
-        const associations = allAssocs.filter(
-            (a) =>
-                a.entryType === entryType &&
-                getEntryIdForType(a, entryType) === entryId
-        );
+        const associations = await ctx.db
+            .query('entryTags')
+            .withIndex('by_entry', (q) =>
+                q.eq('entryKey', toEntryKey(args.entryType, args.entryId))
+            )
+            .collect();
 
         // Fetch the actual tag documents
         const tags = await Promise.all(
@@ -432,76 +520,108 @@ export const getEntriesWithTag = query({
     }
 });
 
-// Set all tags for an entry (replaces existing tags)
-export const setTagsForEntry = mutation({
+// Entries with a tag, most recently tagged first, for the tag page. Trashed
+// entries are skipped, so a page can have fewer entries than requested.
+export const getTaggedEntries = query({
     args: {
-        entryType: entryTypeValidator,
-        entryId: v.string(),
-        tagIds: v.array(v.id('tags'))
+        tagId: v.id('tags'),
+        paginationOpts: paginationOptsValidator
     },
     handler: async (ctx, args) => {
-        const { entryType, entryId, tagIds } = args;
+        const result = await ctx.db
+            .query('entryTags')
+            .withIndex('by_tag', (q) => q.eq('tagId', args.tagId))
+            .order('desc')
+            .paginate(args.paginationOpts);
+
+        const entries: AnyEntry[] = [];
+        for (const assoc of result.page) {
+            const parsed = assoc.entryKey
+                ? parseEntryKey(assoc.entryKey)
+                : null;
+            const ref = parsed
+                ? normalizeEntryRef(ctx, parsed.entryType, parsed.entryId)
+                : null;
+            const entry = ref ? await getEntryDoc(ctx, ref) : null;
+            if (entry && entry.deletedAt === undefined) {
+                entries.push(entry);
+            }
+        }
 
-        // Get existing associations for this entry
-        const allAssocs = await ctx.db.query('entryTags').collect();
-        const existing = allAssocs.filter(
-            (a) =>
-                a.entryType === entryType &&
-                getEntryIdForType(a, entryType) === entryId
-        );
+        return { ...result, page: entries };
+    }
+});
 
-        const existingTagIds = new Set(existing.map((e) => e.tagId));
-        const newTagIds = new Set(tagIds);
-
-        // Remove old associations not in new list
-        for (const assoc of existing) {
-            if (!newTagIds.has(assoc.tagId)) {
-                await ctx.db.delete(assoc._id);
-                const tag = await ctx.db.get(assoc.tagId);
-                if (tag && tag.usageCount > 0) {
-                    await ctx.db.patch(assoc.tagId, {
-                        usageCount: tag.usageCount - 1
-                    });
-                }
+// Replace an entry's tag associations, keeping usage counts in step.
+// Shared by setTagsForEntry and revisions.revertToRevision.
+export async function replaceEntryTags(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    tagIds: Array<Id<'tags'>>
+): Promise<void> {
+    // Get existing associations for this entry
+    const existing = await ctx.db
+        .query('entryTags')
+        .withIndex('by_entry', (q) =>
+            q.eq('entryKey', toEntryKey(entryType, entryId))
+        )
+        .collect();
+
+    const existingTagIds = new Set(existing.map((e) => e.tagId));
+    // A tag sent twice is still one association
+    const newTagIds = new Set(tagIds);
+
+    // Remove old associations not in new list
+    for (const assoc of existing) {
+        if (!newTagIds.has(assoc.tagId)) {
+            await ctx.db.delete(assoc._id);
+            const tag = await ctx.db.get(assoc.tagId);
+            if (tag && tag.usageCount > 0) {
+                await ctx.db.patch(assoc.tagId, {
+                    usageCount: tag.usageCount - 1
+                });
             }
         }
+    }
 
-        // Add new associations
-        for (const tagId of tagIds) {
-            if (!existingTagIds.has(tagId)) {
-                await ctx.db.insert('entryTags', {
-                    entryType,
-                    gameId:
-                        entryType === 'game'
-                            ? (entryId as Id<'games'>)
-                            : undefined,
-                    hardwareId:
-                        entryType === 'hardware'
-                            ? (entryId as Id<'hardware'>)
-                            : undefined,
-                    placeId:
-                        entryType === 'place'
-                            ? (entryId as Id<'places'>)
-                            : undefined,
-                    softwareId:
-                        entryType === 'software'
-                            ? (entryId as Id<'software'>)
-                            : undefined,
-                    serviceId:
-                        entryType === 'service'
-                            ? (entryId as Id<'services'>)
-                            : undefined,
-                    tagId,
-                    createdAt: Date.now()
-                });
+    // Add new associations
+    for (const tagId of newTagIds) {
+        if (!existingTagIds.has(tagId)) {
+            await ctx.db.insert('entryTags', {
+                ...entryRefFields(entryType, entryId),
+                tagId,
+                createdAt: Date.now()
+            });
 
-                const tag = await ctx.db.get(tagId);
-                if (tag) {
-                    await ctx.db.patch(tagId, {
-                        usageCount: tag.usageCount + 1
-                    });
-                }
+            const tag = await ctx.db.get(tagId);
+            if (tag) {
+                await ctx.db.patch(tagId, {
+                    usageCount: tag.usageCount + 1
+                });
             }
         }
     }
+}
+
+// Set all tags for an entry, replacing existing tags (requires
+// authentication - owner or moderator only)
+export const setTagsForEntry = mutation({
+    args: {
+        entryType: entryTypeValidator,
+        entryId: v.string(),
+        tagIds: v.array(v.id('tags'))
+    },
+    handler: async (ctx, args) => {
+        const { entryType, entryId, tagIds } = args;
+
+        // Also makes sure the entry exists so the stored entryKey is valid
+        await requireEntryEditor(ctx, entryType, entryId, 'edit entry tags');
+
+        const before = await loadEntryState(ctx, entryType, entryId);
+        await replaceEntryTags(ctx, entryType, entryId, tagIds);
+
+        await refreshSearchText(ctx, entryType, entryId);
+        await recordRevision(ctx, entryType, entryId, 'tags', before);
+    }
 });
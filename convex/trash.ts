@@ -0,0 +1,262 @@
+import { v } from 'convex/values';
+import type { UserIdentity } from 'convex/server';
+import { internalMutation, mutation, query } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import { queryEntryTable, withCategory } from './entries';
+import type { AnyEntry, Category } from './entries';
+import type { EntryTable } from './entryRefs';
+import {
+    categories,
+    entryTables,
+    getEntryDoc,
+    normalizeEntryRef,
+    toEntryKey
+} from './entryRefs';
+import { deleteEntryCascade } from './entryDeletion';
+import { getRole, hasRole } from './permissions';
+import type { Role } from './permissions';
+import { updateEntryStats } from './stats';
+
+// How long a deleted entry stays restorable before it is purged
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Expired entries scheduled for purging per transaction
+const PURGE_BATCH_SIZE = 50;
+
+const categoryValidator = v.union(
+    v.literal('game'),
+    v.literal('hardware'),
+    v.literal('place'),
+    v.literal('software'),
+    v.literal('service')
+);
+
+// Take an entry's tags and features out of their usage counts (sign -1) or put
+// them back (sign 1), so trashed entries aren't counted
+export async function adjustTaxonomyUsage(
+    ctx: MutationCtx,
+    entryType: Category,
+    entryId: string,
+    sign: 1 | -1
+): Promise<void> {
+    const entryKey = toEntryKey(entryType, entryId);
+    const [entryTags, entryFeatures] = await Promise.all([
+        ctx.db
+            .query('entryTags')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect(),
+        ctx.db
+            .query('entryFeatures')
+            .withIndex('by_entry', (q) => q.eq('entryKey', entryKey))
+            .collect()
+    ]);
+
+    for (const { tagId } of entryTags) {
+        const tag = await ctx.db.get(tagId);
+        if (tag) {
+            await ctx.db.patch(tagId, {
+                usageCount: Math.max(0, tag.usageCount + sign)
+            });
+        }
+    }
+    for (const { featureId } of entryFeatures) {
+        const feature = await ctx.db.get(featureId);
+        if (feature) {
+            await ctx.db.patch(featureId, {
+                usageCount: Math.max(0, feature.usageCount + sign)
+            });
+        }
+    }
+}
+
+/**
+ * Moves an entry to the trash. Trashed entries are hidden from every listing,
+ * search and counter, and are purged for good after TRASH_RETENTION_MS.
+ */
+export async function moveEntryToTrash(
+    ctx: MutationCtx,
+    entryType: Category,
+    entry: Doc<EntryTable>,
+    userId: string
+): Promise<void> {
+    await ctx.db.patch(entry._id, {
+        deletedAt: Date.now(),
+        deletedBy: userId
+    });
+    await updateEntryStats(ctx, entryType, entry, null);
+    await adjustTaxonomyUsage(ctx, entryType, entry._id, -1);
+}
+
+// Owners can restore their own entries; entries without a recorded owner can
+// be restored by whoever deleted them. Moderators can restore anything.
+function canRestore(
+    identity: UserIdentity,
+    role: Role,
+    entry: AnyEntry
+): boolean {
+    if (hasRole(role, 'moderator')) return true;
+    if (entry.createdBy) return entry.createdBy === identity.subject;
+    return entry.deletedBy === identity.subject;
+}
+
+// ============================================
+// TRASH QUERIES
+// ============================================
+
+// Entries in the trash that the current user can restore, most recently
+// deleted first
+export const getTrash = query({
+    args: {},
+    handler: async (ctx) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return [];
+        }
+
+        const role = await getRole(ctx, identity.subject);
+        const cutoff = Date.now() - TRASH_RETENTION_MS;
+        const perCategory = await Promise.all(
+            categories.map(async (category) => {
+                const docs = await queryEntryTable(ctx, category)
+                    .withIndex('by_deleted', (q) => q.gt('deletedAt', cutoff))
+                    .order('desc')
+                    .collect();
+                return docs.map((doc) => withCategory(doc, category));
+            })
+        );
+
+        return perCategory
+            .flat()
+            .filter((entry) => canRestore(identity, role, entry))
+            .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+            .map((entry) => ({
+                entry,
+                purgeAt: (entry.deletedAt ?? 0) + TRASH_RETENTION_MS
+            }));
+    }
+});
+
+// ============================================
+// TRASH MUTATIONS
+// ============================================
+
+// Restore an entry from the trash (requires authentication - owner or
+// moderator only)
+export const restoreEntry = mutation({
+    args: {
+        entryType: v.union(
+            v.literal('game'),
+            v.literal('hardware'),
+            v.literal('place'),
+            v.literal('software'),
+            v.literal('service')
+        ),
+        entryId: v.string()
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            throw new Error('You must be logged in to restore an entry');
+        }
+
+        const ref = normalizeEntryRef(ctx, args.entryType, args.entryId);
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (!entry || entry.deletedAt === undefined) {
+            throw new Error('Entry not found in trash');
+        }
+
+        if (entry.deletedAt + TRASH_RETENTION_MS <= Date.now()) {
+            throw new Error(
+                'This entry has been in the trash too long to restore'
+            );
+        }
+
+        const role = await getRole(ctx, identity.subject);
+        if (!canRestore(identity, role, entry)) {
+            throw new Error('You can only restore entries you created');
+        }
+
+        await ctx.db.patch(entry._id, {
+            deletedAt: undefined,
+            deletedBy: undefined
+        });
+        await updateEntryStats(ctx, args.entryType, null, entry);
+        await adjustTaxonomyUsage(ctx, args.entryType, entry._id, 1);
+    }
+});
+
+// Permanently delete entries that have been in the trash longer than the
+// retention period. Runs daily (see crons.ts).
+export const purgeExpiredEntries = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const cutoff = Date.now() - TRASH_RETENTION_MS;
+        for (const category of categories) {
+            await ctx.scheduler.runAfter(0, internal.trash.purgeExpiredBatch, {
+                category,
+                cutoff
+            });
+        }
+    }
+});
+
+// Schedule a purge for each entry in one page of a category's expired
+// entries, then move on to the next page. Each entry is purged in its own
+// transaction, so a cascade that fails leaves that entry for the next daily
+// run without holding up the others.
+export const purgeExpiredBatch = internalMutation({
+    args: {
+        category: categoryValidator,
+        cutoff: v.number(),
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query(entryTables[args.category] as 'games')
+            .withIndex('by_deleted', (q) =>
+                q.gt('deletedAt', 0).lte('deletedAt', args.cutoff)
+            )
+            .paginate({
+                cursor: args.cursor ?? null,
+                numItems: PURGE_BATCH_SIZE
+            });
+
+        for (const entry of result.page) {
+            await ctx.scheduler.runAfter(0, internal.trash.purgeEntry, {
+                category: args.category,
+                entryId: entry._id,
+                cutoff: args.cutoff
+            });
+        }
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(0, internal.trash.purgeExpiredBatch, {
+                ...args,
+                cursor: result.continueCursor
+            });
+        }
+    }
+});
+
+// Purge one expired entry, unless it was restored in the meantime
+export const purgeEntry = internalMutation({
+    args: {
+        category: categoryValidator,
+        entryId: v.string(),
+        cutoff: v.number()
+    },
+    handler: async (ctx, args) => {
+        const ref = normalizeEntryRef(ctx, args.category, args.entryId);
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (
+            !entry ||
+            entry.deletedAt === undefined ||
+            entry.deletedAt > args.cutoff
+        ) {
+            return;
+        }
+        await deleteEntryCascade(ctx, args.category, entry as Doc<'games'>);
+    }
+});
@@ -0,0 +1,278 @@
+import { v } from 'convex/values';
+import { internalMutation, query } from './_generated/server';
+import type { MutationCtx, QueryCtx } from './_generated/server';
+import type { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import { getEntryDoc, normalizeEntryRef } from './entryRefs';
+import { fileAssociationsBackfilled } from './migrations';
+import { viewerHasRole } from './permissions';
+import {
+    deleteUploadedFile,
+    getUploadedFile,
+    UPLOAD_URL_TTL_MS
+} from './storage';
+
+// Photos are uploaded before their entry is created, so an upload only counts
+// as abandoned once it has gone unreferenced for this long
+export const UPLOAD_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+const BATCH_SIZE = 100;
+
+// Longest an action can run, and so the longest finalizeUpload can take
+const ACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Number of past runs shown in the admin report
+const REPORT_RUNS = 30;
+
+// Whether an upload is used as an entry photo or a comment photo. Entry
+// photos are found through the file's association, which create and update
+// set when they claim a photo (see storage.claimEntryPhotos). Photos uploaded
+// before associations existed only have one once
+// migrations:backfillFileAssociations has run, so until then unassociated
+// uploads count as referenced.
+async function isReferenced(
+    ctx: QueryCtx,
+    file: Doc<'uploadedFiles'>,
+    backfilled: boolean
+): Promise<boolean> {
+    if (!backfilled && !file.associatedEntryId) return true;
+
+    if (file.associatedEntryType && file.associatedEntryId) {
+        const ref = normalizeEntryRef(
+            ctx,
+            file.associatedEntryType,
+            file.associatedEntryId
+        );
+        const entry = ref ? await getEntryDoc(ctx, ref) : null;
+        if (entry?.photos?.includes(file.storageId)) return true;
+    }
+
+    const comment = await ctx.db
+        .query('comments')
+        .withIndex('by_photo', (q) => q.eq('photo', file.storageId))
+        .first();
+    return comment !== null;
+}
+
+// Whether a blob is a registered upload or one of its resized variants.
+// Variants are stored while finalizeUpload processes the upload, so their
+// file row is created at most ACTION_TIMEOUT_MS after them.
+async function isRegisteredBlob(
+    ctx: QueryCtx,
+    blob: { _id: Id<'_storage'>; _creationTime: number }
+): Promise<boolean> {
+    if (await getUploadedFile(ctx, blob._id)) return true;
+
+    const files = await ctx.db
+        .query('uploadedFiles')
+        .withIndex('by_created', (q) =>
+            q
+                .gte('createdAt', blob._creationTime)
+                .lte('createdAt', blob._creationTime + ACTION_TIMEOUT_MS)
+        )
+        .collect();
+    return files.some((file) =>
+        file.variants?.some((variant) => variant.storageId === blob._id)
+    );
+}
+
+// Add a batch's deletions to a run's totals
+async function addToRun(
+    ctx: MutationCtx,
+    runId: Id<'uploadCleanupRuns'>,
+    filesDeleted: number,
+    bytesReclaimed: number
+): Promise<void> {
+    const run = await ctx.db.get(runId);
+    if (run) {
+        await ctx.db.patch(runId, {
+            filesDeleted: run.filesDeleted + filesDeleted,
+            bytesReclaimed: run.bytesReclaimed + bytesReclaimed
+        });
+    }
+}
+
+// ============================================
+// CLEANUP JOBS
+// ============================================
+
+// Start a cleanup run. Runs daily (see crons.ts).
+export const collectOrphanedUploads = internalMutation({
+    args: {},
+    handler: async (ctx) => {
+        const now = Date.now();
+        const runId = await ctx.db.insert('uploadCleanupRuns', {
+            startedAt: now,
+            filesDeleted: 0,
+            bytesReclaimed: 0
+        });
+
+        await ctx.scheduler.runAfter(
+            0,
+            internal.uploadCleanup.collectOrphanedUploadsBatch,
+            { runId, cutoff: now - UPLOAD_GRACE_PERIOD_MS }
+        );
+    }
+});
+
+// Delete unreferenced uploads from one page of files uploaded before the
+// cutoff, add them to the run's totals, then schedule the next page
+export const collectOrphanedUploadsBatch = internalMutation({
+    args: {
+        runId: v.id('uploadCleanupRuns'),
+        cutoff: v.number(),
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const result = await ctx.db
+            .query('uploadedFiles')
+            .withIndex('by_created', (q) => q.lt('createdAt', args.cutoff))
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        const backfilled = await fileAssociationsBackfilled(ctx);
+        let filesDeleted = 0;
+        let bytesReclaimed = 0;
+
+        for (const file of result.page) {
+            if (await isReferenced(ctx, file, backfilled)) continue;
+
+            bytesReclaimed += await deleteUploadedFile(ctx, file);
+            filesDeleted++;
+        }
+
+        await addToRun(ctx, args.runId, filesDeleted, bytesReclaimed);
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.uploadCleanup.collectOrphanedUploadsBatch,
+                { ...args, cursor: result.continueCursor }
+            );
+        } else {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.uploadCleanup.collectPendingUploads,
+                { runId: args.runId, cutoff: args.cutoff }
+            );
+        }
+    }
+});
+
+// Move on to the oldest pending upload from before the cutoff, or finish the
+// run once there are none left. Blobs uploaded to URLs that were never
+// finalized have no uploadedFiles row, so they are found by when they were
+// stored instead.
+export const collectPendingUploads = internalMutation({
+    args: {
+        runId: v.id('uploadCleanupRuns'),
+        cutoff: v.number()
+    },
+    handler: async (ctx, args) => {
+        const pending = await ctx.db
+            .query('pendingUploads')
+            .withIndex('by_created', (q) => q.lt('createdAt', args.cutoff))
+            .first();
+
+        if (!pending) {
+            await ctx.db.patch(args.runId, { finishedAt: Date.now() });
+            return;
+        }
+
+        await ctx.scheduler.runAfter(
+            0,
+            internal.uploadCleanup.collectPendingUploadBlobs,
+            { ...args, pendingUploadId: pending._id }
+        );
+    }
+});
+
+// Delete one page of the unregistered blobs stored while a pending upload's
+// URL was valid, then the pending upload itself once every page is done
+export const collectPendingUploadBlobs = internalMutation({
+    args: {
+        runId: v.id('uploadCleanupRuns'),
+        cutoff: v.number(),
+        pendingUploadId: v.id('pendingUploads'),
+        cursor: v.optional(v.string())
+    },
+    handler: async (ctx, args) => {
+        const pending = await ctx.db.get(args.pendingUploadId);
+        if (!pending) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.uploadCleanup.collectPendingUploads,
+                { runId: args.runId, cutoff: args.cutoff }
+            );
+            return;
+        }
+
+        const result = await ctx.db.system
+            .query('_storage')
+            .withIndex('by_creation_time', (q) =>
+                q
+                    .gte('_creationTime', pending.createdAt)
+                    .lte('_creationTime', pending.createdAt + UPLOAD_URL_TTL_MS)
+            )
+            .paginate({ cursor: args.cursor ?? null, numItems: BATCH_SIZE });
+
+        let filesDeleted = 0;
+        let bytesReclaimed = 0;
+        for (const blob of result.page) {
+            if (await isRegisteredBlob(ctx, blob)) continue;
+
+            await ctx.storage.delete(blob._id);
+            bytesReclaimed += blob.size;
+            filesDeleted++;
+        }
+        await addToRun(ctx, args.runId, filesDeleted, bytesReclaimed);
+
+        if (!result.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.uploadCleanup.collectPendingUploadBlobs,
+                { ...args, cursor: result.continueCursor }
+            );
+            return;
+        }
+
+        await ctx.db.delete(pending._id);
+        await ctx.scheduler.runAfter(
+            0,
+            internal.uploadCleanup.collectPendingUploads,
+            { runId: args.runId, cutoff: args.cutoff }
+        );
+    }
+});
+
+// ============================================
+// CLEANUP REPORT
+// ============================================
+
+// The last REPORT_RUNS cleanup runs, newest first, with their totals (admins
+// only)
+export const getUploadCleanupReport = query({
+    args: {},
+    handler: async (ctx) => {
+        if (!(await viewerHasRole(ctx, 'admin'))) {
+            return null;
+        }
+
+        const runs = await ctx.db
+            .query('uploadCleanupRuns')
+            .withIndex('by_started')
+            .order('desc')
+            .take(REPORT_RUNS);
+
+        return {
+            runs,
+            totalFilesDeleted: runs.reduce(
+                (sum, run) => sum + run.filesDeleted,
+                0
+            ),
+            totalBytesReclaimed: runs.reduce(
+                (sum, run) => sum + run.bytesReclaimed,
+                0
+            )
+        };
+    }
+});
@@ -0,0 +1,87 @@
+import { v } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import { getRole, hasRole, requireRole, viewerHasRole } from './permissions';
+import { userRole } from './schema';
+
+// ============================================
+// USER QUERIES
+// ============================================
+
+// The signed-in user's id and role, or null when signed out
+export const getCurrentUser = query({
+    args: {},
+    handler: async (ctx) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            return null;
+        }
+
+        return {
+            userId: identity.subject,
+            name: identity.name,
+            role: await getRole(ctx, identity.subject)
+        };
+    }
+});
+
+// Users with a granted role above 'user' (moderators and admins only)
+export const getUsersWithRoles = query({
+    args: {},
+    handler: async (ctx) => {
+        if (!(await viewerHasRole(ctx, 'moderator'))) {
+            return [];
+        }
+
+        const users = await ctx.db.query('users').collect();
+        return users.filter((user) => user.role !== 'user');
+    }
+});
+
+// ============================================
+// USER MUTATIONS
+// ============================================
+
+// Grant or change a user's role. Admins can assign any role; moderators can
+// only grant or revoke the contributor role.
+export const setUserRole = mutation({
+    args: {
+        userId: v.string(),
+        role: userRole
+    },
+    handler: async (ctx, args) => {
+        const identity = await requireRole(ctx, 'moderator', 'change roles');
+
+        if (args.userId === identity.subject) {
+            throw new Error('You cannot change your own role');
+        }
+
+        const currentRole = await getRole(ctx, args.userId);
+        if (
+            identity.role !== 'admin' &&
+            (hasRole(currentRole, 'moderator') ||
+                hasRole(args.role, 'moderator'))
+        ) {
+            throw new Error(
+                'Only admins can grant or revoke moderator and admin roles'
+            );
+        }
+
+        const existing = await ctx.db
+            .query('users')
+            .withIndex('by_user_id', (q) => q.eq('userId', args.userId))
+            .first();
+
+        const row = {
+            userId: args.userId,
+            role: args.role,
+            grantedBy: identity.subject,
+            updatedAt: Date.now()
+        };
+
+        if (existing) {
+            await ctx.db.patch(existing._id, row);
+        } else {
+            await ctx.db.insert('users', row);
+        }
+    }
+});
@@ -0,0 +1,161 @@
+import { v } from 'convex/values';
+import type { Infer } from 'convex/values';
+import { mutation, query } from './_generated/server';
+import type { MutationCtx } from './_generated/server';
+import type { Doc } from './_generated/dataModel';
+import { requireEntryByKey, toEntryKey } from './entryRefs';
+import { entryType } from './schema';
+
+// A review or comment
+const voteTarget = v.union(v.id('reviews'), v.id('comments'));
+type VoteTarget = Infer<typeof voteTarget>;
+
+// Orders for review and comment lists
+export const helpfulnessSort = v.union(
+    v.literal('newest'),
+    v.literal('oldest'),
+    v.literal('helpful')
+);
+export type HelpfulnessSort = Infer<typeof helpfulnessSort>;
+
+// z-score for 95% confidence
+const CONFIDENCE_Z = 1.96;
+
+// Lower bound of the Wilson score interval for the share of helpful votes.
+// Unlike the raw share, one helpful vote doesn't outrank 50 helpful votes
+// out of 52.
+export function helpfulScore(helpful: number, unhelpful: number): number {
+    const total = helpful + unhelpful;
+    if (total === 0) return 0;
+
+    const share = helpful / total;
+    const z2 = CONFIDENCE_Z * CONFIDENCE_Z;
+    return (
+        (share +
+            z2 / (2 * total) -
+            CONFIDENCE_Z *
+                Math.sqrt((share * (1 - share) + z2 / (4 * total)) / total)) /
+        (1 + z2 / total)
+    );
+}
+
+// Apply changes in vote counts to a review or comment
+async function adjustVoteCounts(
+    ctx: MutationCtx,
+    target: Doc<'reviews'> | Doc<'comments'>,
+    helpfulDelta: number,
+    unhelpfulDelta: number
+): Promise<void> {
+    const helpfulCount = Math.max(0, (target.helpfulCount ?? 0) + helpfulDelta);
+    const unhelpfulCount = Math.max(
+        0,
+        (target.unhelpfulCount ?? 0) + unhelpfulDelta
+    );
+    await ctx.db.patch(target._id, {
+        helpfulCount,
+        unhelpfulCount,
+        helpfulScore: helpfulScore(helpfulCount, unhelpfulCount)
+    });
+}
+
+// Delete the votes on a review or comment being deleted
+export async function deleteVotes(
+    ctx: MutationCtx,
+    targetId: VoteTarget
+): Promise<void> {
+    const votes = await ctx.db
+        .query('votes')
+        .withIndex('by_target', (q) => q.eq('targetId', targetId))
+        .collect();
+    for (const vote of votes) {
+        await ctx.db.delete(vote._id);
+    }
+}
+
+// The current user's votes on an entry's reviews and comments, keyed by
+// review or comment id
+export const getMyVotes = query({
+    args: {
+        entryType: entryType,
+        entryId: v.string()
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) return {};
+
+        const votes = await ctx.db
+            .query('votes')
+            .withIndex('by_user_entry', (q) =>
+                q
+                    .eq('userId', identity.subject)
+                    .eq('entryKey', toEntryKey(args.entryType, args.entryId))
+            )
+            .collect();
+        return Object.fromEntries(
+            votes.map((vote) => [vote.targetId, vote.helpful])
+        ) as Partial<Record<VoteTarget, boolean>>;
+    }
+});
+
+// Vote a review or comment helpful (true) or not helpful (false), or take
+// back a vote (null). Voting again replaces the previous vote.
+export const castVote = mutation({
+    args: {
+        targetId: voteTarget,
+        helpful: v.union(v.boolean(), v.null())
+    },
+    handler: async (ctx, args) => {
+        const identity = await ctx.auth.getUserIdentity();
+        if (!identity) {
+            throw new Error('You must be logged in to vote');
+        }
+
+        const target = await ctx.db.get(args.targetId);
+        if (
+            !target?.entryKey ||
+            ('deletedAt' in target && target.deletedAt !== undefined)
+        ) {
+            throw new Error('Review or comment not found');
+        }
+        if (target.userId === identity.subject) {
+            throw new Error('You cannot vote on your own reviews or comments');
+        }
+        await requireEntryByKey(ctx, target.entryKey);
+
+        const existing = await ctx.db
+            .query('votes')
+            .withIndex('by_user_target', (q) =>
+                q.eq('userId', identity.subject).eq('targetId', args.targetId)
+            )
+            .unique();
+        const { helpful } = args;
+        const previous = existing?.helpful ?? null;
+        if (previous === helpful) return;
+
+        if (helpful === null) {
+            if (existing) await ctx.db.delete(existing._id);
+        } else if (existing) {
+            await ctx.db.patch(existing._id, {
+                helpful,
+                updatedAt: Date.now()
+            });
+        } else {
+            await ctx.db.insert('votes', {
+                targetId: args.targetId,
+                entryKey: target.entryKey,
+                userId: identity.subject,
+                helpful,
+                createdAt: Date.now()
+            });
+        }
+
+        const count = (vote: boolean | null, value: boolean) =>
+            vote === value ? 1 : 0;
+        await adjustVoteCounts(
+            ctx,
+            target,
+            count(helpful, true) - count(previous, true),
+            count(helpful, false) - count(previous, false)
+        );
+    }
+});
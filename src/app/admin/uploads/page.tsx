@@ -0,0 +1,14 @@
+import { UploadCleanupReport } from '~/components/UploadCleanupReport';
+
+export default function UploadCleanupPage() {
+    return (
+        <div className="flex min-h-screen flex-col items-center px-4 py-12 sm:px-8">
+            <div className="flex w-full max-w-4xl flex-col gap-8">
+                <h1 className="font-heading text-4xl font-bold text-[#F5F6FA]">
+                    Upload Cleanup
+                </h1>
+                <UploadCleanupReport />
+            </div>
+        </div>
+    );
+}
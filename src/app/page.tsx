@@ -7,10 +7,11 @@ import { TotalEntriesCounter } from '~/components/TotalEntriesCounter';
 import { SkeletonCounter, SkeletonEntriesGrid } from '~/components/ui/skeleton';
 
 export default async function Page() {
-    // Fetch initial entries on the server for SSR
-    const initialEntries = await fetchQuery(api.entries.getEntries, {
-        limit: 50
-    });
+    // Fetch the first page of entries on the server for SSR
+    const { page: initialEntries } = await fetchQuery(
+        api.entries.getPaginatedEntries,
+        { paginationOpts: { numItems: 24, cursor: null } }
+    );
 
     return (
         <div className="flex min-h-screen flex-col items-center px-4 py-12 sm:px-8">
@@ -0,0 +1,35 @@
+import { notFound } from 'next/navigation';
+import { fetchQuery, api } from '~/lib/convex';
+import { TagEntries } from '~/components/TagEntries';
+
+interface TagPageProps {
+    params: Promise<{ slug: string }>;
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+    const { slug } = await params;
+
+    const tag = await fetchQuery(api.tags.getTagBySlug, { slug });
+
+    if (!tag || tag.status === 'proposed') {
+        notFound();
+    }
+
+    return (
+        <div className="flex min-h-screen flex-col items-center px-4 py-12 sm:px-8">
+            <div className="flex w-full max-w-6xl flex-col gap-8">
+                <div className="flex flex-col gap-2">
+                    <h1 className="font-heading text-4xl font-bold text-[#F5F6FA]">
+                        #{tag.name}
+                    </h1>
+                    {tag.description && (
+                        <p className="text-lg text-[#B9BBC7]">
+                            {tag.description}
+                        </p>
+                    )}
+                </div>
+                <TagEntries tagId={tag._id} />
+            </div>
+        </div>
+    );
+}
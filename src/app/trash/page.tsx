@@ -0,0 +1,14 @@
+import { Trash } from '~/components/Trash';
+
+export default function TrashPage() {
+    return (
+        <div className="flex min-h-screen flex-col items-center px-4 py-12 sm:px-8">
+            <div className="flex w-full max-w-4xl flex-col gap-8">
+                <h1 className="font-heading text-4xl font-bold text-[#F5F6FA]">
+                    Trash
+                </h1>
+                <Trash />
+            </div>
+        </div>
+    );
+}
@@ -22,6 +22,12 @@ import {
     SelectValue
 } from '~/components/ui/select';
 import { EntryDetail } from '~/components/EntryDetail';
+import {
+    CardCover,
+    CardTaxonomy,
+    cardDetailsFor,
+    useEntryCardDetails
+} from '~/components/EntryCardDetails';
 
 type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
 
@@ -126,7 +132,7 @@ interface AccessibilityEntry {
     auditoryAccessibility?: number;
     motorAccessibility?: number;
     cognitiveAccessibility?: number;
-    // tags and accessibilityFeatures are now fetched from junction tables
+    // tags and features come from getEntryCardDetails
     platforms?: string[];
 }
 
@@ -187,6 +193,9 @@ export function AccessibilitySearch({
 
     const entries = debouncedQuery.trim() ? searchResults : allEntries;
     const isLoading = entries === undefined;
+    const cardDetails = useEntryCardDetails(
+        entries as AccessibilityEntry[] | undefined
+    );
 
     // If an entry is selected, show the detail view
     if (selectedEntryId && selectedEntryType) {
@@ -238,66 +247,74 @@ export function AccessibilitySearch({
                 </div>
             ) : entries && entries.length > 0 ? (
                 <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                    {(entries as AccessibilityEntry[]).map((entry) => (
-                        <Card
-                            key={entry._id}
-                            className="hover:ring-primary/50 cursor-pointer transition-all hover:ring-2"
-                            onClick={() =>
-                                onSelectEntry(entry._id, entry.category)
-                            }
-                        >
-                            <CardHeader>
-                                <div className="flex items-start justify-between gap-2">
-                                    <CardTitle className="line-clamp-1 text-lg">
-                                        {entry.name}
-                                    </CardTitle>
-                                    <Badge
-                                        className={
-                                            categoryColors[entry.category]
-                                        }
-                                    >
-                                        {categoryLabels[entry.category]}
-                                    </Badge>
-                                </div>
-                                <RatingStars rating={entry.overallRating} />
-                            </CardHeader>
-                            <CardContent className="flex flex-col gap-3">
-                                <CardDescription className="line-clamp-2">
-                                    {entry.description}
-                                </CardDescription>
+                    {(entries as AccessibilityEntry[]).map((entry) => {
+                        const details = cardDetailsFor(cardDetails, entry);
+                        return (
+                            <Card
+                                key={entry._id}
+                                className="hover:ring-primary/50 cursor-pointer transition-all hover:ring-2"
+                                onClick={() =>
+                                    onSelectEntry(entry._id, entry.category)
+                                }
+                            >
+                                {details?.cover && (
+                                    <CardCover cover={details.cover} />
+                                )}
+                                <CardHeader>
+                                    <div className="flex items-start justify-between gap-2">
+                                        <CardTitle className="line-clamp-1 text-lg">
+                                            {entry.name}
+                                        </CardTitle>
+                                        <Badge
+                                            className={
+                                                categoryColors[entry.category]
+                                            }
+                                        >
+                                            {categoryLabels[entry.category]}
+                                        </Badge>
+                                    </div>
+                                    <RatingStars rating={entry.overallRating} />
+                                </CardHeader>
+                                <CardContent className="flex flex-col gap-3">
+                                    <CardDescription className="line-clamp-2">
+                                        {entry.description}
+                                    </CardDescription>
 
-                                <AccessibilityBadges
-                                    visual={entry.visualAccessibility}
-                                    auditory={entry.auditoryAccessibility}
-                                    motor={entry.motorAccessibility}
-                                    cognitive={entry.cognitiveAccessibility}
-                                    isEntryComplete={
-                                        // Check all fields for completeness
-                                        entry.name.trim() !== '' &&
-                                        entry.description.trim() !== '' &&
-                                        entry.visualAccessibility !==
-                                            undefined &&
-                                        entry.auditoryAccessibility !==
-                                            undefined &&
-                                        entry.motorAccessibility !==
-                                            undefined &&
-                                        entry.cognitiveAccessibility !==
-                                            undefined
-                                    }
-                                />
-
-                                {/* Tags are now fetched from junction tables - use getTagsForEntry query */}
+                                    <AccessibilityBadges
+                                        visual={entry.visualAccessibility}
+                                        auditory={entry.auditoryAccessibility}
+                                        motor={entry.motorAccessibility}
+                                        cognitive={entry.cognitiveAccessibility}
+                                        isEntryComplete={
+                                            // Check all fields for completeness
+                                            entry.name.trim() !== '' &&
+                                            entry.description.trim() !== '' &&
+                                            entry.visualAccessibility !==
+                                                undefined &&
+                                            entry.auditoryAccessibility !==
+                                                undefined &&
+                                            entry.motorAccessibility !==
+                                                undefined &&
+                                            entry.cognitiveAccessibility !==
+                                                undefined
+                                        }
+                                    />
 
-                                {entry.platforms &&
-                                    entry.platforms.length > 0 && (
-                                        <div className="text-muted-foreground text-xs">
-                                            Platforms:{' '}
-                                            {entry.platforms.join(', ')}
-                                        </div>
+                                    {details && (
+                                        <CardTaxonomy details={details} />
                                     )}
-                            </CardContent>
-                        </Card>
-                    ))}
+
+                                    {entry.platforms &&
+                                        entry.platforms.length > 0 && (
+                                            <div className="text-muted-foreground text-xs">
+                                                Platforms:{' '}
+                                                {entry.platforms.join(', ')}
+                                            </div>
+                                        )}
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
                 </div>
             ) : (
                 <div className="text-muted-foreground py-8 text-center">
@@ -1,8 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import Image from 'next/image';
-import { useMutation, useQuery } from 'convex/react';
+import { useAction, useMutation, useQuery } from 'convex/react';
 import { useUser, SignInButton } from '@clerk/nextjs';
 import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
@@ -26,6 +25,13 @@ import {
     SelectValue
 } from '~/components/ui/select';
 import { Badge } from '~/components/ui/badge';
+import {
+    PhotoDetailsEditor,
+    isMissingAltText,
+    newUploadedPhoto,
+    toPhotoDetails
+} from '~/components/PhotoDetailsEditor';
+import type { UploadedPhoto } from '~/components/PhotoDetailsEditor';
 
 type AccessibilityType =
     | 'visual'
@@ -678,7 +684,7 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
     const createSoftware = useMutation(api.software.createSoftware);
     const createService = useMutation(api.services.createService);
     const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
-    const registerFile = useMutation(api.storage.registerFile);
+    const finalizeUpload = useAction(api.storage.finalizeUpload);
     const getOrCreateFeature = useMutation(api.features.getOrCreateFeature);
     const setFeaturesForEntry = useMutation(api.features.setFeaturesForEntry);
     const getOrCreateTag = useMutation(api.tags.getOrCreateTag);
@@ -735,9 +741,9 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
     >([]);
 
     // File upload state
-    const [uploadedPhotos, setUploadedPhotos] = React.useState<
-        Array<{ storageId: Id<'_storage'>; name: string; preview: string }>
-    >([]);
+    const [uploadedPhotos, setUploadedPhotos] = React.useState<UploadedPhoto[]>(
+        []
+    );
     const [isUploading, setIsUploading] = React.useState(false);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -750,7 +756,8 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
         try {
             for (const file of Array.from(files)) {
                 // Step 1: Get a short-lived upload URL
-                const uploadUrl = await generateUploadUrl();
+                const { url: uploadUrl, pendingUploadId } =
+                    await generateUploadUrl();
 
                 // Step 2: POST the file to the upload URL and receive a storageId
                 const response = await fetch(uploadUrl, {
@@ -777,24 +784,24 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
                     throw new Error('No storageId returned from upload');
                 }
 
-                // Step 3: Persist the storageId in the database
-                await registerFile({
+                // Step 3: Validate the file and record it as ours. The server
+                // keeps a copy without EXIF metadata under a new storageId.
+                const processedId = await finalizeUpload({
                     storageId,
-                    fileName: file.name,
-                    fileType: file.type,
-                    fileSize: file.size
+                    pendingUploadId,
+                    fileName: file.name
                 });
 
-                const preview = URL.createObjectURL(file);
-
                 setUploadedPhotos((prev) => [
                     ...prev,
-                    { storageId, name: file.name, preview }
+                    newUploadedPhoto(processedId, file)
                 ]);
             }
         } catch (error) {
             console.error('Failed to upload file:', error);
-            alert('Failed to upload file. Please try again.');
+            alert(
+                `Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
         } finally {
             setIsUploading(false);
             if (fileInputRef.current) {
@@ -816,6 +823,10 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!name.trim() || !description.trim()) return;
+        if (isMissingAltText(uploadedPhotos)) {
+            alert('Please add alt text to every photo.');
+            return;
+        }
 
         setIsSubmitting(true);
         try {
@@ -857,7 +868,7 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
                 motorAccessibility,
                 cognitiveAccessibility,
                 website: website.trim() || undefined,
-                photos: uploadedPhotos.map((p) => p.storageId)
+                photoDetails: toPhotoDetails(uploadedPhotos)
             };
 
             let entryId: string;
@@ -951,6 +962,9 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
             onSuccess?.();
         } catch (error) {
             console.error('Failed to create entry:', error);
+            alert(
+                `Failed to create entry: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
         } finally {
             setIsSubmitting(false);
         }
@@ -1027,30 +1041,12 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
 
                         <div className="flex flex-col gap-2">
                             <Label>Photos</Label>
+                            <PhotoDetailsEditor
+                                photos={uploadedPhotos}
+                                onChange={setUploadedPhotos}
+                                onRemove={removePhoto}
+                            />
                             <div className="flex flex-wrap gap-2">
-                                {uploadedPhotos.map((photo) => (
-                                    <div
-                                        key={photo.storageId}
-                                        className="relative group w-20 h-20"
-                                    >
-                                        <Image
-                                            src={photo.preview}
-                                            alt={photo.name}
-                                            fill
-                                            unoptimized
-                                            className="object-cover rounded-md"
-                                        />
-                                        <button
-                                            type="button"
-                                            onClick={() =>
-                                                removePhoto(photo.storageId)
-                                            }
-                                            className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
-                                        >
-                                            X
-                                        </button>
-                                    </div>
-                                ))}
                                 <label
                                     className={`w-20 h-20 border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center cursor-pointer hover:border-gray-400 transition-colors ${
                                         isUploading ? 'opacity-50' : ''
@@ -1069,7 +1065,7 @@ export function AddEntryForm({ onSuccess }: { onSuccess?: () => void }) {
                                     <input
                                         ref={fileInputRef}
                                         type="file"
-                                        accept="image/*"
+                                        accept="image/jpeg,image/png,image/gif,image/webp"
                                         multiple
                                         onChange={handleFileSelect}
                                         className="hidden"
@@ -1,9 +1,8 @@
 'use client';
 
 import * as React from 'react';
-import Image from 'next/image';
 import { useRouter } from 'next/navigation';
-import { useMutation, useQuery } from 'convex/react';
+import { useAction, useMutation, useQuery } from 'convex/react';
 import { useUser, SignInButton } from '@clerk/nextjs';
 import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
@@ -22,6 +21,13 @@ import {
 } from '~/components/ui/dialog';
 import { Badge } from '~/components/ui/badge';
 import { Card, CardContent } from '~/components/ui/card';
+import {
+    PhotoDetailsEditor,
+    isMissingAltText,
+    newUploadedPhoto,
+    toPhotoDetails
+} from '~/components/PhotoDetailsEditor';
+import type { UploadedPhoto } from '~/components/PhotoDetailsEditor';
 
 type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
 
@@ -196,7 +202,7 @@ export function AddEntryModal({
     const createSoftware = useMutation(api.software.createSoftware);
     const createService = useMutation(api.services.createService);
     const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
-    const registerFile = useMutation(api.storage.registerFile);
+    const finalizeUpload = useAction(api.storage.finalizeUpload);
     const getOrCreateFeature = useMutation(api.features.getOrCreateFeature);
     const setFeaturesForEntry = useMutation(api.features.setFeaturesForEntry);
     const getOrCreateTag = useMutation(api.tags.getOrCreateTag);
@@ -245,9 +251,9 @@ export function AddEntryModal({
     const [newFeature, setNewFeature] = React.useState('');
     const [newFeatureRating, setNewFeatureRating] = React.useState(3);
 
-    const [uploadedPhotos, setUploadedPhotos] = React.useState<
-        Array<{ storageId: string; name: string; preview: string }>
-    >([]);
+    const [uploadedPhotos, setUploadedPhotos] = React.useState<UploadedPhoto[]>(
+        []
+    );
     const [isUploading, setIsUploading] = React.useState(false);
     const fileInputRef = React.useRef<HTMLInputElement>(null);
 
@@ -281,7 +287,8 @@ export function AddEntryModal({
         setIsUploading(true);
         try {
             for (const file of Array.from(files)) {
-                const uploadUrl = await generateUploadUrl();
+                const { url: uploadUrl, pendingUploadId } =
+                    await generateUploadUrl();
 
                 console.log('Upload URL:', uploadUrl);
 
@@ -327,18 +334,17 @@ export function AddEntryModal({
                     );
                 }
 
-                await registerFile({
+                // The server keeps a copy without EXIF metadata under a new
+                // storage ID
+                const processedId = await finalizeUpload({
                     storageId: storageId as Id<'_storage'>,
-                    fileName: file.name,
-                    fileType: file.type,
-                    fileSize: file.size
+                    pendingUploadId,
+                    fileName: file.name
                 });
 
-                const preview = URL.createObjectURL(file);
-
                 setUploadedPhotos((prev) => [
                     ...prev,
-                    { storageId, name: file.name, preview }
+                    newUploadedPhoto(processedId, file)
                 ]);
             }
         } catch (error) {
@@ -392,6 +398,10 @@ export function AddEntryModal({
 
     const handleSubmit = async () => {
         if (!name.trim() || !description.trim() || !category) return;
+        if (isMissingAltText(uploadedPhotos)) {
+            alert('Please add alt text to every photo.');
+            return;
+        }
 
         setIsSubmitting(true);
         try {
@@ -438,7 +448,7 @@ export function AddEntryModal({
                 motorAccessibility,
                 cognitiveAccessibility,
                 website: website.trim() || undefined,
-                photos: uploadedPhotos.map((p) => p.storageId as Id<'_storage'>)
+                photoDetails: toPhotoDetails(uploadedPhotos)
             };
 
             let entryId: string;
@@ -512,6 +522,9 @@ export function AddEntryModal({
             onSuccess?.();
         } catch (error) {
             console.error('Failed to create entry:', error);
+            alert(
+                `Failed to create entry: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
         } finally {
             setIsSubmitting(false);
         }
@@ -811,32 +824,12 @@ export function AddEntryModal({
                                 <div className="flex flex-col gap-6">
                                     <div className="flex flex-col gap-3">
                                         <Label>Photos</Label>
+                                        <PhotoDetailsEditor
+                                            photos={uploadedPhotos}
+                                            onChange={setUploadedPhotos}
+                                            onRemove={removePhoto}
+                                        />
                                         <div className="flex flex-wrap gap-2">
-                                            {uploadedPhotos.map((photo) => (
-                                                <div
-                                                    key={photo.storageId}
-                                                    className="relative group w-20 h-20"
-                                                >
-                                                    <Image
-                                                        src={photo.preview}
-                                                        alt={photo.name}
-                                                        fill
-                                                        unoptimized
-                                                        className="object-cover rounded-md"
-                                                    />
-                                                    <button
-                                                        type="button"
-                                                        onClick={() =>
-                                                            removePhoto(
-                                                                photo.storageId
-                                                            )
-                                                        }
-                                                        className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-xs opacity-0 group-hover:opacity-100 transition-opacity"
-                                                    >
-                                                        X
-                                                    </button>
-                                                </div>
-                                            ))}
                                             <label
                                                 className={`w-20 h-20 border-2 border-dashed border-gray-300 rounded-md flex flex-col items-center justify-center cursor-pointer hover:border-gray-400 transition-colors ${
                                                     isUploading
@@ -861,7 +854,7 @@ export function AddEntryModal({
                                                 <input
                                                     ref={fileInputRef}
                                                     type="file"
-                                                    accept="image/*"
+                                                    accept="image/jpeg,image/png,image/gif,image/webp"
                                                     multiple
                                                     onChange={handleFileSelect}
                                                     className="hidden"
@@ -1,7 +1,10 @@
 'use client';
 
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { Suspense } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
 
 // Dynamically import Clerk components to reduce initial bundle size (~184 KiB savings)
 const SignInButton = dynamic(
@@ -38,6 +41,21 @@ function AuthButtonsSkeleton() {
     );
 }
 
+// Only shown to admins
+function AdminLink() {
+    const user = useQuery(api.users.getCurrentUser);
+    if (user?.role !== 'admin') return null;
+
+    return (
+        <Link
+            href="/admin/uploads"
+            className="text-sm font-medium text-[#B9BBC7] transition-colors hover:text-[#2DE2E6]"
+        >
+            Uploads
+        </Link>
+    );
+}
+
 export default function AuthHeader() {
     return (
         <header className="fixed top-0 left-0 right-0 z-50 flex h-16 items-center justify-between border-b border-[#242433]/50 bg-[#0B0B10]/80 px-6 backdrop-blur-md">
@@ -64,6 +82,13 @@ export default function AuthHeader() {
                         </SignUpButton>
                     </SignedOut>
                     <SignedIn>
+                        <AdminLink />
+                        <Link
+                            href="/trash"
+                            className="text-sm font-medium text-[#B9BBC7] transition-colors hover:text-[#2DE2E6]"
+                        >
+                            Trash
+                        </Link>
                         <UserButton
                             appearance={{
                                 elements: {
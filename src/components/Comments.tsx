@@ -2,11 +2,21 @@
 
 import * as React from 'react';
 import Image from 'next/image';
-import { useQuery, useMutation } from 'convex/react';
+import {
+    useQuery,
+    useMutation,
+    useAction,
+    usePaginatedQuery
+} from 'convex/react';
 import { useUser, SignInButton } from '@clerk/nextjs';
+import type { FunctionReturnType } from 'convex/server';
 import { api } from '../../convex/_generated/api';
 import type { Id } from '../../convex/_generated/dataModel';
+import { MAX_REPLY_DEPTH } from '../../convex/commentThreads';
+import type { HelpfulnessSort } from '../../convex/votes';
+import type { ImageSource } from '../../convex/storage';
 import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
 import { Textarea } from '~/components/ui/textarea';
 import {
     Card,
@@ -17,9 +27,26 @@ import {
 } from '~/components/ui/card';
 import { Badge } from '~/components/ui/badge';
 import { Skeleton } from '~/components/ui/skeleton';
+import { HelpfulVote, HelpfulnessSortSelect } from '~/components/Helpfulness';
+import { ResponsiveImage } from '~/components/ResponsiveImage';
 
 type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
 
+// A top-level comment with every reply below it
+type Thread = FunctionReturnType<
+    typeof api.comments.getCommentsForEntry
+>['page'][number];
+type Comment = Thread['replies'][number];
+
+// Top-level comments per page
+const PAGE_SIZE = 20;
+
+const loadMoreLabels: Record<HelpfulnessSort, string> = {
+    newest: 'Load older comments',
+    oldest: 'Load newer comments',
+    helpful: 'Load more comments'
+};
+
 interface CommentsProps {
     entryId:
         | Id<'games'>
@@ -41,49 +68,494 @@ function formatDate(timestamp: number): string {
     });
 }
 
-export function Comments({ entryId, entryName, entryType }: CommentsProps) {
-    const { isSignedIn, user } = useUser();
-    const comments = useQuery(api.comments.getCommentsForEntry, {
-        entryType,
-        gameId: entryType === 'game' ? (entryId as string) : undefined,
-        hardwareId: entryType === 'hardware' ? (entryId as string) : undefined,
-        placeId: entryType === 'place' ? (entryId as string) : undefined,
-        softwareId: entryType === 'software' ? (entryId as string) : undefined,
-        serviceId: entryType === 'service' ? (entryId as string) : undefined
-    });
+interface CommentFormProps {
+    entryType: Category;
+    entryId: string;
+    parentId?: Id<'comments'>;
+    placeholder: string;
+    submitLabel: string;
+    onDone?: () => void;
+}
+
+// A new top-level comment, or a reply when parentId is set
+function CommentForm({
+    entryType,
+    entryId,
+    parentId,
+    placeholder,
+    submitLabel,
+    onDone
+}: CommentFormProps) {
+    const { user } = useUser();
     const addComment = useMutation(api.comments.addComment);
-    const deleteComment = useMutation(api.comments.deleteComment);
+    const generateUploadUrl = useMutation(api.storage.generateUploadUrl);
+    const finalizeUpload = useAction(api.storage.finalizeUpload);
 
-    const [newComment, setNewComment] = React.useState('');
+    const [content, setContent] = React.useState('');
+    const [photo, setPhoto] = React.useState<{
+        storageId: Id<'_storage'>;
+        preview: string;
+    } | null>(null);
+    const [photoAltText, setPhotoAltText] = React.useState('');
+    const [isUploading, setIsUploading] = React.useState(false);
     const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+    const removePhoto = () => {
+        if (photo) URL.revokeObjectURL(photo.preview);
+        setPhoto(null);
+        setPhotoAltText('');
+    };
+
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setIsUploading(true);
+        setError(null);
+        try {
+            const { url: uploadUrl, pendingUploadId } =
+                await generateUploadUrl();
+            const response = await fetch(uploadUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': file.type || 'application/octet-stream'
+                },
+                body: file
+            });
+            if (!response.ok) {
+                throw new Error(`Upload failed: ${response.status}`);
+            }
+
+            const json = (await response.json()) as { storageId?: string };
+            const storageId = json.storageId as Id<'_storage'> | undefined;
+            if (!storageId) {
+                throw new Error('No storageId returned from upload');
+            }
+
+            // The server keeps a copy without EXIF metadata under a new id
+            const processedId = await finalizeUpload({
+                storageId,
+                pendingUploadId,
+                fileName: file.name
+            });
+            removePhoto();
+            setPhoto({
+                storageId: processedId,
+                preview: URL.createObjectURL(file)
+            });
+        } catch (error) {
+            console.error('Failed to upload photo:', error);
+            setError(
+                error instanceof Error
+                    ? error.message
+                    : 'Failed to upload photo'
+            );
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) {
+                fileInputRef.current.value = '';
+            }
+        }
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!newComment.trim() || !isSignedIn) return;
+        if (!content.trim() || (photo && !photoAltText.trim())) return;
 
         setIsSubmitting(true);
+        setError(null);
         try {
             await addComment({
                 entryType,
-                gameId: entryType === 'game' ? (entryId as string) : undefined,
-                hardwareId:
-                    entryType === 'hardware' ? (entryId as string) : undefined,
-                placeId:
-                    entryType === 'place' ? (entryId as string) : undefined,
-                softwareId:
-                    entryType === 'software' ? (entryId as string) : undefined,
-                serviceId:
-                    entryType === 'service' ? (entryId as string) : undefined,
-                content: newComment.trim()
+                entryId,
+                content: content.trim(),
+                parentId,
+                photo: photo?.storageId,
+                photoAltText: photo ? photoAltText.trim() : undefined
             });
-            setNewComment('');
+            setContent('');
+            removePhoto();
+            onDone?.();
         } catch (error) {
             console.error('Failed to add comment:', error);
+            setError(
+                error instanceof Error ? error.message : 'Failed to add comment'
+            );
         } finally {
             setIsSubmitting(false);
         }
     };
 
+    return (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+            <div className="flex items-start gap-3">
+                {user?.imageUrl && (
+                    <Image
+                        src={user.imageUrl}
+                        alt={user.fullName ?? 'User'}
+                        width={32}
+                        height={32}
+                        className="rounded-full ring-2 ring-[#242433]"
+                    />
+                )}
+                <div className="flex-1">
+                    <Textarea
+                        placeholder={placeholder}
+                        aria-label={parentId ? 'Reply' : 'Comment'}
+                        value={content}
+                        onChange={(e) => setContent(e.target.value)}
+                        rows={parentId ? 2 : 3}
+                        autoFocus={!!parentId}
+                        className="resize-none border-[#242433] bg-[#0B0B10] text-[#F5F6FA] placeholder:text-[#B9BBC7]/50 focus:border-[#2DE2E6]/50"
+                    />
+                </div>
+            </div>
+            {photo && (
+                <div className="flex items-start gap-3">
+                    {/* eslint-disable-next-line @next/next/no-img-element */}
+                    <img
+                        src={photo.preview}
+                        alt={photoAltText || 'Photo to attach'}
+                        className="h-20 w-20 shrink-0 rounded-lg object-cover"
+                    />
+                    <div className="flex flex-1 flex-col gap-2">
+                        <Input
+                            placeholder="Describe the photo for people who can't see it (required)"
+                            aria-label="Photo alt text (required)"
+                            aria-required="true"
+                            value={photoAltText}
+                            onChange={(e) => setPhotoAltText(e.target.value)}
+                            maxLength={250}
+                            className="border-[#242433] bg-[#0B0B10] text-[#F5F6FA]"
+                        />
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="xs"
+                            onClick={removePhoto}
+                            className="self-start text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                        >
+                            Remove photo
+                        </Button>
+                    </div>
+                </div>
+            )}
+            {error && (
+                <p role="alert" className="text-sm text-[#F9A8D4]">
+                    {error}
+                </p>
+            )}
+            <div className="flex justify-end gap-2">
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading || isSubmitting}
+                    className="mr-auto border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                >
+                    {isUploading
+                        ? 'Uploading...'
+                        : photo
+                          ? 'Replace photo'
+                          : 'Add photo'}
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/gif,image/webp"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                    disabled={isUploading}
+                />
+                {onDone && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={onDone}
+                        disabled={isSubmitting}
+                        className="text-[#B9BBC7] hover:text-[#F5F6FA]"
+                    >
+                        Cancel
+                    </Button>
+                )}
+                <Button
+                    type="submit"
+                    disabled={
+                        isSubmitting ||
+                        isUploading ||
+                        !content.trim() ||
+                        (!!photo && !photoAltText.trim())
+                    }
+                    size="sm"
+                    className="bg-[#2DE2E6] text-[#0B0B10] hover:bg-[#2DE2E6]/90"
+                >
+                    {isSubmitting ? 'Posting...' : submitLabel}
+                </Button>
+            </div>
+        </form>
+    );
+}
+
+// A comment's photo as a thumbnail that opens full size in a lightbox
+function CommentPhoto({
+    source,
+    altText
+}: {
+    source: ImageSource;
+    altText: string;
+}) {
+    const [isOpen, setIsOpen] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!isOpen) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setIsOpen(false);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [isOpen]);
+
+    return (
+        <>
+            <button
+                type="button"
+                onClick={() => setIsOpen(true)}
+                aria-label={`View photo full size: ${altText}`}
+                className="mt-2 block overflow-hidden rounded-lg ring-[#2DE2E6] focus-visible:ring-2"
+            >
+                <ResponsiveImage
+                    source={source}
+                    alt={altText}
+                    sizes="240px"
+                    className="max-h-48 w-auto max-w-60 object-cover"
+                />
+            </button>
+            {isOpen && (
+                <div
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label={altText}
+                    className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-[#0B0B10]/95 p-4 backdrop-blur-sm"
+                    onClick={() => setIsOpen(false)}
+                >
+                    <button
+                        type="button"
+                        onClick={() => setIsOpen(false)}
+                        aria-label="Close photo"
+                        autoFocus
+                        className="absolute right-4 top-4 text-[#F5F6FA] hover:text-[#2DE2E6] transition-colors"
+                    >
+                        <span className="text-2xl">✕</span>
+                    </button>
+                    <div className="relative h-[75vh] w-[90vw]">
+                        <ResponsiveImage
+                            source={source}
+                            alt={altText}
+                            sizes="90vw"
+                            className="absolute inset-0 h-full w-full object-contain rounded-lg"
+                            onClick={(e) => e.stopPropagation()}
+                        />
+                    </div>
+                    <p
+                        className="max-w-2xl text-center text-sm text-[#B9BBC7]"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        {altText}
+                    </p>
+                </div>
+            )}
+        </>
+    );
+}
+
+interface ThreadContext {
+    entryType: Category;
+    entryId: string;
+    repliesByParent: Map<Id<'comments'>, Comment[]>;
+    myVotes: Partial<Record<Id<'comments'>, boolean>> | undefined;
+    onDelete: (commentId: Id<'comments'>) => void;
+}
+
+// A comment with its replies nested below it, which can be collapsed
+function CommentThread({
+    comment,
+    depth,
+    thread,
+    className = ''
+}: {
+    comment: Comment;
+    depth: number;
+    thread: ThreadContext;
+    className?: string;
+}) {
+    const { isSignedIn, user } = useUser();
+    const [isReplying, setIsReplying] = React.useState(false);
+    const [isCollapsed, setIsCollapsed] = React.useState(false);
+
+    const replies = thread.repliesByParent.get(comment._id) ?? [];
+    const replyCount = comment.replyCount ?? replies.length;
+    const isDeleted = comment.deletedAt !== undefined;
+    const repliesId = `comment-replies-${comment._id}`;
+
+    return (
+        <li className={`flex flex-col gap-3 ${className}`}>
+            <article className="flex gap-3">
+                {isDeleted ? (
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[#242433]" />
+                ) : comment.userImage ? (
+                    <Image
+                        src={comment.userImage}
+                        alt={comment.userName ?? 'User'}
+                        width={32}
+                        height={32}
+                        className="h-8 w-8 rounded-full ring-2 ring-[#242433]"
+                    />
+                ) : (
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[#242433]">
+                        👤
+                    </div>
+                )}
+                <div className="min-w-0 flex-1">
+                    {isDeleted ? (
+                        <p className="text-sm italic text-[#9CA3AF]">
+                            [deleted]
+                        </p>
+                    ) : (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm font-medium text-[#F5F6FA]">
+                                    {comment.userName ?? 'Anonymous'}
+                                </span>
+                                <span className="text-xs text-[#9CA3AF]">
+                                    {formatDate(comment.createdAt)}
+                                </span>
+                                {comment.updatedAt && (
+                                    <Badge
+                                        variant="outline"
+                                        className="text-xs border-[#242433] text-[#B9BBC7]"
+                                    >
+                                        edited
+                                    </Badge>
+                                )}
+                            </div>
+                            <p className="mt-1 whitespace-pre-wrap text-sm text-[#B9BBC7]">
+                                {comment.content}
+                            </p>
+                            {comment.photoSource && (
+                                <CommentPhoto
+                                    source={comment.photoSource}
+                                    altText={comment.photoAltText ?? ''}
+                                />
+                            )}
+                            <HelpfulVote
+                                targetId={comment._id}
+                                authorId={comment.userId}
+                                helpfulCount={comment.helpfulCount}
+                                unhelpfulCount={comment.unhelpfulCount}
+                                vote={thread.myVotes?.[comment._id]}
+                            />
+                        </>
+                    )}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                        {replyCount > 0 && (
+                            <Button
+                                variant="ghost"
+                                size="xs"
+                                aria-expanded={!isCollapsed}
+                                aria-controls={repliesId}
+                                onClick={() => setIsCollapsed(!isCollapsed)}
+                                className="text-[#2DE2E6] hover:bg-[#2DE2E6]/10"
+                            >
+                                {isCollapsed ? 'Show' : 'Hide'} {replyCount}{' '}
+                                {replyCount === 1 ? 'reply' : 'replies'}
+                            </Button>
+                        )}
+                        {isSignedIn &&
+                            !isDeleted &&
+                            depth < MAX_REPLY_DEPTH && (
+                                <Button
+                                    variant="ghost"
+                                    size="xs"
+                                    className="text-[#B9BBC7] hover:text-[#F5F6FA]"
+                                    onClick={() => setIsReplying(true)}
+                                >
+                                    Reply
+                                </Button>
+                            )}
+                        {/* Show delete button if user owns the comment */}
+                        {isSignedIn &&
+                            !isDeleted &&
+                            user?.id === comment.userId && (
+                                <Button
+                                    variant="ghost"
+                                    size="xs"
+                                    className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                    onClick={() => thread.onDelete(comment._id)}
+                                >
+                                    Delete
+                                </Button>
+                            )}
+                    </div>
+                    {isReplying && (
+                        <div className="mt-3">
+                            <CommentForm
+                                entryType={thread.entryType}
+                                entryId={thread.entryId}
+                                parentId={comment._id}
+                                placeholder={`Reply to ${comment.userName ?? 'Anonymous'}...`}
+                                submitLabel="Post Reply"
+                                onDone={() => {
+                                    setIsReplying(false);
+                                    setIsCollapsed(false);
+                                }}
+                            />
+                        </div>
+                    )}
+                </div>
+            </article>
+            {replies.length > 0 && !isCollapsed && (
+                <ul
+                    id={repliesId}
+                    className="ml-4 flex flex-col gap-4 border-l border-[#242433] pl-4"
+                    aria-label={`Replies to ${isDeleted ? 'a deleted comment' : (comment.userName ?? 'Anonymous')}`}
+                >
+                    {replies.map((reply) => (
+                        <CommentThread
+                            key={reply._id}
+                            comment={reply}
+                            depth={depth + 1}
+                            thread={thread}
+                        />
+                    ))}
+                </ul>
+            )}
+        </li>
+    );
+}
+
+export function Comments({ entryId, entryName, entryType }: CommentsProps) {
+    const { isSignedIn } = useUser();
+    const [sort, setSort] = React.useState<HelpfulnessSort>('newest');
+    const {
+        results: threads,
+        status,
+        loadMore
+    } = usePaginatedQuery(
+        api.comments.getCommentsForEntry,
+        { entryType, entryId, sort },
+        { initialNumItems: PAGE_SIZE }
+    );
+    const commentCount = useQuery(api.comments.getCommentCount, {
+        entryType,
+        entryId
+    });
+    const myVotes = useQuery(api.votes.getMyVotes, { entryType, entryId });
+    const deleteComment = useMutation(api.comments.deleteComment);
+
     const handleDelete = async (commentId: Id<'comments'>) => {
         if (!confirm('Are you sure you want to delete this comment?')) return;
 
@@ -94,18 +566,38 @@ export function Comments({ entryId, entryName, entryType }: CommentsProps) {
         }
     };
 
+    // Nest each thread's replies under their parents, in the order the
+    // server returned them
+    const repliesByParent = new Map<Id<'comments'>, Comment[]>();
+    for (const { replies } of threads) {
+        for (const reply of replies) {
+            if (!reply.parentId) continue;
+            const siblings = repliesByParent.get(reply.parentId) ?? [];
+            siblings.push(reply);
+            repliesByParent.set(reply.parentId, siblings);
+        }
+    }
+
+    const thread: ThreadContext = {
+        entryType,
+        entryId,
+        repliesByParent,
+        myVotes,
+        onDelete: handleDelete
+    };
+
     return (
         <Card className="w-full border-[#242433] bg-[#12121A]">
             <CardHeader>
                 <CardTitle className="flex items-center gap-2 text-[#F5F6FA]">
                     💬 Comments
-                    {comments && (
+                    {commentCount !== undefined && (
                         <Badge
                             variant="secondary"
                             className="bg-[#5EEAD4]/20 text-[#5EEAD4]"
-                            aria-label={`${comments.length} comments`}
+                            aria-label={`${commentCount} comments`}
                         >
-                            {comments.length}
+                            {commentCount}
                         </Badge>
                     )}
                 </CardTitle>
@@ -113,43 +605,12 @@ export function Comments({ entryId, entryName, entryType }: CommentsProps) {
             <CardContent className="flex flex-col gap-4">
                 {/* Comment Form */}
                 {isSignedIn ? (
-                    <form
-                        onSubmit={handleSubmit}
-                        className="flex flex-col gap-3"
-                    >
-                        <div className="flex items-start gap-3">
-                            {user?.imageUrl && (
-                                <Image
-                                    src={user.imageUrl}
-                                    alt={user.fullName ?? 'User'}
-                                    width={32}
-                                    height={32}
-                                    className="rounded-full ring-2 ring-[#242433]"
-                                />
-                            )}
-                            <div className="flex-1">
-                                <Textarea
-                                    placeholder={`Share your accessibility experience with ${entryName}...`}
-                                    value={newComment}
-                                    onChange={(e) =>
-                                        setNewComment(e.target.value)
-                                    }
-                                    rows={3}
-                                    className="resize-none border-[#242433] bg-[#0B0B10] text-[#F5F6FA] placeholder:text-[#B9BBC7]/50 focus:border-[#2DE2E6]/50"
-                                />
-                            </div>
-                        </div>
-                        <div className="flex justify-end">
-                            <Button
-                                type="submit"
-                                disabled={isSubmitting || !newComment.trim()}
-                                size="sm"
-                                className="bg-[#2DE2E6] text-[#0B0B10] hover:bg-[#2DE2E6]/90"
-                            >
-                                {isSubmitting ? 'Posting...' : 'Post Comment'}
-                            </Button>
-                        </div>
-                    </form>
+                    <CommentForm
+                        entryType={entryType}
+                        entryId={entryId}
+                        placeholder={`Share your accessibility experience with ${entryName}...`}
+                        submitLabel="Post Comment"
+                    />
                 ) : (
                     <div className="flex flex-col items-center gap-3 rounded-lg border border-[#242433] bg-[#0B0B10] p-6 text-center">
                         <p className="text-[#B9BBC7]">
@@ -166,9 +627,19 @@ export function Comments({ entryId, entryName, entryType }: CommentsProps) {
                     </div>
                 )}
 
+                {commentCount !== undefined && commentCount > 1 && (
+                    <div className="flex justify-end">
+                        <HelpfulnessSortSelect
+                            value={sort}
+                            onChange={setSort}
+                            label="Sort comments"
+                        />
+                    </div>
+                )}
+
                 {/* Comments List */}
                 <div className="flex flex-col gap-4">
-                    {comments === undefined ? (
+                    {status === 'LoadingFirstPage' ? (
                         <div className="space-y-4">
                             {[1, 2, 3].map((i) => (
                                 <div
@@ -187,67 +658,37 @@ export function Comments({ entryId, entryName, entryType }: CommentsProps) {
                                 </div>
                             ))}
                         </div>
-                    ) : comments.length === 0 ? (
+                    ) : threads.length === 0 ? (
                         <p className="text-center text-sm text-[#B9BBC7]">
                             No comments yet. Be the first to share your
                             experience!
                         </p>
                     ) : (
-                        comments.map((comment) => (
-                            <div
-                                key={comment._id}
-                                className="flex gap-3 border-t border-[#242433] pt-4"
+                        <ul className="flex flex-col gap-4">
+                            {threads.map((comment) => (
+                                <CommentThread
+                                    key={comment._id}
+                                    comment={comment}
+                                    depth={0}
+                                    thread={thread}
+                                    className="border-t border-[#242433] pt-4"
+                                />
+                            ))}
+                        </ul>
+                    )}
+                    {(status === 'CanLoadMore' || status === 'LoadingMore') && (
+                        <div className="flex justify-center" aria-live="polite">
+                            <Button
+                                variant="outline"
+                                onClick={() => loadMore(PAGE_SIZE)}
+                                disabled={status === 'LoadingMore'}
+                                className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
                             >
-                                {comment.userImage ? (
-                                    <Image
-                                        src={comment.userImage}
-                                        alt={comment.userName ?? 'User'}
-                                        width={32}
-                                        height={32}
-                                        className="rounded-full ring-2 ring-[#242433]"
-                                    />
-                                ) : (
-                                    <div className="flex h-8 w-8 items-center justify-center rounded-full bg-[#242433]">
-                                        👤
-                                    </div>
-                                )}
-                                <div className="min-w-0 flex-1">
-                                    <div className="flex items-center gap-2">
-                                        <span className="text-sm font-medium text-[#F5F6FA]">
-                                            {comment.userName ?? 'Anonymous'}
-                                        </span>
-                                        <span className="text-xs text-[#9CA3AF]">
-                                            {formatDate(comment.createdAt)}
-                                        </span>
-                                        {comment.updatedAt && (
-                                            <Badge
-                                                variant="outline"
-                                                className="text-xs border-[#242433] text-[#B9BBC7]"
-                                            >
-                                                edited
-                                            </Badge>
-                                        )}
-                                    </div>
-                                    <p className="mt-1 whitespace-pre-wrap text-sm text-[#B9BBC7]">
-                                        {comment.content}
-                                    </p>
-                                    {/* Show delete button if user owns the comment */}
-                                    {isSignedIn &&
-                                        user?.id === comment.userId && (
-                                            <Button
-                                                variant="ghost"
-                                                size="xs"
-                                                className="mt-1 text-red-400 hover:text-red-300 hover:bg-red-500/10"
-                                                onClick={() =>
-                                                    handleDelete(comment._id)
-                                                }
-                                            >
-                                                Delete
-                                            </Button>
-                                        )}
-                                </div>
-                            </div>
-                        ))
+                                {status === 'LoadingMore'
+                                    ? 'Loading comments...'
+                                    : loadMoreLabels[sort]}
+                            </Button>
+                        </div>
                     )}
                 </div>
             </CardContent>
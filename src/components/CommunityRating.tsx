@@ -0,0 +1,121 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { dimensions, meanRating } from '../../convex/communityRatings';
+import type { AccessibilityType } from '../../convex/features';
+import { Skeleton } from '~/components/ui/skeleton';
+
+type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
+
+const accessibilityTypeLabels: Record<
+    AccessibilityType,
+    { label: string; icon: string }
+> = {
+    visual: { label: 'Visual', icon: '👁️' },
+    auditory: { label: 'Auditory', icon: '👂' },
+    motor: { label: 'Motor', icon: '🖐️' },
+    cognitive: { label: 'Cognitive', icon: '🧠' },
+    general: { label: 'General', icon: '♿' }
+};
+
+const accessibilityTypes = Object.keys(
+    accessibilityTypeLabels
+) as AccessibilityType[];
+
+// The mean of the entry's review ratings, overall, per accessibility need the
+// reviews were written for and per dimension reviewers rated, shown beside the
+// rating its creator gave
+export function CommunityRating({
+    entryType,
+    entryId
+}: {
+    entryType: Category;
+    entryId: string;
+}) {
+    const rating = useQuery(api.reviews.getCommunityRating, {
+        entryType,
+        entryId
+    });
+
+    if (rating === undefined) {
+        return <Skeleton className="h-12 w-40" />;
+    }
+    if (rating === null) {
+        return null;
+    }
+
+    const mean = meanRating(rating.overall);
+    const { count } = rating.overall;
+
+    return (
+        <div className="flex flex-col gap-1 text-sm sm:items-end">
+            <span className="text-xs uppercase tracking-wide text-[#9CA3AF]">
+                Community rating
+            </span>
+            {mean === null ? (
+                <span className="text-[#9CA3AF]">No reviews yet</span>
+            ) : (
+                <>
+                    <span className="text-[#F5F6FA]">
+                        <span className="text-xl font-semibold">
+                            {mean.toFixed(1)}
+                        </span>{' '}
+                        / 5 from {count} {count === 1 ? 'review' : 'reviews'}
+                    </span>
+                    <ul
+                        className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-[#B9BBC7] sm:justify-end"
+                        aria-label="Community rating by accessibility need"
+                    >
+                        {accessibilityTypes.map((type) => {
+                            const summary = rating.byAccessibilityType[type];
+                            const typeMean = meanRating(summary);
+                            if (typeMean === null || !summary) return null;
+                            const { label, icon } =
+                                accessibilityTypeLabels[type];
+                            return (
+                                <li
+                                    key={type}
+                                    aria-label={`${label}: ${typeMean.toFixed(1)} out of 5 from ${summary.count} ${summary.count === 1 ? 'review' : 'reviews'}`}
+                                >
+                                    <span aria-hidden="true">
+                                        {icon} {typeMean.toFixed(1)} (
+                                        {summary.count})
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    {dimensions.some(
+                        (dimension) => rating.byDimension?.[dimension]?.count
+                    ) && (
+                        <ul
+                            className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-[#B9BBC7] sm:justify-end"
+                            aria-label="Community rating by dimension"
+                        >
+                            {dimensions.map((dimension) => {
+                                const summary = rating.byDimension?.[dimension];
+                                const dimensionMean = meanRating(summary);
+                                if (dimensionMean === null || !summary) {
+                                    return null;
+                                }
+                                const { label } =
+                                    accessibilityTypeLabels[dimension];
+                                return (
+                                    <li
+                                        key={dimension}
+                                        aria-label={`${label} accessibility: ${dimensionMean.toFixed(1)} out of 5 from ${summary.count} ${summary.count === 1 ? 'rating' : 'ratings'}`}
+                                    >
+                                        <span aria-hidden="true">
+                                            {label} {dimensionMean.toFixed(1)}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -2,11 +2,11 @@
 
 import * as React from 'react';
 import Link from 'next/link';
-import { useQuery } from 'convex/react';
+import { usePaginatedQuery, useQuery } from 'convex/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { api } from '../../convex/_generated/api';
-import type { Doc } from '../../convex/_generated/dataModel';
-import type { AnyEntry } from '../../convex/entries';
+import type { AnyEntry, EntrySort } from '../../convex/entries';
+import type { EntryCardDetails } from '../../convex/entryCards';
 import { Input } from '~/components/ui/input';
 import {
     Card,
@@ -16,6 +16,7 @@ import {
     CardContent
 } from '~/components/ui/card';
 import { Badge } from '~/components/ui/badge';
+import { Button } from '~/components/ui/button';
 import {
     Select,
     SelectContent,
@@ -24,9 +25,46 @@ import {
     SelectValue
 } from '~/components/ui/select';
 import { SkeletonEntriesGrid } from '~/components/ui/skeleton';
+import {
+    FacetSidebar,
+    hasActiveFilters,
+    parseFilterParams,
+    writeFilterParams
+} from '~/components/EntryFilters';
+import type { FilterState } from '~/components/EntryFilters';
+import {
+    CardCover,
+    CardTaxonomy,
+    cardDetailsFor,
+    useEntryCardDetails
+} from '~/components/EntryCardDetails';
 
 type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
 
+const PAGE_SIZE = 24;
+
+const categories: Category[] = [
+    'game',
+    'hardware',
+    'place',
+    'software',
+    'service'
+];
+
+const sortLabels: Record<EntrySort, string> = {
+    newest: 'Newest',
+    rating: 'Highest rated',
+    visual: 'Best visual accessibility',
+    auditory: 'Best auditory accessibility',
+    motor: 'Best motor accessibility',
+    cognitive: 'Best cognitive accessibility',
+    community: 'Best community rating',
+    most_reviewed: 'Most reviewed',
+    most_commented: 'Most commented',
+    updated: 'Recently updated',
+    name: 'Name (A-Z)'
+};
+
 const categoryLabels: Record<Category, string> = {
     game: '🎮 Games',
     hardware: '🖥️ Hardware',
@@ -112,10 +150,17 @@ function AccessibilityBadges({
     );
 }
 
-function EntryCard({ entry }: { entry: AnyEntry }) {
+function EntryCard({
+    entry,
+    details
+}: {
+    entry: AnyEntry;
+    details?: EntryCardDetails;
+}) {
     return (
         <Link href={`/entry/${entry._id}`}>
             <Card className="group h-full cursor-pointer border-[#242433] bg-[#12121A] transition-all duration-300 hover:border-[#2DE2E6]/40 hover:shadow-[0_0_30px_rgba(45,226,230,0.1)]">
+                {details?.cover && <CardCover cover={details.cover} />}
                 <CardHeader>
                     <div className="flex items-start justify-between gap-2">
                         <CardTitle className="line-clamp-1 text-lg text-[#F5F6FA] group-hover:text-[#2DE2E6] transition-colors">
@@ -149,7 +194,7 @@ function EntryCard({ entry }: { entry: AnyEntry }) {
                         }
                     />
 
-                    {/* Tags are now fetched from junction tables - use getTagsForEntry query */}
+                    {details && <CardTaxonomy details={details} />}
 
                     {'platforms' in entry &&
                         entry.platforms &&
@@ -165,6 +210,40 @@ function EntryCard({ entry }: { entry: AnyEntry }) {
     );
 }
 
+// One page of cards. Card details are fetched per page, so loading more
+// entries doesn't refetch the pages already shown.
+function EntryCardPage({ entries }: { entries: AnyEntry[] }) {
+    const details = useEntryCardDetails(entries);
+
+    return (
+        <>
+            {entries.map((entry) => (
+                <EntryCard
+                    key={entry._id}
+                    entry={entry}
+                    details={cardDetailsFor(details, entry)}
+                />
+            ))}
+        </>
+    );
+}
+
+// Entry cards in a responsive grid, one card details query per page
+export function EntryCardGrid({ entries }: { entries: AnyEntry[] }) {
+    const pages: AnyEntry[][] = [];
+    for (let i = 0; i < entries.length; i += PAGE_SIZE) {
+        pages.push(entries.slice(i, i + PAGE_SIZE));
+    }
+
+    return (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {pages.map((page, index) => (
+                <EntryCardPage key={index} entries={page} />
+            ))}
+        </div>
+    );
+}
+
 interface EntriesListProps {
     initialEntries: AnyEntry[];
 }
@@ -179,6 +258,13 @@ export function EntriesList({ initialEntries }: EntriesListProps) {
     const [selectedCategory, setSelectedCategory] = React.useState<
         Category | 'all'
     >((searchParams.get('category') as Category | 'all') ?? 'all');
+    const [sort, setSort] = React.useState<EntrySort>(() => {
+        const param = searchParams.get('sort');
+        return param && param in sortLabels ? (param as EntrySort) : 'newest';
+    });
+    const [filters, setFilters] = React.useState<FilterState>(() =>
+        parseFilterParams(new URLSearchParams(searchParams.toString()))
+    );
     const [debouncedQuery, setDebouncedQuery] = React.useState(searchQuery);
 
     // Debounce search query
@@ -195,35 +281,81 @@ export function EntriesList({ initialEntries }: EntriesListProps) {
         if (debouncedQuery) params.set('q', debouncedQuery);
         if (selectedCategory !== 'all')
             params.set('category', selectedCategory);
+        if (sort !== 'newest') params.set('sort', sort);
+        writeFilterParams(params, filters);
 
         const queryString = params.toString();
         router.replace(queryString ? `/?${queryString}` : '/', {
             scroll: false
         });
-    }, [debouncedQuery, selectedCategory, router]);
+    }, [debouncedQuery, selectedCategory, sort, filters, router]);
 
     // Use search when there's a query, otherwise get all entries
-    const searchResults = useQuery(
-        api.entries.searchEntries,
-        debouncedQuery.trim()
-            ? {
-                  searchQuery: debouncedQuery,
-                  category:
-                      selectedCategory !== 'all' ? selectedCategory : undefined
-              }
-            : 'skip'
+    const isSearching = debouncedQuery.trim() !== '';
+    const categoryArg =
+        selectedCategory !== 'all' ? selectedCategory : undefined;
+
+    const search = usePaginatedQuery(
+        api.entries.getPaginatedSearchResults,
+        isSearching
+            ? { searchQuery: debouncedQuery, category: categoryArg }
+            : 'skip',
+        { initialNumItems: PAGE_SIZE }
     );
 
-    const allEntries = useQuery(api.entries.getEntries, {
-        category: selectedCategory !== 'all' ? selectedCategory : undefined,
-        limit: 50
-    });
+    // Counts span every category so the user can see where matches are
+    const searchCounts = useQuery(
+        api.entries.getSearchCounts,
+        isSearching ? { searchQuery: debouncedQuery } : 'skip'
+    );
+
+    // Facet filters apply when browsing; a search query takes precedence
+    const isFiltering = !isSearching && hasActiveFilters(filters);
+
+    const filtered = usePaginatedQuery(
+        api.filters.filterEntries,
+        isFiltering
+            ? { filters: { ...filters, category: categoryArg }, sort }
+            : 'skip',
+        { initialNumItems: PAGE_SIZE }
+    );
 
-    // Use real-time data when available, fall back to initial data
-    const entries = debouncedQuery.trim()
-        ? searchResults
-        : (allEntries ?? initialEntries);
+    const feed = usePaginatedQuery(
+        api.entries.getPaginatedEntries,
+        isSearching || isFiltering ? 'skip' : { category: categoryArg, sort },
+        { initialNumItems: PAGE_SIZE }
+    );
+
+    // Use real-time data when available, fall back to initial data (which is
+    // the newest entries, so only while that is the requested order)
+    const active = isSearching ? search : isFiltering ? filtered : feed;
+    const { status: pageStatus, loadMore } = active;
+    const entries =
+        active.status !== 'LoadingFirstPage'
+            ? active.results
+            : active === feed && sort === 'newest'
+              ? initialEntries
+              : undefined;
     const isLoading = entries === undefined;
+    const canLoadMore = pageStatus === 'CanLoadMore';
+
+    // Infinite scroll: load the next page when the sentinel scrolls into view
+    const sentinelRef = React.useRef<HTMLDivElement>(null);
+    React.useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !canLoadMore) return;
+
+        const observer = new IntersectionObserver(
+            (observed) => {
+                if (observed.some((e) => e.isIntersecting)) {
+                    loadMore(PAGE_SIZE);
+                }
+            },
+            { rootMargin: '400px' }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [canLoadMore, loadMore]);
 
     return (
         <div className="flex w-full flex-col gap-8">
@@ -259,28 +391,119 @@ export function EntriesList({ initialEntries }: EntriesListProps) {
                         <SelectItem value="service">🛎️ Services</SelectItem>
                     </SelectContent>
                 </Select>
+                {/* Search results are ordered by relevance instead */}
+                {!isSearching && (
+                    <Select
+                        value={sort}
+                        onValueChange={(value) => setSort(value as EntrySort)}
+                    >
+                        <SelectTrigger
+                            className="w-full border-[#242433] bg-[#12121A] text-[#F5F6FA] sm:w-56"
+                            aria-label="Sort entries"
+                        >
+                            <SelectValue placeholder="Newest" />
+                        </SelectTrigger>
+                        <SelectContent className="border-[#242433] bg-[#12121A]">
+                            {(Object.keys(sortLabels) as EntrySort[]).map(
+                                (option) => (
+                                    <SelectItem key={option} value={option}>
+                                        {sortLabels[option]}
+                                    </SelectItem>
+                                )
+                            )}
+                        </SelectContent>
+                    </Select>
+                )}
             </div>
 
-            {/* Results */}
-            {isLoading ? (
-                <SkeletonEntriesGrid count={6} />
-            ) : entries && entries.length > 0 ? (
-                <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-                    {entries.map((entry) => (
-                        <EntryCard key={entry._id} entry={entry} />
-                    ))}
+            {/* Matches per category */}
+            {isSearching && searchCounts && (
+                <div
+                    className="flex flex-wrap items-center gap-2"
+                    aria-label="Search results by category"
+                >
+                    {categories.map((category) => {
+                        const { count, hasMore } = searchCounts[category];
+                        const isSelected = selectedCategory === category;
+                        return (
+                            <button
+                                key={category}
+                                type="button"
+                                aria-pressed={isSelected}
+                                onClick={() =>
+                                    setSelectedCategory(
+                                        isSelected ? 'all' : category
+                                    )
+                                }
+                                disabled={count === 0 && !isSelected}
+                                className={`rounded-full border px-3 py-1 text-sm transition-colors disabled:opacity-40 ${isSelected ? categoryColors[category] : 'border-[#242433] text-[#B9BBC7] hover:border-[#2DE2E6]/40'}`}
+                            >
+                                {count}
+                                {hasMore ? '+' : ''} in{' '}
+                                {categoryLabels[category]}
+                            </button>
+                        );
+                    })}
                 </div>
-            ) : (
-                <div className="py-16 text-center">
-                    <div className="mx-auto max-w-md rounded-2xl border border-[#242433] bg-[#12121A] p-8">
-                        <p className="text-lg text-[#B9BBC7]">
-                            {debouncedQuery.trim()
-                                ? `No results found for "${debouncedQuery}"`
-                                : 'No entries yet. Be the first to add one!'}
-                        </p>
+            )}
+
+            <div className="flex flex-col gap-8 lg:flex-row lg:items-start">
+                {/* Facet filters */}
+                {!isSearching && (
+                    <div className="w-full lg:w-64 lg:shrink-0">
+                        <FacetSidebar
+                            category={categoryArg}
+                            filters={filters}
+                            onCategoryChange={setSelectedCategory}
+                            onFiltersChange={setFilters}
+                        />
                     </div>
+                )}
+
+                <div className="min-w-0 flex-1">
+                    {/* Results */}
+                    {isLoading ? (
+                        <SkeletonEntriesGrid count={6} />
+                    ) : entries && entries.length > 0 ? (
+                        <div className="flex flex-col gap-8">
+                            <EntryCardGrid entries={entries} />
+
+                            {/* Pagination - infinite scroll with a button fallback */}
+                            <div
+                                ref={sentinelRef}
+                                className="flex justify-center"
+                                aria-live="polite"
+                            >
+                                {pageStatus === 'LoadingMore' ? (
+                                    <p className="text-sm text-[#B9BBC7]">
+                                        Loading more entries...
+                                    </p>
+                                ) : canLoadMore ? (
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => loadMore(PAGE_SIZE)}
+                                        className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                                    >
+                                        Load more
+                                    </Button>
+                                ) : null}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="py-16 text-center">
+                            <div className="mx-auto max-w-md rounded-2xl border border-[#242433] bg-[#12121A] p-8">
+                                <p className="text-lg text-[#B9BBC7]">
+                                    {isSearching
+                                        ? `No results found for "${debouncedQuery}"`
+                                        : isFiltering
+                                          ? 'No entries match these filters.'
+                                          : 'No entries yet. Be the first to add one!'}
+                                </p>
+                            </div>
+                        </div>
+                    )}
                 </div>
-            )}
+            </div>
         </div>
     );
 }
@@ -0,0 +1,100 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { EntryCardDetails } from '../../convex/entryCards';
+import type { Category } from '../../convex/entries';
+import { toEntryKey } from '../../convex/entryRefs';
+import { Badge } from '~/components/ui/badge';
+import { ResponsiveImage } from '~/components/ResponsiveImage';
+
+// Card details for a list of entries in one query, keyed by entry key.
+// Undefined while loading.
+export function useEntryCardDetails(
+    entries: Array<{ _id: string; category: Category }> | undefined
+): Record<string, EntryCardDetails> | undefined {
+    return useQuery(
+        api.entryCards.getEntryCardDetails,
+        entries && entries.length > 0
+            ? {
+                  entries: entries.map((entry) => ({
+                      entryType: entry.category,
+                      entryId: entry._id
+                  }))
+              }
+            : 'skip'
+    );
+}
+
+export function cardDetailsFor(
+    details: Record<string, EntryCardDetails> | undefined,
+    entry: { _id: string; category: Category }
+): EntryCardDetails | undefined {
+    return details?.[toEntryKey(entry.category, entry._id)];
+}
+
+// The entry's cover photo, shown edge to edge at the top of a card
+export function CardCover({
+    cover
+}: {
+    cover: NonNullable<EntryCardDetails['cover']>;
+}) {
+    return (
+        <div className="relative -mt-6 aspect-video overflow-hidden bg-[#242433]">
+            <ResponsiveImage
+                source={cover}
+                alt={cover.altText}
+                sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                className="absolute inset-0 h-full w-full object-cover"
+            />
+        </div>
+    );
+}
+
+// Tags, best rated features and activity counts for a card
+export function CardTaxonomy({ details }: { details: EntryCardDetails }) {
+    return (
+        <div className="flex flex-col gap-2">
+            {details.topFeatures.length > 0 && (
+                <ul
+                    className="flex flex-wrap gap-1.5"
+                    aria-label="Top accessibility features"
+                >
+                    {details.topFeatures.map((feature) => (
+                        <li key={feature._id}>
+                            <Badge
+                                variant="outline"
+                                className="border-[#5EEAD4]/40 bg-[#5EEAD4]/10 text-xs text-[#5EEAD4]"
+                            >
+                                {feature.name}
+                                <span className="sr-only">
+                                    , rated {feature.rating} out of 5
+                                </span>
+                            </Badge>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {details.tags.length > 0 && (
+                <ul className="flex flex-wrap gap-1.5" aria-label="Tags">
+                    {details.tags.map((tag) => (
+                        <li key={tag._id}>
+                            <Badge
+                                variant="outline"
+                                className="border-[#3D3D4D] text-xs text-[#B9BBC7]"
+                            >
+                                #{tag.name}
+                            </Badge>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <p className="text-xs text-[#9CA3AF]">
+                {details.reviewCount}{' '}
+                {details.reviewCount === 1 ? 'review' : 'reviews'} ·{' '}
+                {details.commentCount}{' '}
+                {details.commentCount === 1 ? 'comment' : 'comments'}
+            </p>
+        </div>
+    );
+}
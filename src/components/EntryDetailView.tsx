@@ -1,9 +1,10 @@
 'use client';
 
 import * as React from 'react';
-import Image from 'next/image';
 import Link from 'next/link';
 import type { Doc, Id } from '../../convex/_generated/dataModel';
+import { entryPhotoDetails } from '../../convex/photos';
+import type { PhotoDetail } from '../../convex/photos';
 import {
     Card,
     CardHeader,
@@ -14,6 +15,11 @@ import {
 import { Badge } from '~/components/ui/badge';
 import { Button } from '~/components/ui/button';
 import { Comments } from '~/components/Comments';
+import { CommunityRating } from '~/components/CommunityRating';
+import { EntryHistory } from '~/components/EntryHistory';
+import { EntryFeatures, EntryTags } from '~/components/EntryTaxonomy';
+import { ResponsiveImage } from '~/components/ResponsiveImage';
+import { Reviews } from '~/components/Reviews';
 import { useQuery } from 'convex/react';
 import { api } from '~/lib/convex';
 
@@ -131,11 +137,12 @@ interface AnyEntry {
     auditoryAccessibility?: number;
     motorAccessibility?: number;
     cognitiveAccessibility?: number;
-    // tags and accessibilityFeatures are now fetched from junction tables
+    // Tags and features are rendered by EntryTags and EntryFeatures
     website?: string;
     createdAt: number;
     updatedAt: number;
     photos?: Array<Id<'_storage'>>;
+    photoDetails?: PhotoDetail[];
     // Category-specific fields
     platforms?: string[];
     location?: {
@@ -151,69 +158,159 @@ interface EntryDetailViewProps {
     entry: AnyEntry;
 }
 
-function PhotoGallery({ photos }: { photos: Array<Id<'_storage'>> }) {
+function photoAlt(photo: PhotoDetail, index: number, entryName: string) {
+    return photo.altText || `Photo ${index + 1} of ${entryName}`;
+}
+
+function PhotoCredit({ photo }: { photo: PhotoDetail }) {
+    if (!photo.caption && !photo.credit) return null;
+    return (
+        <>
+            {photo.caption}
+            {photo.caption && photo.credit && ' · '}
+            {photo.credit && (
+                <span className="text-[#9CA3AF]">Credit: {photo.credit}</span>
+            )}
+        </>
+    );
+}
+
+function PhotoGallery({
+    photos,
+    entryName
+}: {
+    photos: PhotoDetail[];
+    entryName: string;
+}) {
     const [selectedPhoto, setSelectedPhoto] = React.useState<number | null>(
         null
     );
 
-    const photoUrls = useQuery(
-        api.storage.getFileUrls,
-        photos.length > 0 ? { storageIds: photos } : 'skip'
+    const photoSources = useQuery(
+        api.storage.getImageSources,
+        photos.length > 0
+            ? { storageIds: photos.map((photo) => photo.storageId) }
+            : 'skip'
     );
 
-    if (!photoUrls || photos.length === 0) {
+    React.useEffect(() => {
+        if (selectedPhoto === null) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') setSelectedPhoto(null);
+            if (e.key === 'ArrowLeft' && selectedPhoto > 0)
+                setSelectedPhoto(selectedPhoto - 1);
+            if (e.key === 'ArrowRight' && selectedPhoto < photos.length - 1)
+                setSelectedPhoto(selectedPhoto + 1);
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [selectedPhoto, photos.length]);
+
+    if (!photoSources || photos.length === 0) {
         return null;
     }
 
+    const selected = selectedPhoto !== null ? photos[selectedPhoto] : undefined;
+    const selectedSource = selected && photoSources[selected.storageId];
+
     return (
         <>
             <div>
                 <h3 className="mb-3 font-medium text-[#F5F6FA]">Photos</h3>
-                <div className="grid grid-cols-3 gap-2 sm:grid-cols-4 md:grid-cols-5">
-                    {photos.map((storageId, index) => {
-                        const url = photoUrls[storageId];
-                        if (!url) return null;
+                <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4">
+                    {photos.map((photo, index) => {
+                        const source = photoSources[photo.storageId];
+                        if (!source) return null;
 
                         return (
-                            <button
-                                key={storageId}
-                                type="button"
-                                onClick={() => setSelectedPhoto(index)}
-                                className="relative aspect-square overflow-hidden rounded-lg border border-[#242433] transition-all hover:ring-2 hover:ring-[#2DE2E6]/50"
-                            >
-                                <Image
-                                    src={url}
-                                    alt={`Photo ${index + 1}`}
-                                    fill
-                                    className="object-cover"
-                                />
-                            </button>
+                            <li key={photo.storageId}>
+                                <figure className="flex flex-col gap-1">
+                                    <button
+                                        type="button"
+                                        onClick={() => setSelectedPhoto(index)}
+                                        aria-label={`View larger: ${photoAlt(photo, index, entryName)}`}
+                                        className="relative aspect-square overflow-hidden rounded-lg border border-[#242433] transition-all hover:ring-2 hover:ring-[#2DE2E6]/50"
+                                    >
+                                        <ResponsiveImage
+                                            source={source}
+                                            alt={photoAlt(
+                                                photo,
+                                                index,
+                                                entryName
+                                            )}
+                                            sizes="(min-width: 768px) 25vw, (min-width: 640px) 33vw, 50vw"
+                                            className="absolute inset-0 h-full w-full object-cover"
+                                        />
+                                        {photo.isCover && (
+                                            <Badge className="absolute left-2 top-2 bg-[#2DE2E6] text-[#0B0B10]">
+                                                Cover
+                                            </Badge>
+                                        )}
+                                    </button>
+                                    {(photo.caption ?? photo.credit) && (
+                                        <figcaption className="text-xs text-[#B9BBC7]">
+                                            <PhotoCredit photo={photo} />
+                                        </figcaption>
+                                    )}
+                                    {photo.longDescription && (
+                                        <details className="text-xs text-[#B9BBC7]">
+                                            <summary className="cursor-pointer text-[#2DE2E6]">
+                                                Image description
+                                            </summary>
+                                            <p className="mt-1 whitespace-pre-wrap">
+                                                {photo.longDescription}
+                                            </p>
+                                        </details>
+                                    )}
+                                </figure>
+                            </li>
                         );
                     })}
-                </div>
+                </ul>
             </div>
 
-            {selectedPhoto !== null && photos[selectedPhoto] && (
+            {selectedPhoto !== null && selected && selectedSource && (
                 <div
-                    className="fixed inset-0 z-50 flex items-center justify-center bg-[#0B0B10]/95 p-4 backdrop-blur-sm"
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label={photoAlt(selected, selectedPhoto, entryName)}
+                    className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-4 bg-[#0B0B10]/95 p-4 backdrop-blur-sm"
                     onClick={() => setSelectedPhoto(null)}
                 >
                     <button
                         type="button"
                         onClick={() => setSelectedPhoto(null)}
+                        aria-label="Close photo"
+                        autoFocus
                         className="absolute right-4 top-4 text-[#F5F6FA] hover:text-[#2DE2E6] transition-colors"
                     >
                         <span className="text-2xl">✕</span>
                     </button>
-                    <div className="relative h-[90vh] w-[90vw]">
-                        <Image
-                            src={photoUrls[photos[selectedPhoto]] ?? ''}
-                            alt={`Photo ${selectedPhoto + 1}`}
-                            fill
-                            className="object-contain rounded-lg"
+                    <div className="relative h-[75vh] w-[90vw]">
+                        <ResponsiveImage
+                            key={selected.storageId}
+                            source={selectedSource}
+                            alt={photoAlt(selected, selectedPhoto, entryName)}
+                            sizes="90vw"
+                            className="absolute inset-0 h-full w-full object-contain rounded-lg"
                             onClick={(e) => e.stopPropagation()}
                         />
                     </div>
+                    <div
+                        className="max-w-2xl text-center text-sm text-[#B9BBC7]"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <p>
+                            {selectedPhoto + 1} / {photos.length}
+                            {(selected.caption ?? selected.credit) && ' · '}
+                            <PhotoCredit photo={selected} />
+                        </p>
+                        {selected.longDescription && (
+                            <p className="mt-2 whitespace-pre-wrap">
+                                {selected.longDescription}
+                            </p>
+                        )}
+                    </div>
                     {selectedPhoto > 0 && (
                         <button
                             type="button"
@@ -221,6 +318,7 @@ function PhotoGallery({ photos }: { photos: Array<Id<'_storage'>> }) {
                                 e.stopPropagation();
                                 setSelectedPhoto(selectedPhoto - 1);
                             }}
+                            aria-label="Previous photo"
                             className="absolute left-4 text-[#F5F6FA] hover:text-[#2DE2E6] transition-colors"
                         >
                             <span className="text-4xl">←</span>
@@ -233,14 +331,12 @@ function PhotoGallery({ photos }: { photos: Array<Id<'_storage'>> }) {
                                 e.stopPropagation();
                                 setSelectedPhoto(selectedPhoto + 1);
                             }}
+                            aria-label="Next photo"
                             className="absolute right-4 text-[#F5F6FA] hover:text-[#2DE2E6] transition-colors"
                         >
                             <span className="text-4xl">→</span>
                         </button>
                     )}
-                    <div className="absolute bottom-4 text-[#B9BBC7]">
-                        {selectedPhoto + 1} / {photos.length}
-                    </div>
                 </div>
             )}
         </>
@@ -293,13 +389,30 @@ export function EntryDetailView({ entry }: EntryDetailViewProps) {
                                 {entry.name}
                             </CardTitle>
                         </div>
-                        <RatingStars rating={entry.overallRating} size="lg" />
+                        <div className="flex flex-col gap-3 sm:items-end">
+                            <div className="flex flex-col gap-1 sm:items-end">
+                                <span className="text-xs uppercase tracking-wide text-[#9CA3AF]">
+                                    Creator&apos;s rating
+                                </span>
+                                <RatingStars
+                                    rating={entry.overallRating}
+                                    size="lg"
+                                />
+                            </div>
+                            <CommunityRating
+                                entryType={entry.category}
+                                entryId={entry._id}
+                            />
+                        </div>
                     </div>
                 </CardHeader>
                 <CardContent className="flex flex-col gap-6">
                     {/* Photos */}
                     {entry.photos && entry.photos.length > 0 && (
-                        <PhotoGallery photos={entry.photos} />
+                        <PhotoGallery
+                            photos={entryPhotoDetails(entry)}
+                            entryName={entry.name}
+                        />
                     )}
 
                     {/* Description */}
@@ -341,9 +454,12 @@ export function EntryDetailView({ entry }: EntryDetailViewProps) {
                         </div>
                     </div>
 
-                    {/* Accessibility Features - now fetched from junction tables via getFeaturesForEntry query */}
+                    <EntryFeatures
+                        entryType={entry.category}
+                        entryId={entry._id}
+                    />
 
-                    {/* Tags - now fetched from junction tables via getTagsForEntry query */}
+                    <EntryTags entryType={entry.category} entryId={entry._id} />
 
                     {/* Platforms (for games/software) */}
                     {entry.platforms && entry.platforms.length > 0 && (
@@ -426,6 +542,16 @@ export function EntryDetailView({ entry }: EntryDetailViewProps) {
                 </CardContent>
             </Card>
 
+            {/* Reviews Section */}
+            <Reviews
+                entryId={entry._id}
+                entryName={entry.name}
+                entryType={entry.category}
+            />
+
+            {/* Revision History */}
+            <EntryHistory entryId={entry._id} entryType={entry.category} />
+
             {/* Comments Section */}
             <Comments
                 entryId={entry._id}
@@ -0,0 +1,429 @@
+'use client';
+
+import * as React from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { Category } from '../../convex/entries';
+import type { EntryFilters, RatingDimension } from '../../convex/filters';
+import { Button } from '~/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '~/components/ui/select';
+
+// Filters other than category, which EntriesList already manages
+export type FilterState = Omit<EntryFilters, 'category'>;
+
+const dimensions: Array<{
+    key: RatingDimension;
+    label: string;
+    icon: string;
+}> = [
+    { key: 'visual', label: 'Visual', icon: '👁️' },
+    { key: 'auditory', label: 'Auditory', icon: '👂' },
+    { key: 'motor', label: 'Motor', icon: '🖐️' },
+    { key: 'cognitive', label: 'Cognitive', icon: '🧠' }
+];
+
+const categoryOptions: Array<{ value: Category; label: string }> = [
+    { value: 'game', label: '🎮 Games' },
+    { value: 'hardware', label: '🖥️ Hardware' },
+    { value: 'place', label: '📍 Places' },
+    { value: 'software', label: '💿 Software' },
+    { value: 'service', label: '🛎️ Services' }
+];
+
+// ============================================
+// URL STATE
+// ============================================
+
+// Read filters from the URL, e.g.
+// ?motor=4&tags=<tagId>,<tagId>&features=<featureId>:4&complete=true
+export function parseFilterParams(params: URLSearchParams): FilterState {
+    const filters: FilterState = {};
+
+    const minRatings: NonNullable<FilterState['minRatings']> = {};
+    for (const { key } of dimensions) {
+        const value = Number(params.get(key));
+        if (Number.isInteger(value) && value >= 1 && value <= 5) {
+            minRatings[key] = value;
+        }
+    }
+    if (Object.keys(minRatings).length > 0) filters.minRatings = minRatings;
+
+    // Ids that aren't tag or feature ids are dropped by the server
+    const tagIds = params.get('tags')?.split(',').filter(Boolean);
+    if (tagIds?.length) filters.tagIds = tagIds;
+
+    const features = params
+        .get('features')
+        ?.split(',')
+        .filter(Boolean)
+        .map((value) => {
+            const [featureId = '', minRating] = value.split(':');
+            const min = Number(minRating);
+            return {
+                featureId,
+                minRating:
+                    Number.isInteger(min) && min >= 1 && min <= 5
+                        ? min
+                        : undefined
+            };
+        });
+    if (features?.length) filters.features = features;
+
+    const complete = params.get('complete');
+    if (complete === 'true' || complete === 'false') {
+        filters.complete = complete === 'true';
+    }
+
+    return filters;
+}
+
+export function writeFilterParams(
+    params: URLSearchParams,
+    filters: FilterState
+): void {
+    for (const { key } of dimensions) {
+        const min = filters.minRatings?.[key];
+        if (min !== undefined) params.set(key, String(min));
+    }
+    if (filters.tagIds?.length) params.set('tags', filters.tagIds.join(','));
+    if (filters.features?.length) {
+        params.set(
+            'features',
+            filters.features
+                .map((f) =>
+                    f.minRating ? `${f.featureId}:${f.minRating}` : f.featureId
+                )
+                .join(',')
+        );
+    }
+    if (filters.complete !== undefined) {
+        params.set('complete', String(filters.complete));
+    }
+}
+
+export function hasActiveFilters(filters: FilterState): boolean {
+    return (
+        Object.values(filters.minRatings ?? {}).some((v) => v !== undefined) ||
+        !!filters.tagIds?.length ||
+        !!filters.features?.length ||
+        filters.complete !== undefined
+    );
+}
+
+// ============================================
+// FACET SIDEBAR
+// ============================================
+
+function FacetSection({
+    title,
+    note,
+    children
+}: {
+    title: string;
+    note?: string;
+    children: React.ReactNode;
+}) {
+    return (
+        <fieldset className="flex flex-col gap-2">
+            <legend className="mb-2 text-xs font-semibold uppercase tracking-wider text-[#B9BBC7]">
+                {title}
+            </legend>
+            {note && <p className="text-xs text-[#B9BBC7]">{note}</p>}
+            {children}
+        </fieldset>
+    );
+}
+
+function FacetOption({
+    label,
+    count,
+    selected,
+    onToggle
+}: {
+    label: React.ReactNode;
+    count?: number;
+    selected: boolean;
+    onToggle: () => void;
+}) {
+    return (
+        <button
+            type="button"
+            aria-pressed={selected}
+            onClick={onToggle}
+            disabled={count === 0 && !selected}
+            className={`flex w-full items-center justify-between gap-2 rounded-md border px-2 py-1 text-left text-sm transition-colors disabled:opacity-40 ${selected ? 'border-[#2DE2E6]/60 bg-[#2DE2E6]/10 text-[#2DE2E6]' : 'border-transparent text-[#F5F6FA] hover:border-[#242433]'}`}
+        >
+            <span className="truncate">{label}</span>
+            {count !== undefined && (
+                <span className="text-xs text-[#B9BBC7]">{count}</span>
+            )}
+        </button>
+    );
+}
+
+// Tag and feature counts are usage across all entries until a tag or feature
+// is selected
+function globalCountsNote(global: boolean): string | undefined {
+    return global ? 'Counts are across all entries' : undefined;
+}
+
+interface FacetSidebarProps {
+    category: Category | undefined;
+    filters: FilterState;
+    onCategoryChange: (category: Category | 'all') => void;
+    onFiltersChange: (filters: FilterState) => void;
+}
+
+export function FacetSidebar({
+    category,
+    filters,
+    onCategoryChange,
+    onFiltersChange
+}: FacetSidebarProps) {
+    const facets = useQuery(api.filters.getFilterFacets, {
+        filters: { ...filters, category }
+    });
+
+    const setMinRating = (dimension: RatingDimension, min?: number) => {
+        onFiltersChange({
+            ...filters,
+            minRatings: { ...filters.minRatings, [dimension]: min }
+        });
+    };
+
+    const toggleTag = (tagId: Id<'tags'>) => {
+        const tagIds = filters.tagIds ?? [];
+        onFiltersChange({
+            ...filters,
+            tagIds: tagIds.includes(tagId)
+                ? tagIds.filter((id) => id !== tagId)
+                : [...tagIds, tagId]
+        });
+    };
+
+    const toggleFeature = (featureId: Id<'accessibilityFeatures'>) => {
+        const features = filters.features ?? [];
+        onFiltersChange({
+            ...filters,
+            features: features.some((f) => f.featureId === featureId)
+                ? features.filter((f) => f.featureId !== featureId)
+                : [...features, { featureId }]
+        });
+    };
+
+    const setFeatureMinRating = (
+        featureId: Id<'accessibilityFeatures'>,
+        minRating?: number
+    ) => {
+        onFiltersChange({
+            ...filters,
+            features: (filters.features ?? []).map((f) =>
+                f.featureId === featureId ? { featureId, minRating } : f
+            )
+        });
+    };
+
+    return (
+        <aside
+            aria-label="Filter entries"
+            className="flex flex-col gap-6 rounded-2xl border border-[#242433] bg-[#12121A] p-4"
+        >
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-[#F5F6FA]" aria-live="polite">
+                    {!facets
+                        ? 'Counting...'
+                        : facets.total !== null
+                          ? `${facets.total} matching`
+                          : 'Filtering by rating'}
+                </p>
+                {(hasActiveFilters(filters) || category) && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                            onFiltersChange({});
+                            onCategoryChange('all');
+                        }}
+                        className="text-[#2DE2E6] hover:bg-[#2DE2E6]/10"
+                    >
+                        Clear all
+                    </Button>
+                )}
+            </div>
+
+            <FacetSection title="Category">
+                {categoryOptions.map((option) => (
+                    <FacetOption
+                        key={option.value}
+                        label={option.label}
+                        count={facets?.categories?.[option.value]}
+                        selected={category === option.value}
+                        onToggle={() =>
+                            onCategoryChange(
+                                category === option.value ? 'all' : option.value
+                            )
+                        }
+                    />
+                ))}
+            </FacetSection>
+
+            <FacetSection title="Minimum rating">
+                {dimensions.map(({ key, label, icon }) => {
+                    const min = filters.minRatings?.[key];
+                    return (
+                        <div key={key} className="flex flex-col gap-1">
+                            <span className="text-sm text-[#F5F6FA]">
+                                <span aria-hidden="true">{icon}</span> {label}
+                            </span>
+                            <div
+                                role="group"
+                                aria-label={`Minimum ${label.toLowerCase()} rating`}
+                                className="flex gap-1"
+                            >
+                                {[1, 2, 3, 4, 5].map((n) => {
+                                    const count = facets?.ratings?.[key][n - 1];
+                                    const selected = min === n;
+                                    return (
+                                        <button
+                                            key={n}
+                                            type="button"
+                                            aria-pressed={selected}
+                                            aria-label={`${n} or higher${count !== undefined ? `, ${count} entries` : ''}`}
+                                            title={
+                                                count !== undefined
+                                                    ? `${count} entries`
+                                                    : undefined
+                                            }
+                                            onClick={() =>
+                                                setMinRating(
+                                                    key,
+                                                    selected ? undefined : n
+                                                )
+                                            }
+                                            disabled={count === 0 && !selected}
+                                            className={`flex-1 rounded-md border px-1 py-1 text-xs transition-colors disabled:opacity-40 ${selected ? 'border-[#2DE2E6]/60 bg-[#2DE2E6]/10 text-[#2DE2E6]' : 'border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/40'}`}
+                                        >
+                                            {n}+
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </FacetSection>
+
+            <FacetSection title="Completeness">
+                <FacetOption
+                    label="Complete"
+                    count={facets?.complete?.complete}
+                    selected={filters.complete === true}
+                    onToggle={() =>
+                        onFiltersChange({
+                            ...filters,
+                            complete:
+                                filters.complete === true ? undefined : true
+                        })
+                    }
+                />
+                <FacetOption
+                    label="Incomplete"
+                    count={facets?.complete?.incomplete}
+                    selected={filters.complete === false}
+                    onToggle={() =>
+                        onFiltersChange({
+                            ...filters,
+                            complete:
+                                filters.complete === false ? undefined : false
+                        })
+                    }
+                />
+            </FacetSection>
+
+            {facets && facets.tags.length > 0 && (
+                <FacetSection
+                    title="Tags"
+                    note={globalCountsNote(facets.globalValueCounts)}
+                >
+                    {facets.tags.map(({ tag, count }) => (
+                        <FacetOption
+                            key={tag._id}
+                            label={tag.name}
+                            count={count}
+                            selected={!!filters.tagIds?.includes(tag._id)}
+                            onToggle={() => toggleTag(tag._id)}
+                        />
+                    ))}
+                </FacetSection>
+            )}
+
+            {facets && facets.features.length > 0 && (
+                <FacetSection
+                    title="Features"
+                    note={globalCountsNote(facets.globalValueCounts)}
+                >
+                    {facets.features.map(({ feature, count }) => {
+                        const selected = filters.features?.find(
+                            (f) => f.featureId === feature._id
+                        );
+                        return (
+                            <div
+                                key={feature._id}
+                                className="flex flex-col gap-1"
+                            >
+                                <FacetOption
+                                    label={feature.name}
+                                    count={count}
+                                    selected={!!selected}
+                                    onToggle={() => toggleFeature(feature._id)}
+                                />
+                                {selected && (
+                                    <Select
+                                        value={String(
+                                            selected.minRating ?? 'any'
+                                        )}
+                                        onValueChange={(value) =>
+                                            setFeatureMinRating(
+                                                feature._id,
+                                                value === 'any'
+                                                    ? undefined
+                                                    : Number(value)
+                                            )
+                                        }
+                                    >
+                                        <SelectTrigger
+                                            className="h-8 w-full border-[#242433] bg-[#0B0B10] text-xs text-[#F5F6FA]"
+                                            aria-label={`Minimum rating for ${feature.name}`}
+                                        >
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent className="border-[#242433] bg-[#12121A]">
+                                            <SelectItem value="any">
+                                                Any rating
+                                            </SelectItem>
+                                            {[2, 3, 4, 5].map((n) => (
+                                                <SelectItem
+                                                    key={n}
+                                                    value={String(n)}
+                                                >
+                                                    Rated {n}+
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+                            </div>
+                        );
+                    })}
+                </FacetSection>
+            )}
+        </aside>
+    );
+}
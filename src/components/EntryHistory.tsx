@@ -0,0 +1,248 @@
+'use client';
+
+import * as React from 'react';
+import { useMutation, usePaginatedQuery } from 'convex/react';
+import { useUser } from '@clerk/nextjs';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '~/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '~/components/ui/card';
+import { Badge } from '~/components/ui/badge';
+import { Skeleton } from '~/components/ui/skeleton';
+
+type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
+
+const PAGE_SIZE = 20;
+
+interface EntryHistoryProps {
+    entryId: string;
+    entryType: Category;
+}
+
+const actionLabels = {
+    create: 'Created',
+    update: 'Edited',
+    tags: 'Tags changed',
+    features: 'Features changed',
+    revert: 'Reverted'
+} as const;
+
+const fieldLabels: Record<string, string> = {
+    name: 'Name',
+    description: 'Description',
+    overallRating: 'Overall rating',
+    visualAccessibility: 'Visual accessibility',
+    auditoryAccessibility: 'Auditory accessibility',
+    motorAccessibility: 'Motor accessibility',
+    cognitiveAccessibility: 'Cognitive accessibility',
+    website: 'Website',
+    photos: 'Photos',
+    photoDetails: 'Photo descriptions',
+    tags: 'Tags',
+    features: 'Features'
+};
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+}
+
+function formatValue(field: string, value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'photos' && Array.isArray(value)) {
+        return `${value.length} photo${value.length === 1 ? '' : 's'}`;
+    }
+    if (field === 'photoDetails' && Array.isArray(value)) {
+        return (value as Array<{ altText: string }>)
+            .map((photo) => photo.altText || 'No alt text')
+            .join(' · ');
+    }
+    if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+    if (typeof value === 'object') {
+        return Object.entries(value)
+            .filter(([, v]) => v !== undefined && v !== '')
+            .map(([k, v]) => `${k}: ${String(v)}`)
+            .join(', ');
+    }
+    return String(value);
+}
+
+function FieldChange({
+    field,
+    before,
+    after
+}: {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}) {
+    return (
+        <div className="grid gap-1 text-sm sm:grid-cols-[10rem_1fr]">
+            <span className="font-medium text-[#F5F6FA]">
+                {fieldLabels[field] ?? field}
+            </span>
+            <div className="flex flex-col gap-1">
+                <del className="rounded bg-[#FFB3A7]/10 px-2 py-0.5 text-[#FFB3A7] decoration-[#FFB3A7]/60">
+                    <span className="sr-only">Before: </span>
+                    {formatValue(field, before)}
+                </del>
+                <ins className="rounded bg-[#5EF0B6]/10 px-2 py-0.5 text-[#5EF0B6] no-underline">
+                    <span className="sr-only">After: </span>
+                    {formatValue(field, after)}
+                </ins>
+            </div>
+        </div>
+    );
+}
+
+export function EntryHistory({ entryId, entryType }: EntryHistoryProps) {
+    const { isSignedIn } = useUser();
+    const { results, status, loadMore } = usePaginatedQuery(
+        api.revisions.getRevisionsForEntry,
+        { entryType, entryId },
+        { initialNumItems: PAGE_SIZE }
+    );
+    const revisions = status === 'LoadingFirstPage' ? undefined : results;
+    const hasMore = status === 'CanLoadMore' || status === 'LoadingMore';
+    const revertToRevision = useMutation(api.revisions.revertToRevision);
+
+    const [isOpen, setIsOpen] = React.useState(false);
+    const [revertingId, setRevertingId] =
+        React.useState<Id<'entryRevisions'> | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const handleRevert = async (revisionId: Id<'entryRevisions'>) => {
+        if (!confirm('Restore the entry to how it was after this change?'))
+            return;
+
+        setRevertingId(revisionId);
+        setError(null);
+        try {
+            await revertToRevision({ revisionId });
+        } catch (err) {
+            console.error('Failed to revert entry:', err);
+            setError(
+                'Couldn’t revert this entry. Only its creator or a moderator can.'
+            );
+        } finally {
+            setRevertingId(null);
+        }
+    };
+
+    return (
+        <Card className="border-[#242433] bg-[#12121A]">
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-xl text-[#F5F6FA]">
+                    History
+                    {revisions && (
+                        <span className="ml-2 text-sm font-normal text-[#9CA3AF]">
+                            ({revisions.length}
+                            {hasMore && '+'})
+                        </span>
+                    )}
+                </CardTitle>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-expanded={isOpen}
+                    aria-controls="entry-history"
+                    onClick={() => setIsOpen((open) => !open)}
+                    className="text-[#2DE2E6] hover:bg-[#2DE2E6]/10"
+                >
+                    {isOpen ? 'Hide' : 'Show'}
+                </Button>
+            </CardHeader>
+            {isOpen && (
+                <CardContent id="entry-history" className="flex flex-col gap-4">
+                    {error && (
+                        <p role="alert" className="text-sm text-[#F9A8D4]">
+                            {error}
+                        </p>
+                    )}
+
+                    {revisions === undefined ? (
+                        <Skeleton className="h-20 w-full" />
+                    ) : revisions.length === 0 ? (
+                        <p className="text-[#9CA3AF]">
+                            No changes have been recorded yet.
+                        </p>
+                    ) : (
+                        <ol className="flex flex-col gap-4">
+                            {revisions.map((revision, index) => (
+                                <li
+                                    key={revision._id}
+                                    className="flex flex-col gap-3 rounded-lg border border-[#242433] p-4"
+                                >
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                                            <Badge
+                                                variant="outline"
+                                                className="border-[#242433] text-[#B9BBC7]"
+                                            >
+                                                {actionLabels[revision.action]}
+                                            </Badge>
+                                            <span className="text-[#F5F6FA]">
+                                                {revision.userName ??
+                                                    'Anonymous'}
+                                            </span>
+                                            <span className="text-[#9CA3AF]">
+                                                {formatDate(revision.createdAt)}
+                                            </span>
+                                        </div>
+                                        {/* The newest revision is the current state */}
+                                        {isSignedIn && index > 0 && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() =>
+                                                    handleRevert(revision._id)
+                                                }
+                                                disabled={
+                                                    revertingId === revision._id
+                                                }
+                                                className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                                            >
+                                                {revertingId === revision._id
+                                                    ? 'Reverting...'
+                                                    : 'Revert to this'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                    {revision.action !== 'create' && (
+                                        <div className="flex flex-col gap-2">
+                                            {revision.changes.map((change) => (
+                                                <FieldChange
+                                                    key={change.field}
+                                                    {...change}
+                                                />
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    {hasMore && (
+                        <div className="flex justify-center" aria-live="polite">
+                            <Button
+                                variant="outline"
+                                onClick={() => loadMore(PAGE_SIZE)}
+                                disabled={status === 'LoadingMore'}
+                                className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                            >
+                                {status === 'LoadingMore'
+                                    ? 'Loading changes...'
+                                    : 'Load older changes'}
+                            </Button>
+                        </div>
+                    )}
+                </CardContent>
+            )}
+        </Card>
+    );
+}
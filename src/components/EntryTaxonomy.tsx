@@ -0,0 +1,164 @@
+'use client';
+
+import Link from 'next/link';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { AccessibilityType } from '../../convex/features';
+import { Badge } from '~/components/ui/badge';
+import { Skeleton } from '~/components/ui/skeleton';
+
+type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
+
+const accessibilityTypeLabels: Record<
+    AccessibilityType,
+    { label: string; icon: string; color: string }
+> = {
+    visual: {
+        label: 'Visual',
+        icon: '👁️',
+        color: 'bg-[#C4B5FD]/20 text-[#C4B5FD] border-[#C4B5FD]/40'
+    },
+    auditory: {
+        label: 'Auditory',
+        icon: '👂',
+        color: 'bg-[#5EEAD4]/20 text-[#5EEAD4] border-[#5EEAD4]/40'
+    },
+    motor: {
+        label: 'Motor',
+        icon: '🖐️',
+        color: 'bg-[#86EFAC]/20 text-[#86EFAC] border-[#86EFAC]/40'
+    },
+    cognitive: {
+        label: 'Cognitive',
+        icon: '🧠',
+        color: 'bg-[#FED7AA]/20 text-[#FED7AA] border-[#FED7AA]/40'
+    },
+    general: {
+        label: 'General',
+        icon: '♿',
+        color: 'bg-[#F9A8D4]/20 text-[#F9A8D4] border-[#F9A8D4]/40'
+    }
+};
+
+const accessibilityTypes = Object.keys(
+    accessibilityTypeLabels
+) as AccessibilityType[];
+
+interface EntryTaxonomyProps {
+    entryType: Category;
+    entryId: string;
+}
+
+// The entry's accessibility features, grouped by accessibility type, with
+// how well the entry provides each one
+export function EntryFeatures({ entryType, entryId }: EntryTaxonomyProps) {
+    const features = useQuery(api.features.getFeaturesForEntry, {
+        entryType,
+        entryId
+    });
+
+    if (features === undefined) {
+        return <Skeleton className="h-24 w-full" />;
+    }
+    if (features.length === 0) {
+        return null;
+    }
+
+    return (
+        <div>
+            <h3 className="mb-3 font-medium text-[#F5F6FA]">
+                Accessibility Features
+            </h3>
+            <div className="flex flex-col gap-4">
+                {accessibilityTypes.map((type) => {
+                    const group = features
+                        .filter((feature) => feature.accessibilityType === type)
+                        .sort((a, b) => b.rating - a.rating);
+                    if (group.length === 0) return null;
+                    const { label, icon, color } =
+                        accessibilityTypeLabels[type];
+
+                    return (
+                        <section key={type} aria-label={`${label} features`}>
+                            <h4 className="mb-2 text-sm font-medium text-[#B9BBC7]">
+                                <span aria-hidden="true">{icon}</span> {label}
+                            </h4>
+                            <ul className="flex flex-col gap-2">
+                                {group.map((feature) => (
+                                    <li
+                                        key={feature._id}
+                                        className="rounded-lg border border-[#242433] bg-[#0B0B10] p-3"
+                                    >
+                                        <div className="flex items-center justify-between gap-2">
+                                            <Badge
+                                                variant="outline"
+                                                className={color}
+                                            >
+                                                {feature.name}
+                                            </Badge>
+                                            <span
+                                                className="text-sm text-[#B9BBC7]"
+                                                aria-label={`Rated ${feature.rating} out of 5`}
+                                            >
+                                                {feature.rating}/5
+                                            </span>
+                                        </div>
+                                        {(feature.worksCount > 0 ||
+                                            feature.brokenCount > 0) && (
+                                            <p className="mt-2 text-xs text-[#9CA3AF]">
+                                                Reviewers report it works{' '}
+                                                {feature.worksCount}{' '}
+                                                {feature.worksCount === 1
+                                                    ? 'time'
+                                                    : 'times'}
+                                                , broken {feature.brokenCount}{' '}
+                                                {feature.brokenCount === 1
+                                                    ? 'time'
+                                                    : 'times'}
+                                            </p>
+                                        )}
+                                        {feature.notes && (
+                                            <p className="mt-2 whitespace-pre-wrap text-sm text-[#B9BBC7]">
+                                                {feature.notes}
+                                            </p>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+// The entry's tags, each linking to the tag's page
+export function EntryTags({ entryType, entryId }: EntryTaxonomyProps) {
+    const tags = useQuery(api.tags.getTagsForEntry, { entryType, entryId });
+
+    if (tags === undefined) {
+        return <Skeleton className="h-8 w-1/2" />;
+    }
+    if (tags.length === 0) {
+        return null;
+    }
+
+    return (
+        <div>
+            <h3 className="mb-3 font-medium text-[#F5F6FA]">Tags</h3>
+            <ul className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                    <li key={tag._id}>
+                        <Link
+                            href={`/tags/${tag.slug}`}
+                            className="inline-flex rounded-full border border-[#242433] px-3 py-1 text-sm text-[#B9BBC7] transition-colors hover:border-[#2DE2E6]/50 hover:text-[#2DE2E6]"
+                        >
+                            #{tag.name}
+                        </Link>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import * as React from 'react';
+import { useMutation } from 'convex/react';
+import { useUser } from '@clerk/nextjs';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { HelpfulnessSort } from '../../convex/votes';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '~/components/ui/select';
+
+const sortLabels: Record<HelpfulnessSort, string> = {
+    newest: 'Newest',
+    oldest: 'Oldest',
+    helpful: 'Most helpful'
+};
+
+// Choose between newest, oldest and most helpful first
+export function HelpfulnessSortSelect({
+    value,
+    onChange,
+    label
+}: {
+    value: HelpfulnessSort;
+    onChange: (value: HelpfulnessSort) => void;
+    label: string;
+}) {
+    return (
+        <Select
+            value={value}
+            onValueChange={(sort) => onChange(sort as HelpfulnessSort)}
+        >
+            <SelectTrigger
+                className="w-40 border-[#242433] bg-[#0B0B10] text-[#F5F6FA]"
+                aria-label={label}
+            >
+                <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="border-[#242433] bg-[#12121A]">
+                {(Object.keys(sortLabels) as HelpfulnessSort[]).map((sort) => (
+                    <SelectItem key={sort} value={sort}>
+                        {sortLabels[sort]}
+                    </SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
+
+interface HelpfulVoteProps {
+    targetId: Id<'reviews'> | Id<'comments'>;
+    authorId: string;
+    helpfulCount?: number;
+    unhelpfulCount?: number;
+    // The viewer's vote, if any
+    vote?: boolean;
+}
+
+// Helpful / not helpful buttons for a review or comment. Pressing the
+// current vote again takes it back. Authors can't vote on their own posts.
+export function HelpfulVote({
+    targetId,
+    authorId,
+    helpfulCount = 0,
+    unhelpfulCount = 0,
+    vote
+}: HelpfulVoteProps) {
+    const { isSignedIn, user } = useUser();
+    const castVote = useMutation(api.votes.castVote);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const isOwn = user?.id === authorId;
+    const disabledReason = !isSignedIn
+        ? 'Sign in to vote'
+        : isOwn
+          ? 'You cannot vote on your own posts'
+          : undefined;
+
+    const handleVote = async (helpful: boolean) => {
+        setError(null);
+        try {
+            await castVote({
+                targetId,
+                helpful: vote === helpful ? null : helpful
+            });
+        } catch (error) {
+            console.error('Failed to vote:', error);
+            setError(error instanceof Error ? error.message : 'Failed to vote');
+        }
+    };
+
+    const buttonClass = (isSelected: boolean) =>
+        `rounded-full border px-2 py-0.5 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${isSelected ? 'border-[#2DE2E6]/50 bg-[#2DE2E6]/10 text-[#2DE2E6]' : 'border-[#242433] text-[#B9BBC7] hover:border-[#2DE2E6]/40'}`;
+
+    return (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-[#9CA3AF]">
+            <span>Helpful?</span>
+            <button
+                type="button"
+                aria-pressed={vote === true}
+                aria-label={`Helpful, ${helpfulCount} ${helpfulCount === 1 ? 'vote' : 'votes'}`}
+                title={disabledReason}
+                disabled={!!disabledReason}
+                onClick={() => handleVote(true)}
+                className={buttonClass(vote === true)}
+            >
+                <span aria-hidden="true">👍 {helpfulCount}</span>
+            </button>
+            <button
+                type="button"
+                aria-pressed={vote === false}
+                aria-label={`Not helpful, ${unhelpfulCount} ${unhelpfulCount === 1 ? 'vote' : 'votes'}`}
+                title={disabledReason}
+                disabled={!!disabledReason}
+                onClick={() => handleVote(false)}
+                className={buttonClass(vote === false)}
+            >
+                <span aria-hidden="true">👎 {unhelpfulCount}</span>
+            </button>
+            {error && (
+                <span role="alert" className="text-[#F9A8D4]">
+                    {error}
+                </span>
+            )}
+        </div>
+    );
+}
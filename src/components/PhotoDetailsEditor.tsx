@@ -0,0 +1,245 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import type { Id } from '../../convex/_generated/dataModel';
+import type { PhotoDetail } from '../../convex/photos';
+import { Input } from '~/components/ui/input';
+import { Textarea } from '~/components/ui/textarea';
+import { Button } from '~/components/ui/button';
+import { Label } from '~/components/ui/label';
+
+// A photo uploaded in an entry form, with the metadata being entered for it
+export interface UploadedPhoto {
+    storageId: Id<'_storage'>;
+    name: string;
+    preview: string;
+    altText: string;
+    longDescription: string;
+    caption: string;
+    credit: string;
+    isCover: boolean;
+}
+
+export function newUploadedPhoto(
+    storageId: Id<'_storage'>,
+    file: File
+): UploadedPhoto {
+    return {
+        storageId,
+        name: file.name,
+        preview: URL.createObjectURL(file),
+        altText: '',
+        longDescription: '',
+        caption: '',
+        credit: '',
+        isCover: false
+    };
+}
+
+export function isMissingAltText(photos: UploadedPhoto[]): boolean {
+    return photos.some((photo) => !photo.altText.trim());
+}
+
+// Metadata in the shape the create/update mutations take, in display order
+export function toPhotoDetails(photos: UploadedPhoto[]): PhotoDetail[] {
+    return photos.map((photo, index) => ({
+        storageId: photo.storageId,
+        altText: photo.altText.trim(),
+        longDescription: photo.longDescription.trim() || undefined,
+        caption: photo.caption.trim() || undefined,
+        credit: photo.credit.trim() || undefined,
+        order: index,
+        isCover: photo.isCover
+    }));
+}
+
+interface PhotoDetailsEditorProps {
+    photos: UploadedPhoto[];
+    onChange: (photos: UploadedPhoto[]) => void;
+    onRemove: (storageId: Id<'_storage'>) => void;
+}
+
+// Alt text, description, caption and credit for each uploaded photo, with
+// controls to reorder photos and pick the cover
+export function PhotoDetailsEditor({
+    photos,
+    onChange,
+    onRemove
+}: PhotoDetailsEditorProps) {
+    const update = (index: number, changes: Partial<UploadedPhoto>) => {
+        onChange(
+            photos.map((photo, i) =>
+                i === index ? { ...photo, ...changes } : photo
+            )
+        );
+    };
+
+    const move = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= photos.length) return;
+        const reordered = [...photos];
+        [reordered[index], reordered[target]] = [
+            reordered[target]!,
+            reordered[index]!
+        ];
+        onChange(reordered);
+    };
+
+    const setCover = (index: number) => {
+        onChange(
+            photos.map((photo, i) => ({ ...photo, isCover: i === index }))
+        );
+    };
+
+    // Without an explicit choice the first photo is the cover
+    const coverIndex = Math.max(
+        0,
+        photos.findIndex((photo) => photo.isCover)
+    );
+
+    if (photos.length === 0) return null;
+
+    return (
+        <ol className="flex flex-col gap-4">
+            {photos.map((photo, index) => {
+                const fieldId = `photo-${photo.storageId}`;
+                const missingAlt = !photo.altText.trim();
+
+                return (
+                    <li
+                        key={photo.storageId}
+                        className="flex flex-col gap-3 rounded-md border p-3 sm:flex-row"
+                    >
+                        <div className="relative h-24 w-24 shrink-0">
+                            <Image
+                                src={photo.preview}
+                                alt={photo.altText || photo.name}
+                                fill
+                                unoptimized
+                                className="rounded-md object-cover"
+                            />
+                        </div>
+
+                        <div className="flex flex-1 flex-col gap-2">
+                            <div className="flex flex-col gap-1">
+                                <Label htmlFor={`${fieldId}-alt`}>
+                                    Alt text *
+                                </Label>
+                                <Input
+                                    id={`${fieldId}-alt`}
+                                    value={photo.altText}
+                                    onChange={(e) =>
+                                        update(index, {
+                                            altText: e.target.value
+                                        })
+                                    }
+                                    placeholder="Describe what the photo shows"
+                                    maxLength={250}
+                                    required
+                                    aria-invalid={missingAlt}
+                                    aria-describedby={`${fieldId}-alt-hint`}
+                                />
+                                <p
+                                    id={`${fieldId}-alt-hint`}
+                                    className="text-muted-foreground text-xs"
+                                >
+                                    Read aloud by screen readers. Keep it short;
+                                    add detail below.
+                                </p>
+                            </div>
+                            <div className="flex flex-col gap-1">
+                                <Label htmlFor={`${fieldId}-description`}>
+                                    Long description
+                                </Label>
+                                <Textarea
+                                    id={`${fieldId}-description`}
+                                    value={photo.longDescription}
+                                    onChange={(e) =>
+                                        update(index, {
+                                            longDescription: e.target.value
+                                        })
+                                    }
+                                    placeholder="Details that matter for accessibility, e.g. step heights or signage"
+                                    rows={2}
+                                />
+                            </div>
+                            <div className="grid gap-2 sm:grid-cols-2">
+                                <div className="flex flex-col gap-1">
+                                    <Label htmlFor={`${fieldId}-caption`}>
+                                        Caption
+                                    </Label>
+                                    <Input
+                                        id={`${fieldId}-caption`}
+                                        value={photo.caption}
+                                        onChange={(e) =>
+                                            update(index, {
+                                                caption: e.target.value
+                                            })
+                                        }
+                                    />
+                                </div>
+                                <div className="flex flex-col gap-1">
+                                    <Label htmlFor={`${fieldId}-credit`}>
+                                        Credit
+                                    </Label>
+                                    <Input
+                                        id={`${fieldId}-credit`}
+                                        value={photo.credit}
+                                        onChange={(e) =>
+                                            update(index, {
+                                                credit: e.target.value
+                                            })
+                                        }
+                                        placeholder="Photographer or source"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="flex flex-wrap items-center gap-2">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="radio"
+                                        name="cover-photo"
+                                        checked={index === coverIndex}
+                                        onChange={() => setCover(index)}
+                                    />
+                                    Cover photo
+                                </label>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => move(index, -1)}
+                                    disabled={index === 0}
+                                    aria-label={`Move photo ${index + 1} earlier`}
+                                >
+                                    ↑
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => move(index, 1)}
+                                    disabled={index === photos.length - 1}
+                                    aria-label={`Move photo ${index + 1} later`}
+                                >
+                                    ↓
+                                </Button>
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => onRemove(photo.storageId)}
+                                    aria-label={`Remove photo ${index + 1}`}
+                                >
+                                    Remove
+                                </Button>
+                            </div>
+                        </div>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+}
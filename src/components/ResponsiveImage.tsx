@@ -0,0 +1,52 @@
+'use client';
+
+import * as React from 'react';
+import type { ImageSource } from '../../convex/storage';
+
+interface ResponsiveImageProps {
+    source: ImageSource;
+    alt: string;
+    // Rendered width of the image, so the browser can pick a variant
+    sizes: string;
+    className?: string;
+    onClick?: (e: React.MouseEvent<HTMLImageElement>) => void;
+}
+
+// An uploaded image served from its resized WebP variants (see
+// storage.getImageSources), shown blurred until it has loaded. The variants
+// are already optimized, so this bypasses next/image.
+export function ResponsiveImage({
+    source,
+    alt,
+    sizes,
+    className,
+    onClick
+}: ResponsiveImageProps) {
+    const [loaded, setLoaded] = React.useState(false);
+
+    return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+            src={source.url}
+            srcSet={source.srcSet}
+            sizes={source.srcSet ? sizes : undefined}
+            width={source.width}
+            height={source.height}
+            alt={alt}
+            loading="lazy"
+            decoding="async"
+            onLoad={() => setLoaded(true)}
+            onClick={onClick}
+            className={className}
+            style={
+                source.blurDataUrl && !loaded
+                    ? {
+                          backgroundImage: `url(${source.blurDataUrl})`,
+                          backgroundSize: 'cover',
+                          backgroundPosition: 'center'
+                      }
+                    : undefined
+            }
+        />
+    );
+}
@@ -0,0 +1,870 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { useQuery, useMutation } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
+import { useUser, SignInButton } from '@clerk/nextjs';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { dimensions } from '../../convex/communityRatings';
+import type { Dimension, RatingSummary } from '../../convex/communityRatings';
+import type { AccessibilityType } from '../../convex/features';
+import type { HelpfulnessSort } from '../../convex/votes';
+import { Button } from '~/components/ui/button';
+import { Input } from '~/components/ui/input';
+import { Textarea } from '~/components/ui/textarea';
+import { Card, CardHeader, CardTitle, CardContent } from '~/components/ui/card';
+import { Badge } from '~/components/ui/badge';
+import { Skeleton } from '~/components/ui/skeleton';
+import { HelpfulVote, HelpfulnessSortSelect } from '~/components/Helpfulness';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from '~/components/ui/select';
+
+type Category = 'game' | 'hardware' | 'place' | 'software' | 'service';
+
+const accessibilityTypeLabels: Record<
+    AccessibilityType,
+    { label: string; icon: string }
+> = {
+    visual: { label: 'Visual', icon: '👁️' },
+    auditory: { label: 'Auditory', icon: '👂' },
+    motor: { label: 'Motor', icon: '🖐️' },
+    cognitive: { label: 'Cognitive', icon: '🧠' },
+    general: { label: 'General', icon: '♿' }
+};
+
+const accessibilityTypes = Object.keys(
+    accessibilityTypeLabels
+) as AccessibilityType[];
+
+interface ReviewsProps {
+    entryId:
+        | Id<'games'>
+        | Id<'hardware'>
+        | Id<'places'>
+        | Id<'software'>
+        | Id<'services'>;
+    entryName: string;
+    entryType: Category;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+    });
+}
+
+function Stars({ rating }: { rating: number }) {
+    return (
+        <span
+            role="img"
+            aria-label={`${rating} out of 5 stars`}
+            className="text-sm"
+        >
+            {[1, 2, 3, 4, 5].map((star) => (
+                <span
+                    key={star}
+                    aria-hidden="true"
+                    className={
+                        star <= rating ? 'text-[#5EEAD4]' : 'text-[#3D3D4D]'
+                    }
+                >
+                    ★
+                </span>
+            ))}
+        </span>
+    );
+}
+
+type FeatureStatus = 'works' | 'broken';
+
+// A row of star radios. Optional ratings can be cleared.
+function StarInput({
+    name,
+    legend,
+    value,
+    onChange,
+    optional = false
+}: {
+    name: string;
+    legend: React.ReactNode;
+    value: number;
+    onChange: (value: number) => void;
+    optional?: boolean;
+}) {
+    return (
+        <fieldset className="flex flex-wrap items-center gap-3">
+            <legend className="mb-2 text-sm font-medium text-[#F5F6FA]">
+                {legend}
+            </legend>
+            {[1, 2, 3, 4, 5].map((star) => (
+                <label
+                    key={star}
+                    className={`cursor-pointer text-2xl transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-[#2DE2E6] ${star <= value ? 'text-[#5EEAD4]' : 'text-[#3D3D4D] hover:text-[#5EEAD4]/60'}`}
+                >
+                    <input
+                        type="radio"
+                        name={name}
+                        value={star}
+                        checked={value === star}
+                        onChange={() => onChange(star)}
+                        className="sr-only"
+                    />
+                    <span aria-hidden="true">★</span>
+                    <span className="sr-only">
+                        {star} {star === 1 ? 'star' : 'stars'}
+                    </span>
+                </label>
+            ))}
+            {optional && value > 0 && (
+                <Button
+                    type="button"
+                    variant="ghost"
+                    size="xs"
+                    onClick={() => onChange(0)}
+                    className="text-[#9CA3AF] hover:text-[#F5F6FA]"
+                >
+                    Clear
+                </Button>
+            )}
+        </fieldset>
+    );
+}
+
+// How many reviews gave each star rating, as horizontal bars
+function RatingDistribution({ summary }: { summary: RatingSummary }) {
+    const average = summary.sum / summary.count;
+
+    return (
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:gap-8">
+            <div className="flex flex-col items-center">
+                <span className="text-4xl font-bold text-[#F5F6FA]">
+                    {average.toFixed(1)}
+                </span>
+                <Stars rating={Math.round(average)} />
+                <span className="text-xs text-[#9CA3AF]">
+                    {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+                </span>
+            </div>
+            <ul className="flex flex-1 flex-col gap-1" aria-label="Ratings">
+                {[5, 4, 3, 2, 1].map((star) => {
+                    const count = summary.distribution[star - 1] ?? 0;
+                    return (
+                        <li
+                            key={star}
+                            className="flex items-center gap-2 text-sm text-[#B9BBC7]"
+                            aria-label={`${star} stars: ${count} ${count === 1 ? 'review' : 'reviews'}`}
+                        >
+                            <span aria-hidden="true" className="w-6">
+                                {star}★
+                            </span>
+                            <div
+                                aria-hidden="true"
+                                className="h-2 flex-1 overflow-hidden rounded-full bg-[#242433]"
+                            >
+                                <div
+                                    className="h-full rounded-full bg-gradient-to-r from-[#2DE2E6] to-[#5EF0B6]"
+                                    style={{
+                                        width: `${(count / summary.count) * 100}%`
+                                    }}
+                                />
+                            </div>
+                            <span aria-hidden="true" className="w-6 text-right">
+                                {count}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
+
+type ReviewWithDetails = FunctionReturnType<
+    typeof api.reviews.getReviewsForEntry
+>[number];
+
+// The structured parts of a review: per-need ratings, feature reports, and
+// what it was tested with
+function ReviewDetails({ review }: { review: ReviewWithDetails }) {
+    const rated = dimensions.filter(
+        (dimension) => review.dimensionRatings?.[dimension] !== undefined
+    );
+    const confirmations = review.featureConfirmations.filter(
+        (confirmation) => confirmation.name
+    );
+    const assistiveTechnology = review.assistiveTechnology ?? [];
+    if (
+        rated.length === 0 &&
+        confirmations.length === 0 &&
+        !review.testedOn &&
+        assistiveTechnology.length === 0
+    ) {
+        return null;
+    }
+
+    return (
+        <div className="mt-2 flex flex-col gap-2 text-xs text-[#B9BBC7]">
+            {rated.length > 0 && (
+                <ul className="flex flex-wrap gap-x-4 gap-y-1">
+                    {rated.map((dimension) => (
+                        <li key={dimension} className="flex items-center gap-1">
+                            <span>
+                                {accessibilityTypeLabels[dimension].label}
+                            </span>
+                            <Stars
+                                rating={
+                                    review.dimensionRatings?.[dimension] ?? 0
+                                }
+                            />
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {confirmations.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                    {confirmations.map((confirmation) => (
+                        <li key={confirmation.featureId}>
+                            <Badge
+                                variant="outline"
+                                className={
+                                    confirmation.status === 'works'
+                                        ? 'border-[#86EFAC]/40 text-[#86EFAC]'
+                                        : 'border-[#F9A8D4]/40 text-[#F9A8D4]'
+                                }
+                            >
+                                {confirmation.name}:{' '}
+                                {confirmation.status === 'works'
+                                    ? 'works'
+                                    : 'broken'}
+                            </Badge>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {(review.testedOn || assistiveTechnology.length > 0) && (
+                <p className="text-[#9CA3AF]">
+                    {[
+                        review.testedOn && `Tested on ${review.testedOn}`,
+                        assistiveTechnology.length > 0 &&
+                            `Using ${assistiveTechnology.join(', ')}`
+                    ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                </p>
+            )}
+        </div>
+    );
+}
+
+// Earlier versions of an edited review, loaded when expanded
+function ReviewHistory({
+    reviewId,
+    updatedAt
+}: {
+    reviewId: Id<'reviews'>;
+    updatedAt: number;
+}) {
+    const [isOpen, setIsOpen] = React.useState(false);
+    const history = useQuery(
+        api.reviews.getReviewHistory,
+        isOpen ? { reviewId } : 'skip'
+    );
+
+    return (
+        <details
+            className="mt-2 text-xs text-[#9CA3AF]"
+            onToggle={(e) => setIsOpen(e.currentTarget.open)}
+        >
+            <summary className="cursor-pointer">
+                Edited {formatDate(updatedAt)}
+            </summary>
+            {history === undefined ? (
+                <Skeleton className="mt-2 h-4 w-1/2" />
+            ) : (
+                <ol className="mt-2 flex flex-col gap-2 border-l border-[#242433] pl-3">
+                    {history.map((version) => (
+                        <li key={version._id}>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Stars rating={version.rating} />
+                                <span>
+                                    Written {formatDate(version.createdAt)},
+                                    replaced {formatDate(version.replacedAt)}
+                                </span>
+                            </div>
+                            <p className="mt-1 whitespace-pre-wrap text-[#B9BBC7]">
+                                {version.comment}
+                            </p>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </details>
+    );
+}
+
+export function Reviews({ entryId, entryName, entryType }: ReviewsProps) {
+    const { isSignedIn, user } = useUser();
+    const [sort, setSort] = React.useState<HelpfulnessSort>('newest');
+    const reviews = useQuery(api.reviews.getReviewsForEntry, {
+        entryType,
+        entryId,
+        sort
+    });
+    const myVotes = useQuery(api.votes.getMyVotes, { entryType, entryId });
+    const communityRating = useQuery(api.reviews.getCommunityRating, {
+        entryType,
+        entryId
+    });
+    const features = useQuery(api.features.getFeaturesForEntry, {
+        entryType,
+        entryId
+    });
+    const addReview = useMutation(api.reviews.addReview);
+    const updateReview = useMutation(api.reviews.updateReview);
+    const deleteReview = useMutation(api.reviews.deleteReview);
+
+    const [rating, setRating] = React.useState(0);
+    const [comment, setComment] = React.useState('');
+    const [accessibilityType, setAccessibilityType] = React.useState<
+        AccessibilityType | 'none'
+    >('none');
+    const [dimensionRatings, setDimensionRatings] = React.useState<
+        Partial<Record<Dimension, number>>
+    >({});
+    const [featureReports, setFeatureReports] = React.useState<
+        Partial<Record<Id<'accessibilityFeatures'>, FeatureStatus>>
+    >({});
+    const [testedOn, setTestedOn] = React.useState('');
+    const [assistiveTechnology, setAssistiveTechnology] = React.useState('');
+    const [filter, setFilter] = React.useState<AccessibilityType | 'all'>(
+        'all'
+    );
+    const [editingId, setEditingId] = React.useState<Id<'reviews'> | null>(
+        null
+    );
+    const [isSubmitting, setIsSubmitting] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+
+    // Users have one review per entry; once written, the form edits it
+    const ownReview = reviews?.find((review) => review.userId === user?.id);
+
+    const resetForm = () => {
+        setRating(0);
+        setComment('');
+        setAccessibilityType('none');
+        setDimensionRatings({});
+        setFeatureReports({});
+        setTestedOn('');
+        setAssistiveTechnology('');
+        setEditingId(null);
+        setError(null);
+    };
+
+    const startEditing = (review: ReviewWithDetails) => {
+        setRating(review.rating);
+        setComment(review.comment);
+        setAccessibilityType(review.accessibilityType ?? 'none');
+        setDimensionRatings(review.dimensionRatings ?? {});
+        // Reports on features the entry no longer has can't be resubmitted
+        setFeatureReports(
+            Object.fromEntries(
+                review.featureConfirmations
+                    .filter((confirmation) =>
+                        features?.some(
+                            (feature) => feature._id === confirmation.featureId
+                        )
+                    )
+                    .map((confirmation) => [
+                        confirmation.featureId,
+                        confirmation.status
+                    ])
+            )
+        );
+        setTestedOn(review.testedOn ?? '');
+        setAssistiveTechnology(review.assistiveTechnology?.join(', ') ?? '');
+        setEditingId(review._id);
+        setError(null);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rating || !comment.trim() || !isSignedIn) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const content = {
+                rating,
+                comment: comment.trim(),
+                accessibilityType:
+                    accessibilityType === 'none'
+                        ? undefined
+                        : accessibilityType,
+                dimensionRatings,
+                featureConfirmations: Object.entries(featureReports).flatMap(
+                    ([featureId, status]) =>
+                        status
+                            ? [
+                                  {
+                                      featureId:
+                                          featureId as Id<'accessibilityFeatures'>,
+                                      status
+                                  }
+                              ]
+                            : []
+                ),
+                testedOn,
+                assistiveTechnology: assistiveTechnology.split(',')
+            };
+            if (editingId) {
+                await updateReview({ id: editingId, ...content });
+            } else {
+                await addReview({ entryType, entryId, ...content });
+            }
+            resetForm();
+        } catch (error) {
+            console.error('Failed to save review:', error);
+            setError(
+                error instanceof Error ? error.message : 'Failed to save review'
+            );
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = async (reviewId: Id<'reviews'>) => {
+        if (!confirm('Are you sure you want to delete this review?')) return;
+
+        try {
+            await deleteReview({ id: reviewId });
+            if (editingId === reviewId) resetForm();
+        } catch (error) {
+            console.error('Failed to delete review:', error);
+        }
+    };
+
+    const visibleReviews =
+        reviews && filter !== 'all'
+            ? reviews.filter((review) => review.accessibilityType === filter)
+            : reviews;
+
+    return (
+        <Card className="w-full border-[#242433] bg-[#12121A]">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-[#F5F6FA]">
+                    ⭐ Reviews
+                    {reviews && (
+                        <Badge
+                            variant="secondary"
+                            className="bg-[#5EEAD4]/20 text-[#5EEAD4]"
+                            aria-label={`${reviews.length} reviews`}
+                        >
+                            {reviews.length}
+                        </Badge>
+                    )}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-6">
+                {communityRating && communityRating.overall.count > 0 && (
+                    <RatingDistribution summary={communityRating.overall} />
+                )}
+
+                {/* Review Form */}
+                {isSignedIn && ownReview && !editingId ? (
+                    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-[#242433] bg-[#0B0B10] p-4">
+                        <p className="text-sm text-[#B9BBC7]">
+                            You&apos;ve reviewed {entryName}.
+                        </p>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startEditing(ownReview)}
+                            className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                        >
+                            Edit your review
+                        </Button>
+                    </div>
+                ) : isSignedIn ? (
+                    <form
+                        onSubmit={handleSubmit}
+                        className="flex flex-col gap-3 rounded-lg border border-[#242433] bg-[#0B0B10] p-4"
+                    >
+                        <StarInput
+                            name="review-rating"
+                            legend={
+                                editingId ? 'Edit your rating' : 'Your rating'
+                            }
+                            value={rating}
+                            onChange={setRating}
+                        />
+                        <Select
+                            value={accessibilityType}
+                            onValueChange={(value) =>
+                                setAccessibilityType(
+                                    value as AccessibilityType | 'none'
+                                )
+                            }
+                        >
+                            <SelectTrigger
+                                className="w-full border-[#242433] bg-[#12121A] text-[#F5F6FA] sm:w-64"
+                                aria-label="Accessibility need this review covers"
+                            >
+                                <SelectValue placeholder="Accessibility need (optional)" />
+                            </SelectTrigger>
+                            <SelectContent className="border-[#242433] bg-[#12121A]">
+                                <SelectItem value="none">
+                                    No specific need
+                                </SelectItem>
+                                {accessibilityTypes.map((type) => (
+                                    <SelectItem key={type} value={type}>
+                                        {accessibilityTypeLabels[type].icon}{' '}
+                                        {accessibilityTypeLabels[type].label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Textarea
+                            placeholder={`How accessible is ${entryName} for you?`}
+                            aria-label="Review"
+                            value={comment}
+                            onChange={(e) => setComment(e.target.value)}
+                            rows={3}
+                            className="resize-none border-[#242433] bg-[#12121A] text-[#F5F6FA] placeholder:text-[#B9BBC7]/50 focus:border-[#2DE2E6]/50"
+                        />
+                        <details className="rounded-lg border border-[#242433] p-3">
+                            <summary className="cursor-pointer text-sm font-medium text-[#F5F6FA]">
+                                Add details (optional)
+                            </summary>
+                            <div className="mt-3 flex flex-col gap-4">
+                                {dimensions.map((dimension) => (
+                                    <StarInput
+                                        key={dimension}
+                                        name={`review-rating-${dimension}`}
+                                        legend={
+                                            <>
+                                                <span aria-hidden="true">
+                                                    {
+                                                        accessibilityTypeLabels[
+                                                            dimension
+                                                        ].icon
+                                                    }
+                                                </span>{' '}
+                                                {
+                                                    accessibilityTypeLabels[
+                                                        dimension
+                                                    ].label
+                                                }{' '}
+                                                accessibility
+                                            </>
+                                        }
+                                        value={dimensionRatings[dimension] ?? 0}
+                                        onChange={(value) =>
+                                            setDimensionRatings((current) => ({
+                                                ...current,
+                                                [dimension]: value || undefined
+                                            }))
+                                        }
+                                        optional
+                                    />
+                                ))}
+                                {features && features.length > 0 && (
+                                    <fieldset className="flex flex-col gap-2">
+                                        <legend className="mb-2 text-sm font-medium text-[#F5F6FA]">
+                                            Did its features work for you?
+                                        </legend>
+                                        {features.map((feature) => (
+                                            <div
+                                                key={feature._id}
+                                                className="flex flex-wrap items-center justify-between gap-2"
+                                            >
+                                                <span className="text-sm text-[#B9BBC7]">
+                                                    {feature.name}
+                                                </span>
+                                                <Select
+                                                    value={
+                                                        featureReports[
+                                                            feature._id
+                                                        ] ?? 'none'
+                                                    }
+                                                    onValueChange={(value) =>
+                                                        setFeatureReports(
+                                                            (current) => ({
+                                                                ...current,
+                                                                [feature._id]:
+                                                                    value ===
+                                                                    'none'
+                                                                        ? undefined
+                                                                        : (value as FeatureStatus)
+                                                            })
+                                                        )
+                                                    }
+                                                >
+                                                    <SelectTrigger
+                                                        className="w-full border-[#242433] bg-[#12121A] text-[#F5F6FA] sm:w-48"
+                                                        aria-label={`Did ${feature.name} work for you?`}
+                                                    >
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                    <SelectContent className="border-[#242433] bg-[#12121A]">
+                                                        <SelectItem value="none">
+                                                            Didn&apos;t try
+                                                        </SelectItem>
+                                                        <SelectItem value="works">
+                                                            Works as described
+                                                        </SelectItem>
+                                                        <SelectItem value="broken">
+                                                            Broken
+                                                        </SelectItem>
+                                                    </SelectContent>
+                                                </Select>
+                                            </div>
+                                        ))}
+                                    </fieldset>
+                                )}
+                                <Input
+                                    placeholder="Platform or version tested (e.g., iOS 18, v2.3)"
+                                    aria-label="Platform or version tested"
+                                    value={testedOn}
+                                    onChange={(e) =>
+                                        setTestedOn(e.target.value)
+                                    }
+                                    maxLength={100}
+                                    className="border-[#242433] bg-[#12121A] text-[#F5F6FA]"
+                                />
+                                <Input
+                                    placeholder="Assistive technology used, comma-separated (e.g., VoiceOver, switch control)"
+                                    aria-label="Assistive technology used, comma-separated"
+                                    value={assistiveTechnology}
+                                    onChange={(e) =>
+                                        setAssistiveTechnology(e.target.value)
+                                    }
+                                    className="border-[#242433] bg-[#12121A] text-[#F5F6FA]"
+                                />
+                            </div>
+                        </details>
+                        {error && (
+                            <p role="alert" className="text-sm text-[#F9A8D4]">
+                                {error}
+                            </p>
+                        )}
+                        <div className="flex justify-end gap-2">
+                            {editingId && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={resetForm}
+                                    disabled={isSubmitting}
+                                    className="text-[#B9BBC7] hover:text-[#F5F6FA]"
+                                >
+                                    Cancel
+                                </Button>
+                            )}
+                            <Button
+                                type="submit"
+                                disabled={
+                                    isSubmitting || !rating || !comment.trim()
+                                }
+                                size="sm"
+                                className="bg-[#2DE2E6] text-[#0B0B10] hover:bg-[#2DE2E6]/90"
+                            >
+                                {isSubmitting
+                                    ? 'Saving...'
+                                    : editingId
+                                      ? 'Update Review'
+                                      : 'Post Review'}
+                            </Button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="flex flex-col items-center gap-3 rounded-lg border border-[#242433] bg-[#0B0B10] p-6 text-center">
+                        <p className="text-[#B9BBC7]">
+                            Sign in to review {entryName}
+                        </p>
+                        <SignInButton mode="modal">
+                            <Button
+                                variant="outline"
+                                className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                            >
+                                Sign In to Review
+                            </Button>
+                        </SignInButton>
+                    </div>
+                )}
+
+                {/* Filter by accessibility need */}
+                {reviews && reviews.length > 0 && (
+                    <div
+                        className="flex flex-wrap items-center gap-2"
+                        aria-label="Filter reviews by accessibility need"
+                        role="group"
+                    >
+                        {(['all', ...accessibilityTypes] as const).map(
+                            (type) => {
+                                const count =
+                                    type === 'all'
+                                        ? reviews.length
+                                        : reviews.filter(
+                                              (review) =>
+                                                  review.accessibilityType ===
+                                                  type
+                                          ).length;
+                                const isSelected = filter === type;
+                                return (
+                                    <button
+                                        key={type}
+                                        type="button"
+                                        aria-pressed={isSelected}
+                                        onClick={() => setFilter(type)}
+                                        disabled={count === 0 && !isSelected}
+                                        className={`rounded-full border px-3 py-1 text-sm transition-colors disabled:opacity-40 ${isSelected ? 'border-[#2DE2E6]/50 bg-[#2DE2E6]/10 text-[#2DE2E6]' : 'border-[#242433] text-[#B9BBC7] hover:border-[#2DE2E6]/40'}`}
+                                    >
+                                        {type === 'all'
+                                            ? 'All'
+                                            : `${accessibilityTypeLabels[type].icon} ${accessibilityTypeLabels[type].label}`}{' '}
+                                        ({count})
+                                    </button>
+                                );
+                            }
+                        )}
+                    </div>
+                )}
+                {reviews && reviews.length > 1 && (
+                    <div className="flex justify-end">
+                        <HelpfulnessSortSelect
+                            value={sort}
+                            onChange={setSort}
+                            label="Sort reviews"
+                        />
+                    </div>
+                )}
+
+                {/* Reviews List */}
+                <div className="flex flex-col gap-4" aria-live="polite">
+                    {visibleReviews === undefined ? (
+                        <div className="space-y-4">
+                            {[1, 2].map((i) => (
+                                <div
+                                    key={i}
+                                    className="flex gap-3 border-t border-[#242433] pt-4"
+                                >
+                                    <Skeleton className="h-8 w-8 rounded-full flex-shrink-0" />
+                                    <div className="flex-1 space-y-2">
+                                        <Skeleton className="h-4 w-32" />
+                                        <Skeleton className="h-4 w-full" />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : visibleReviews.length === 0 ? (
+                        <p className="text-center text-sm text-[#B9BBC7]">
+                            {filter === 'all'
+                                ? 'No reviews yet. Be the first to review it!'
+                                : 'No reviews for this accessibility need yet.'}
+                        </p>
+                    ) : (
+                        visibleReviews.map((review) => (
+                            <article
+                                key={review._id}
+                                className="flex gap-3 border-t border-[#242433] pt-4"
+                            >
+                                {review.userImage ? (
+                                    <Image
+                                        src={review.userImage}
+                                        alt={review.userName ?? 'User'}
+                                        width={32}
+                                        height={32}
+                                        className="h-8 w-8 rounded-full ring-2 ring-[#242433]"
+                                    />
+                                ) : (
+                                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-[#242433]">
+                                        👤
+                                    </div>
+                                )}
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="text-sm font-medium text-[#F5F6FA]">
+                                            {review.userName ?? 'Anonymous'}
+                                        </span>
+                                        <Stars rating={review.rating} />
+                                        {review.accessibilityType && (
+                                            <Badge
+                                                variant="outline"
+                                                className="text-xs border-[#242433] text-[#B9BBC7]"
+                                            >
+                                                {
+                                                    accessibilityTypeLabels[
+                                                        review.accessibilityType
+                                                    ].icon
+                                                }{' '}
+                                                {
+                                                    accessibilityTypeLabels[
+                                                        review.accessibilityType
+                                                    ].label
+                                                }
+                                            </Badge>
+                                        )}
+                                        <span className="text-xs text-[#9CA3AF]">
+                                            {formatDate(review.createdAt)}
+                                        </span>
+                                    </div>
+                                    <p className="mt-1 whitespace-pre-wrap text-sm text-[#B9BBC7]">
+                                        {review.comment}
+                                    </p>
+                                    <ReviewDetails review={review} />
+                                    <HelpfulVote
+                                        targetId={review._id}
+                                        authorId={review.userId}
+                                        helpfulCount={review.helpfulCount}
+                                        unhelpfulCount={review.unhelpfulCount}
+                                        vote={myVotes?.[review._id]}
+                                    />
+                                    {review.updatedAt && (
+                                        <ReviewHistory
+                                            reviewId={review._id}
+                                            updatedAt={review.updatedAt}
+                                        />
+                                    )}
+                                    {isSignedIn &&
+                                        user?.id === review.userId && (
+                                            <div className="mt-1 flex gap-1">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="xs"
+                                                    className="text-[#B9BBC7] hover:text-[#F5F6FA]"
+                                                    onClick={() =>
+                                                        startEditing(review)
+                                                    }
+                                                >
+                                                    Edit
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="xs"
+                                                    className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                                                    onClick={() =>
+                                                        handleDelete(review._id)
+                                                    }
+                                                >
+                                                    Delete
+                                                </Button>
+                                            </div>
+                                        )}
+                                </div>
+                            </article>
+                        ))
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { usePaginatedQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { Button } from '~/components/ui/button';
+import { SkeletonEntriesGrid } from '~/components/ui/skeleton';
+import { EntryCardGrid } from '~/components/EntriesList';
+
+const PAGE_SIZE = 24;
+
+// Entries with a tag, most recently tagged first
+export function TagEntries({ tagId }: { tagId: Id<'tags'> }) {
+    const { results, status, loadMore } = usePaginatedQuery(
+        api.tags.getTaggedEntries,
+        { tagId },
+        { initialNumItems: PAGE_SIZE }
+    );
+
+    if (status === 'LoadingFirstPage') {
+        return <SkeletonEntriesGrid count={6} />;
+    }
+
+    if (results.length === 0) {
+        return (
+            <p className="text-lg text-[#B9BBC7]">
+                No entries have this tag yet.
+            </p>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-8">
+            <EntryCardGrid entries={results} />
+            {status !== 'Exhausted' && (
+                <div className="flex justify-center" aria-live="polite">
+                    <Button
+                        variant="outline"
+                        onClick={() => loadMore(PAGE_SIZE)}
+                        disabled={status === 'LoadingMore'}
+                        className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                    >
+                        {status === 'LoadingMore'
+                            ? 'Loading more entries...'
+                            : 'Load more'}
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
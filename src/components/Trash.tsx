@@ -0,0 +1,149 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useQuery, useMutation } from 'convex/react';
+import { useUser, SignInButton } from '@clerk/nextjs';
+import { api } from '../../convex/_generated/api';
+import type { AnyEntry } from '../../convex/entries';
+import { Button } from '~/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '~/components/ui/card';
+import { Skeleton } from '~/components/ui/skeleton';
+
+const categoryLabels: Record<AnyEntry['category'], string> = {
+    game: '🎮 Game',
+    hardware: '🖥️ Hardware',
+    place: '📍 Place',
+    software: '💿 Software',
+    service: '🛎️ Service'
+};
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric'
+    });
+}
+
+function daysUntil(timestamp: number): number {
+    return Math.max(0, Math.ceil((timestamp - Date.now()) / 86_400_000));
+}
+
+export function Trash() {
+    const { isSignedIn } = useUser();
+    const trash = useQuery(api.trash.getTrash);
+    const restoreEntry = useMutation(api.trash.restoreEntry);
+
+    const [restoringId, setRestoringId] = React.useState<string | null>(null);
+    const [error, setError] = React.useState<string | null>(null);
+
+    const handleRestore = async (entry: AnyEntry) => {
+        setRestoringId(entry._id);
+        setError(null);
+        try {
+            await restoreEntry({
+                entryType: entry.category,
+                entryId: entry._id
+            });
+        } catch (err) {
+            console.error('Failed to restore entry:', err);
+            setError(`Couldn't restore "${entry.name}". Please try again.`);
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    if (!isSignedIn) {
+        return (
+            <div className="flex flex-col items-center gap-4 py-16 text-center">
+                <p className="text-lg text-[#B9BBC7]">
+                    Sign in to see entries you&apos;ve deleted.
+                </p>
+                <SignInButton>
+                    <Button className="bg-[#2DE2E6] text-[#0B0B10] hover:bg-[#2DE2E6]/90">
+                        Sign In
+                    </Button>
+                </SignInButton>
+            </div>
+        );
+    }
+
+    if (trash === undefined) {
+        return (
+            <div className="flex flex-col gap-4">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-24 w-full" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-4">
+            <p className="text-[#B9BBC7]">
+                Deleted entries stay here for 30 days before they are removed
+                for good, along with their reviews, comments and photos.
+            </p>
+
+            {error && (
+                <p role="alert" className="text-sm text-[#F9A8D4]">
+                    {error}
+                </p>
+            )}
+
+            {trash.length === 0 ? (
+                <div className="rounded-2xl border border-[#242433] bg-[#12121A] p-8 text-center">
+                    <p className="text-lg text-[#B9BBC7]">
+                        The trash is empty.
+                    </p>
+                </div>
+            ) : (
+                <ul className="flex flex-col gap-4">
+                    {trash.map(({ entry, purgeAt }) => (
+                        <li key={entry._id}>
+                            <Card className="border-[#242433] bg-[#12121A]">
+                                <CardHeader>
+                                    <CardTitle className="text-lg text-[#F5F6FA]">
+                                        {entry.name}
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                                    <div className="text-sm text-[#B9BBC7]">
+                                        <p>
+                                            {categoryLabels[entry.category]} ·
+                                            deleted{' '}
+                                            {formatDate(entry.deletedAt ?? 0)}
+                                        </p>
+                                        <p>
+                                            Removed permanently in{' '}
+                                            {daysUntil(purgeAt)} days
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => handleRestore(entry)}
+                                        disabled={restoringId === entry._id}
+                                        className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                                    >
+                                        {restoringId === entry._id
+                                            ? 'Restoring...'
+                                            : 'Restore'}
+                                    </Button>
+                                </CardContent>
+                            </Card>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <Link href="/" className="self-start">
+                <Button
+                    variant="outline"
+                    className="border-[#242433] text-[#F5F6FA] hover:border-[#2DE2E6]/50 hover:bg-[#2DE2E6]/5"
+                >
+                    ← Back to Home
+                </Button>
+            </Link>
+        </div>
+    );
+}
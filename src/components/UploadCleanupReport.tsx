@@ -0,0 +1,138 @@
+'use client';
+
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Card, CardHeader, CardTitle, CardContent } from '~/components/ui/card';
+import { Skeleton } from '~/components/ui/skeleton';
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+}
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+export function UploadCleanupReport() {
+    const report = useQuery(api.uploadCleanup.getUploadCleanupReport);
+
+    if (report === undefined) {
+        return (
+            <div className="flex flex-col gap-4">
+                <Skeleton className="h-24 w-full" />
+                <Skeleton className="h-48 w-full" />
+            </div>
+        );
+    }
+
+    if (report === null) {
+        return (
+            <p className="text-lg text-[#B9BBC7]">
+                Only admins can view the upload cleanup report.
+            </p>
+        );
+    }
+
+    return (
+        <div className="flex flex-col gap-6">
+            <p className="text-[#B9BBC7]">
+                Photos uploaded but never attached to an entry or comment are
+                deleted daily, a day after they were uploaded.
+            </p>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+                <Card className="border-[#242433] bg-[#12121A]">
+                    <CardHeader>
+                        <CardTitle className="text-sm font-medium text-[#B9BBC7]">
+                            Space reclaimed
+                            {report.runs.length > 0 &&
+                                ` in the last ${report.runs.length} runs`}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-3xl font-bold text-[#2DE2E6]">
+                        {formatBytes(report.totalBytesReclaimed)}
+                    </CardContent>
+                </Card>
+                <Card className="border-[#242433] bg-[#12121A]">
+                    <CardHeader>
+                        <CardTitle className="text-sm font-medium text-[#B9BBC7]">
+                            Files deleted
+                            {report.runs.length > 0 &&
+                                ` in the last ${report.runs.length} runs`}
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-3xl font-bold text-[#F5F6FA]">
+                        {report.totalFilesDeleted}
+                    </CardContent>
+                </Card>
+            </div>
+
+            <Card className="border-[#242433] bg-[#12121A]">
+                <CardHeader>
+                    <CardTitle className="text-xl text-[#F5F6FA]">
+                        Recent runs
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {report.runs.length === 0 ? (
+                        <p className="text-[#9CA3AF]">
+                            No cleanup has run yet.
+                        </p>
+                    ) : (
+                        <table className="w-full text-left text-sm">
+                            <thead className="text-[#9CA3AF]">
+                                <tr>
+                                    <th className="pb-2 font-medium">
+                                        Started
+                                    </th>
+                                    <th className="pb-2 font-medium">
+                                        Files deleted
+                                    </th>
+                                    <th className="pb-2 font-medium">
+                                        Reclaimed
+                                    </th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-[#F5F6FA]">
+                                {report.runs.map((run) => (
+                                    <tr
+                                        key={run._id}
+                                        className="border-t border-[#242433]"
+                                    >
+                                        <td className="py-2">
+                                            {formatDate(run.startedAt)}
+                                            {run.finishedAt === undefined && (
+                                                <span className="ml-2 text-[#9CA3AF]">
+                                                    (running)
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="py-2">
+                                            {run.filesDeleted}
+                                        </td>
+                                        <td className="py-2">
+                                            {formatBytes(run.bytesReclaimed)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}